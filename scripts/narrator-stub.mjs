@@ -0,0 +1,22 @@
+// Minimal OpenAI-compatible stub for trying the HTTP narrator locally:
+//   node scripts/narrator-stub.mjs
+//   NARRATOR_URL=http://localhost:8787/v1 npm run dev
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8787);
+
+createServer((req, res) => {
+  if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+    res.writeHead(404).end();
+    return;
+  }
+  let raw = "";
+  req.on("data", chunk => { raw += chunk; });
+  req.on("end", () => {
+    const user = JSON.parse(raw).messages?.find(m => m.role === "user")?.content ?? "{}";
+    const { action } = JSON.parse(user);
+    const content = JSON.stringify({ narration: `[stub] Вы делаете: «${action}». Где-то звякает монета.`, changes: { money: 1 } });
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ choices: [{ index: 0, message: { role: "assistant", content } }] }));
+  });
+}).listen(port, () => console.log(`narrator stub on http://localhost:${port}/v1`));
@@ -0,0 +1,66 @@
+// Several players in one game against a running server:
+//   npm run dev
+//   node scripts/party-clients.mjs            (BASE_URL=http://localhost:3000 by default)
+// The host creates a hero, two friends join, everyone follows the live event
+// stream, and the party votes on the first scene choice.
+const base = process.env.BASE_URL ?? "http://localhost:3000";
+
+async function call(path, body) {
+  const res = await fetch(`${base}${path}`, body ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : undefined);
+  const json = await res.json();
+  if (!res.ok) throw new Error(`${path}: ${res.status} ${json.errors?.join("; ")}`);
+  return json;
+}
+
+/** Prints every event of the game as this player sees it. */
+async function follow(who, id, signal) {
+  const res = await fetch(`${base}/api/game/${id}/events`, { signal });
+  const decoder = new TextDecoder();
+  let buf = "";
+  try {
+    for await (const chunk of res.body) {
+      buf += decoder.decode(chunk, { stream: true });
+      let end;
+      while ((end = buf.indexOf("\n\n")) >= 0) {
+        const data = buf.slice(0, end).split("\n").find(l => l.startsWith("data: "));
+        buf = buf.slice(end + 2);
+        if (!data) continue;
+        const e = JSON.parse(data.slice(6));
+        console.log(`[${who}] rev ${e.rev}: ${e.state.log.at(-1).text.split("\n")[0]}`);
+      }
+    }
+  } catch { /* aborted */ }
+}
+
+const host = await call("/api/game", {});
+let rev = host.rev;
+const act = async (seat, action) => { rev = (await call(`/api/game/${host.id}/action`, { action, rev, seat })).rev; };
+const stop = new AbortController();
+const watching = [follow("host", host.id, stop.signal)];
+
+for (const action of [
+  { type: "SET_UNIVERSE", universe: "CLASSIC_FANTASY" },
+  { type: "SET_SEX", sex: "Женский" },
+  { type: "SET_NAME", name: "Ася" },
+  { type: "CHOOSE_RACE", id: "r1" },
+  { type: "CHOOSE_CLASS", id: "c1" },
+  { type: "CHOOSE_BG", id: "b1" },
+]) await act(host.seat, action);
+
+const friends = [];
+for (const [name, race, cls] of [["Борис", "r2", "c2"], ["Вера", "r3", "c3"]]) {
+  const joined = await call(`/api/game/${host.id}/join`, { sex: "Не важно", name, race, cls, bg: "b2" });
+  rev = joined.rev;
+  friends.push(joined);
+  watching.push(follow(name, host.id, stop.signal));
+}
+
+await act(host.seat, { type: "ACT", member: host.member, action: { type: "PARTY", op: "mode", mode: "vote" } });
+await act(friends[0].seat, { type: "CHOICE", id: "2" });
+await act(friends[1].seat, { type: "CHOICE", id: "1" });
+await act(host.seat, { type: "CHOICE", id: "1" });
+
+await new Promise(r => setTimeout(r, 500));
+stop.abort();
+await Promise.all(watching);
+console.log(`game ${host.id}: ${base}/?game=${host.id}`);
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { gameStore } from "@/server/gameStore";
+import { applyAction } from "@/server/games";
+
+/** Body: `{ action, rev, seat }`. Answers with the new state and the action actually recorded. */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const body = (await req.json().catch(() => null)) as { action?: unknown; rev?: unknown; seat?: unknown } | null;
+  if (!body) return NextResponse.json({ errors: ["ожидался JSON"] }, { status: 400 });
+  const res = await applyAction(gameStore(), params.id, body.action, body.rev, body.seat);
+  if (!res.ok) return NextResponse.json({ errors: res.errors, game: res.game }, { status: res.status });
+  return NextResponse.json(res.value);
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { gameStore } from "@/server/gameStore";
+import { gameView, loadGame, watchGame, type GameEvent } from "@/server/games";
+
+export const dynamic = "force-dynamic";
+
+/** Keeps proxies from closing an idle stream. */
+const PING_MS = 25_000;
+
+/**
+ * Server-sent events: the current game first, then every recorded action
+ * with the state after it, so all players' screens follow the same scene.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  const game = await loadGame(gameStore(), params.id);
+  if (!game) return NextResponse.json({ errors: ["игра не найдена"] }, { status: 404 });
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const event = (e: GameEvent) => send(`data: ${JSON.stringify(e)}\n\n`);
+      event(gameView(game));
+      const unwatch = watchGame(game.id, event);
+      const ping = setInterval(() => send(": ping\n\n"), PING_MS);
+      stop = () => { clearInterval(ping); unwatch(); };
+      req.signal.addEventListener("abort", () => {
+        stop();
+        try { controller.close(); } catch { /* already closed */ }
+      });
+    },
+    cancel() { stop(); },
+  });
+
+  return new Response(stream, { headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache, no-transform", Connection: "keep-alive" } });
+}
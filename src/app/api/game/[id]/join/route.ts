@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { gameStore } from "@/server/gameStore";
+import { joinGame } from "@/server/games";
+
+/** Body: `{ sex, name, race, cls, bg }`. Adds the hero to the party and answers with the game and the new player's seat. */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const body = (await req.json().catch(() => null)) as unknown;
+  if (!body) return NextResponse.json({ errors: ["ожидался JSON"] }, { status: 400 });
+  const res = await joinGame(gameStore(), params.id, body);
+  if (!res.ok) return NextResponse.json({ errors: res.errors }, { status: res.status });
+  return NextResponse.json(res.value, { status: 201 });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+
+import { gameStore } from "@/server/gameStore";
+import { gameView, loadGame, playerSession } from "@/server/games";
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const game = await loadGame(gameStore(), params.id);
+  if (!game) return NextResponse.json({ errors: ["игра не найдена"] }, { status: 404 });
+  return NextResponse.json({ ...gameView(game), session: playerSession(game) });
+}
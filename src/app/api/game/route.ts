@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+
+import { gameStore } from "@/server/gameStore";
+import { createGame } from "@/server/games";
+
+/** New game; with `{ session }` in the body, takes over a game played locally after replaying it. */
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => ({}))) as { session?: unknown } | null;
+  const res = await createGame(gameStore(), body?.session);
+  if (!res.ok) return NextResponse.json({ errors: res.errors }, { status: res.status });
+  return NextResponse.json(res.value, { status: 201 });
+}
@@ -2,655 +2,100 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 
-type WearMode = "ON" | "OFF";
-type Universe = "CLASSIC_FANTASY" | "DARK_FANTASY" | "ANIME_ISEKAI" | "CANON" | "CUSTOM";
-type CanonMode = "A_STORYLIKE" | "B_WORLDONLY";
-
-type Rarity = "⚪" | "🟢" | "🔵" | "🟣" | "🟠" | "🔴";
-type DamageIcon = "🗡️" | "🪓" | "🪛" | "🏹" | "🔫" | "💥" | "🧲" | "🔥" | "❄️" | "⚡" | "🌪️" | "🌍" | "💧" | "☀️" | "🌑" | "🧪";
-type EffectIcon = "🩸" | "☠️" | "🔥" | "❄️" | "⚡" | "🌪️" | "🧿" | "💚" | "🛡️" | "✨" | "👁️" | "🕳️" | "🧯";
-
-type ItemType = "weapon" | "armor" | "accessory" | "consumable" | "material" | "quest";
-
-type Stats = { str: number; dex: number; end: number; int: number; cha: number; luck: number };
-
-type Item = {
-  id: string;
-  rarity: Rarity;
-  name: string;
-  type: ItemType;
-  weight: number;
-  slots: 1 | 2 | 3;
-  qty?: number;
-  tags?: string[];
-  notes?: string;
-};
-
-type Equipped = {
-  weapon1?: (Item & { dmgMin?: number; dmgMax?: number; dmgIcons?: DamageIcon[]; reqStr?: number; reqDex?: number });
-  armor?: (Item & { defense?: number; bonuses?: Partial<Stats>; penalties?: Partial<Stats> });
-  accessories: Array<Item & { bonuses?: Partial<Stats> }>;
-  durability?: Record<string, { cur: number; max: number }>;
-};
-
-type Effect = { icon: EffectIcon; name: string; turnsLeft: number };
-
-type Enemy = {
-  name: string;
-  hpCur: number;
-  hpMax: number;
-  evasion: number;
-  defense: number;
-  weak?: DamageIcon;
-  resist?: DamageIcon;
-  attackIcons: DamageIcon[];
-  dmgMin: number;
-  dmgMax: number;
-};
-
-type GamePhase =
-  | "SETTINGS"
-  | "CANON_MODE"
-  | "CUSTOM_RULES"
-  | "CHAR_SEX"
-  | "CHAR_NAME"
-  | "CHAR_RACE"
-  | "CHAR_CLASS"
-  | "CHAR_BG"
-  | "PLAY";
-
-type GameState = {
-  version: number;
-  phase: GamePhase;
-  wear: WearMode;
-  universe: Universe | null;
-  canonTitle?: string;
-  canonMode?: CanonMode;
-  customRules?: string;
-
-  day: number;
-  hour: number;
-  weather: string;
-  location: string;
-  journalPath: string;
-
-  node: "HUB" | "BOARD" | "WHISPER" | "CHECK" | "ROAD";
-
-  sex?: string;
-  name?: string;
-  race?: { id: string; name: string; desc: string; bonuses: Partial<Stats>; weakness: string; worldImpact: string };
-  cls?: { id: string; name: string; desc: string; bonuses: Partial<Stats>; weakness: string; worldImpact: string };
-  bg?: { id: string; name: string; desc: string; bonus: Partial<Stats>; perk: string };
-
-  level: number;
-  xp: number;
-  xpToNext: number;
-
-  hpCur: number;
-  hpMax: number;
-  mpCur: number;
-  mpMax: number;
-
-  stats: Stats;
-  equipped: Equipped;
-  backpack: Item[];
-  money: number;
-
-  effects: Effect[];
-  lootJournal: string[];
-  log: Array<{ role: "system" | "player"; text: string }>;
-
-  enemy?: Enemy;
-};
-
-const LS_KEY = "rpg_chat_mvp_v1";
-const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
-const chanceCheck = () => Math.floor(Math.random() * 100) + 1;
-
-function sumWeight(items: Item[]) { return items.reduce((acc, it) => acc + it.weight * (it.qty ?? 1), 0); }
-function sumSlots(items: Item[]) { return items.reduce((acc, it) => acc + it.slots * (it.qty ?? 1), 0); }
-
-function computeXpToNext(level: number) {
-  if (level <= 1) return 300;
-  let t = 300;
-  for (let lv = 1; lv < level; lv++) t = t * 1.2;
-  return Math.round(t / 10) * 10;
-}
-
-function applyBonuses(stats: Stats, bonuses?: Partial<Stats>, penalties?: Partial<Stats>): Stats {
-  const s = { ...stats };
-  for (const [k,v] of Object.entries(bonuses ?? {})) (s as any)[k] += v as number;
-  for (const [k,v] of Object.entries(penalties ?? {})) (s as any)[k] -= v as number;
-  return {
-    str: Math.max(1, s.str),
-    dex: Math.max(1, s.dex),
-    end: Math.max(1, s.end),
-    int: Math.max(1, s.int),
-    cha: Math.max(1, s.cha),
-    luck: Math.max(1, s.luck),
-  };
-}
-
-function baseUniverseTitle(u: Universe | null, canonTitle?: string) {
-  if (!u) return "—";
-  if (u === "CLASSIC_FANTASY") return "Классическое фэнтези";
-  if (u === "DARK_FANTASY") return "Тёмное фэнтези";
-  if (u === "ANIME_ISEKAI") return "Аниме-исэкай";
-  if (u === "CANON") return `Канон: ${canonTitle ?? "без названия"}`;
-  return "Своя вселенная";
-}
-
-function baseCurrency(u: Universe | null) {
-  if (!u) return "¤";
-  if (u === "CLASSIC_FANTASY") return "⛁ золото";
-  if (u === "DARK_FANTASY") return "⛁ кроны";
-  if (u === "ANIME_ISEKAI") return "✦ кредиты гильдий";
-  return "¤ валюта";
-}
-
-function safeHub(u: Universe | null) {
-  if (!u) return "—";
-  if (u === "CLASSIC_FANTASY") return "Трактир «Три Факела»";
-  if (u === "DARK_FANTASY") return "Постоялый двор «Глухой Колокол»";
-  if (u === "ANIME_ISEKAI") return "Гильдия «Седьмой Клинок»";
-  return "Безопасная точка";
-}
-
-const RACES = [
-  { id: "r1", name: "Человек", desc: "Гибкий старт и связи", bonuses: { cha: 1, luck: 1 }, weakness: "-1 к Инт при маг. проверках", worldImpact: "легче договариваться" },
-  { id: "r2", name: "Эльф", desc: "Точность и слух", bonuses: { dex: 2, int: 1 }, weakness: "+10% штраф от тяжёлой брони", worldImpact: "уважение магов" },
-  { id: "r3", name: "Дворф", desc: "Стойкость и ремесло", bonuses: { end: 2, str: 1 }, weakness: "-5% к уклонению", worldImpact: "лучше ремонт" },
-  { id: "r4", name: "Полуорк", desc: "Сила и нажим", bonuses: { str: 3 }, weakness: "-1 к Харизме", worldImpact: "часть NPC насторожены" },
-  { id: "r5", name: "Тифлинг", desc: "Тьма и сделки", bonuses: { int: 2, cha: 1 }, weakness: "☀️ свет больнее (+20%)", worldImpact: "культы узнают" },
-  { id: "r6", name: "Гном", desc: "Инженерия и ловушки", bonuses: { int: 2, dex: 1 }, weakness: "-1 к Силе", worldImpact: "механизмы проще" },
-  { id: "r7", name: "Халфлинг", desc: "Удача и скрытность", bonuses: { luck: 2, dex: 1 }, weakness: "-1 к Выносливости", worldImpact: "легче уйти от засад" },
-  { id: "r8", name: "Зверолюд", desc: "Инстинкт и рывок", bonuses: { dex: 2, end: 1 }, weakness: "-1 к Харизме", worldImpact: "охота/следы" },
-  { id: "r9", name: "Астральный странник", desc: "Мана и видение", bonuses: { int: 3 }, weakness: "-1 к Выносливости", worldImpact: "видите следы магии" },
-  { id: "r10", name: "Синтетик", desc: "Броня и стабильность", bonuses: { end: 2, str: 1 }, weakness: "реген MP -20%", worldImpact: "тех-торг" },
-  { id: "r11", name: "Нежить", desc: "Проклятая стойкость", bonuses: { end: 2, int: 1 }, weakness: "лечение -20%", worldImpact: "охотники рядом" },
-  { id: "r12", name: "Драконорожденный", desc: "Стихии и сила", bonuses: { str: 2, end: 1 }, weakness: "🧪 яд/кислота больнее", worldImpact: "уважение воинов" },
-  { id: "r13", name: "Фейри", desc: "Чары и лёгкость", bonuses: { dex: 2, cha: 1 }, weakness: "🧲 подавление чар", worldImpact: "фейские сделки" },
-  { id: "r14", name: "Пустотник", desc: "Тьма и метка", bonuses: { luck: 1, int: 2 }, weakness: "☀️ свет больнее", worldImpact: "аномалии реагируют" },
-  { id: "r15", name: "Кибер-адапт", desc: "Импланты и скорость", bonuses: { dex: 2, int: 1 }, weakness: "🧲 EMP больнее", worldImpact: "тех-зоны свои" },
-] as const;
-
-const CLASSES = [
-  { id: "c1", name: "Воин", desc: "Надёжный ближний бой", bonuses: { str: 2, end: 1 }, weakness: "-1 к Интеллекту", worldImpact: "уважение наёмников" },
-  { id: "c2", name: "Разбойник", desc: "Скрытность и крит", bonuses: { dex: 2, luck: 1 }, weakness: "-1 к Выносливости", worldImpact: "чёрный рынок" },
-  { id: "c3", name: "Маг", desc: "Контроль и урон", bonuses: { int: 3 }, weakness: "-1 к Выносливости", worldImpact: "маг-фракции" },
-  { id: "c4", name: "Паладин", desc: "Щиты и свет", bonuses: { end: 2, cha: 1 }, weakness: "-1 к Удаче", worldImpact: "доверие" },
-  { id: "c5", name: "Охотник", desc: "Дальний бой", bonuses: { dex: 2, end: 1 }, weakness: "-1 к Харизме", worldImpact: "тропы" },
-  { id: "c6", name: "Берсерк", desc: "Взрывной урон", bonuses: { str: 3 }, weakness: "-1 к Харизме", worldImpact: "страх" },
-  { id: "c7", name: "Алхимик", desc: "Зелья и баффы", bonuses: { int: 2, luck: 1 }, weakness: "-1 к Силе", worldImpact: "рецепты" },
-  { id: "c8", name: "Инквизитор", desc: "Метки и контр-магия", bonuses: { cha: 2, int: 1 }, weakness: "-1 к Ловкости", worldImpact: "культы злятся" },
-  { id: "c9", name: "Техник", desc: "Гаджеты и модули", bonuses: { int: 2, dex: 1 }, weakness: "-1 к Харизме", worldImpact: "тех-лут" },
-  { id: "c10", name: "Дуелянт", desc: "Контратаки", bonuses: { dex: 2, cha: 1 }, weakness: "-1 к Выносливости", worldImpact: "дуэли" },
-  { id: "c11", name: "Шаман", desc: "Духи и стихии", bonuses: { int: 2, end: 1 }, weakness: "-1 к Харизме", worldImpact: "подсказки духов" },
-  { id: "c12", name: "Некромант", desc: "Тьма и контроль", bonuses: { int: 2, luck: 1 }, weakness: "☀️ свет больнее", worldImpact: "охотники рядом" },
-  { id: "c13", name: "Монах", desc: "Уклонение", bonuses: { dex: 2, end: 1 }, weakness: "-1 к Интеллекту", worldImpact: "храмы" },
-  { id: "c14", name: "Бард", desc: "Баффы и торг", bonuses: { cha: 3 }, weakness: "-1 к Силе", worldImpact: "союзники" },
-  { id: "c15", name: "Страж", desc: "Танк и стойка", bonuses: { end: 3 }, weakness: "-1 к Ловкости", worldImpact: "городская служба" },
-] as const;
-
-const BACKGROUNDS = [
-  { id: "b1", name: "Сирота дорог", desc: "Выживание на трактах", bonus: { luck: 1 }, perk: "Раз в день: +10 к следующей проверке" },
-  { id: "b2", name: "Ученик мастера", desc: "Ремесло и железо", bonus: { end: 1 }, perk: "+5% к торгу за ремонт" },
-  { id: "b3", name: "Бывший страж", desc: "Дисциплина", bonus: { str: 1 }, perk: "+1 🧱ЗАЩ в первом бою дня" },
-  { id: "b4", name: "Книжник", desc: "Знаки и тексты", bonus: { int: 1 }, perk: "Иногда подсказки в сценах" },
-  { id: "b5", name: "Шулер", desc: "Читаете людей", bonus: { cha: 1 }, perk: "+5% к торгу" },
-  { id: "b6", name: "Трофейщик", desc: "Следы и добыча", bonus: { dex: 1 }, perk: "+1 шанс на редкий лут" },
-] as const;
-
-function makeInitialState(): GameState {
-  return {
-    version: 1,
-    phase: "SETTINGS",
-    wear: "OFF",
-    universe: null,
-    node: "HUB",
-
-    day: 1,
-    hour: 8,
-    weather: "Ясно",
-    location: "—",
-    journalPath: "—",
-
-    level: 1,
-    xp: 0,
-    xpToNext: 300,
-
-    hpCur: 30,
-    hpMax: 30,
-    mpCur: 15,
-    mpMax: 15,
-
-    stats: { str: 3, dex: 3, end: 3, int: 3, cha: 3, luck: 3 },
-
-    equipped: { accessories: [] },
-    backpack: [],
-    money: 0,
-
-    effects: [],
-    lootJournal: [],
-    log: [{ role: "system", text: "Игра готова. Выберите настройки старта (износ + вселенная)." }],
-  };
-}
-
-function serialize(state: GameState) { return JSON.stringify(state); }
-function deserialize(raw: string): GameState | null {
-  try {
-    const obj = JSON.parse(raw) as GameState;
-    if (obj?.version !== 1) return null;
-    return obj;
-  } catch { return null; }
-}
-
-function fmtBonus(b: Partial<Stats>) {
-  const parts: string[] = [];
-  if (b.str) parts.push(`💪+${b.str}`);
-  if (b.dex) parts.push(`🎯+${b.dex}`);
-  if (b.end) parts.push(`🛡️+${b.end}`);
-  if (b.int) parts.push(`🧠+${b.int}`);
-  if (b.cha) parts.push(`🗣️+${b.cha}`);
-  if (b.luck) parts.push(`🍀+${b.luck}`);
-  return parts.length ? parts.join(" ") : "—";
-}
-
-function addLog(state: GameState, role: "system" | "player", text: string) {
-  state.log = [...state.log, { role, text }];
-}
-
-function nextHour(state: GameState) {
-  state.hour += 1;
-  if (state.hour >= 24) { state.hour = 0; state.day += 1; }
-}
-
-function maybeWeather(state: GameState) {
-  const n = chanceCheck();
-  if (n <= 10) state.weather = "Морось";
-  else if (n <= 20) state.weather = "Ветер";
-  else if (n <= 25) state.weather = "Туман";
-  else state.weather = "Ясно";
-}
-
-function startCombat(state: GameState) {
-  const u = state.universe!;
-  if (u === "DARK_FANTASY") {
-    state.enemy = { name: "Кривозубый падальщик", hpCur: 26, hpMax: 26, evasion: 8, defense: 3, weak: "🔥", resist: "🌑", attackIcons: ["🪓"], dmgMin: 5, dmgMax: 9 };
-  } else if (u === "ANIME_ISEKAI") {
-    state.enemy = { name: "Слизень ранга E", hpCur: 22, hpMax: 22, evasion: 6, defense: 2, weak: "❄️", resist: "🪛", attackIcons: ["🧪"], dmgMin: 4, dmgMax: 8 };
-  } else {
-    state.enemy = { name: "Дорожный бандит", hpCur: 24, hpMax: 24, evasion: 7, defense: 2, weak: "🪛", resist: "🪓", attackIcons: ["🗡️"], dmgMin: 5, dmgMax: 9 };
-  }
-}
-
-function buildScene(state: GameState) {
-  if (state.enemy) {
-    return {
-      text:
-        `Перед вами ${state.enemy.name} — шаги звучат слишком близко. ` +
-        `Секунда тянется, и вы чувствуете, что сейчас решает один ход. ` +
-        `В воздухе пахнет металлом и сыростью.`,
-      choices: [
-        { id: "1" as const, icon: "⚔" as const, label: "Атака оружием" },
-        { id: "2" as const, icon: "🛡" as const, label: "Осторожная стойка" },
-        { id: "3" as const, icon: "✦" as const, label: "Расходник / умение" },
-        { id: "4" as const, icon: "◦" as const, label: "Свой вариант (описать)" },
-      ],
-    };
-  }
-
-  const hub = safeHub(state.universe);
-  const txt =
-    `(${baseUniverseTitle(state.universe, state.canonTitle)}) ${state.weather}. ` +
-    `Вы у входа в ${hub}. ` +
-    `На доске объявлений свежая записка, рядом скомканная карта с пометкой “опасно”. ` +
-    `Кто-то шепчет про “странный след” в двух часах пути и обещает награду. ` +
-    `Первый шаг задаст тон всей истории.`;
-
-  return {
-    text: txt,
-    choices: [
-      { id: "1" as const, icon: "◦" as const, label: "Читать доску объявлений" },
-      { id: "2" as const, icon: "◦" as const, label: "Поговорить с тем, кто шепчет" },
-      { id: "3" as const, icon: "◦" as const, label: "Проверить экипировку/инвентарь" },
-      { id: "4" as const, icon: "◦" as const, label: "Свой вариант (описать)" },
-    ],
-  };
-}
-
-function useCommand(state: GameState, input: string) {
-  const cmd = input.trim();
-  if (!cmd.startsWith("/")) return false;
-
-  addLog(state, "player", cmd);
-
-  if (cmd === "/помощь") {
-    addLog(state, "system", "Команды: /статы /экип /инвентарь /настройки /помощь");
-    return true;
-  }
-  if (cmd === "/статы") {
-    addLog(state, "system", `💪 ${state.stats.str} 🎯 ${state.stats.dex} 🛡️ ${state.stats.end} 🧠 ${state.stats.int} 🗣️ ${state.stats.cha} 🍀 ${state.stats.luck}`);
-    return true;
-  }
-  if (cmd === "/инвентарь") {
-    if (!state.backpack.length) addLog(state, "system", "Рюкзак пуст.");
-    else addLog(state, "system", state.backpack.map(it => `— ${it.rarity} ${it.name}${it.qty ? ` x${it.qty}` : ""} (${it.weight}кг, слоты ${it.slots})`).join("\n"));
-    return true;
-  }
-  if (cmd === "/экип") {
-    addLog(state, "system", `Оружие: ${state.equipped.weapon1?.rarity ?? ""} ${state.equipped.weapon1?.name ?? "—"}\nБроня: ${state.equipped.armor?.rarity ?? ""} ${state.equipped.armor?.name ?? "—"}`);
-    return true;
-  }
-  if (cmd === "/настройки") {
-    addLog(state, "system", `Износ: ${state.wear === "ON" ? "✅ ВКЛ" : "❌ ВЫКЛ"}\nВселенная: ${baseUniverseTitle(state.universe, state.canonTitle)}`);
-    return true;
-  }
-
-  addLog(state, "system", "Неизвестная команда. /помощь");
-  return true;
-}
+import { CommandInput } from "@/components/CommandInput";
+import { CustomSetup } from "@/components/CustomSetup";
+import { GraveyardPanel } from "@/components/GraveyardPanel";
+import { InventoryPanel } from "@/components/InventoryPanel";
+import { LevelUpPanel } from "@/components/LevelUpPanel";
+import { LootJournalPanel } from "@/components/LootJournalPanel";
+import { MapPanel } from "@/components/MapPanel";
+import { PartyPanel } from "@/components/PartyPanel";
+import { PeoplePanel } from "@/components/PeoplePanel";
+import { ReplayPanel } from "@/components/ReplayPanel";
+import { SavePanel } from "@/components/SavePanel";
+import { ShopPanel } from "@/components/ShopPanel";
+import {
+  BACKGROUNDS, BACKPACK_LABELS, CANON_PACKS, CHOICE_MODE, DIFFICULTIES, MONEY_LOSS_OPTIONS, QUESTS, XP_LOSS_OPTIONS, activeQuests, atHub, baseCurrency, buildScene, classesFor, corpseLeft, describeModifiers, effectiveStats, fleeChance, fmtBonus, fmtDeadline, fmtDeathRules, fmtEffect, memberView, modePrompt, partyMember, questStageText, racesFor, restBlocker, restCost, routeInput, TIME_OF_DAY_LABELS, timeOfDay,
+  type CanonMode, type ChoiceId, type DeathRules, type Difficulty, type GameAction, type InputMode, type RestMode,
+} from "@/game";
+import { useServerGame } from "@/lib/useServerGame";
+
+const REST_BUTTONS: [RestMode, string][] = [["rest", "⏳ Отдых"], ["sleep", "🛏 Сон"], ["wait", "🌅 Ждать утра"]];
+const DIFFICULTY_ORDER: Difficulty[] = ["STORY", "STANDARD", "HARDCORE"];
 
 export default function Page() {
-  const [state, setState] = useState<GameState>(() => makeInitialState());
+  const { game, online, syncError, apply, reset, load, gameId, member, invited, join } = useServerGame();
+  const [showReplay, setShowReplay] = useState(false);
+  const [showSaves, setShowSaves] = useState(false);
+  const [showLoot, setShowLoot] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  const [showGraves, setShowGraves] = useState(false);
+  const [showParty, setShowParty] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>(CHOICE_MODE);
+  const [notice, setNotice] = useState("");
+  // a party member sees the shared scene with their own hero in it
+  const state = member ? memberView(game.state, member) : game.state;
+  const party = game.state.party;
+  const seated = party ? !!partyMember(game.state, member) : !invited || !!member;
   const [input, setInput] = useState("");
   const [racePage, setRacePage] = useState(0);
   const [classPage, setClassPage] = useState(0);
   const logRef = useRef<HTMLDivElement | null>(null);
 
-  const currency = useMemo(() => baseCurrency(state.universe), [state.universe]);
-  const showHud = state.phase === "PLAY";
-  const slotsUsed = sumSlots(state.backpack);
+  const currency = baseCurrency(state);
+  const races = racesFor(state);
+  const classes = classesFor(state);
+  const racePages = Math.ceil(races.length / 5);
+  const classPages = Math.ceil(classes.length / 5);
+  const showHud = state.phase === "PLAY" || state.phase === "LEVEL_UP";
+  const eff = effectiveStats(state);
 
-  useEffect(() => { if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight; }, [state.log.length]);
-
-  useEffect(() => {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw) return;
-    const loaded = deserialize(raw);
-    if (loaded) setState(loaded);
-  }, []);
-
-  useEffect(() => { localStorage.setItem(LS_KEY, serialize(state)); }, [state]);
+  useEffect(() => { if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight; }, [state.log]);
 
   const scene = useMemo(() => (state.phase === "PLAY" ? buildScene(state) : null), [state]);
 
   function hardReset() {
-    localStorage.removeItem(LS_KEY);
-    setState(makeInitialState());
+    void reset();
+    setShowReplay(false);
+    setShowGraves(false);
     setInput("");
+    setInputMode(CHOICE_MODE);
+    setNotice("");
     setRacePage(0);
     setClassPage(0);
   }
 
-  function setWear(w: WearMode) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      s.wear = w;
-      addLog(s, "player", `A) Износ: ${w === "ON" ? "✅ ВКЛ" : "❌ ВЫКЛ"}`);
-      return s;
-    });
-  }
-
-  function setUniverse(u: Universe) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      s.universe = u;
-      addLog(s, "player", `B) Вселенная: ${baseUniverseTitle(u)}`);
-      if (u === "CANON") s.phase = "CANON_MODE";
-      else if (u === "CUSTOM") s.phase = "CUSTOM_RULES";
-      else s.phase = "CHAR_SEX";
-      return s;
-    });
-  }
-
-  function setCanon(title: string, mode: CanonMode) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      s.canonTitle = title.trim() || "Без названия";
-      s.canonMode = mode;
-      s.phase = "CHAR_SEX";
-      addLog(s, "player", `Канон: ${s.canonTitle} | Режим: ${mode === "A_STORYLIKE" ? "A" : "B"}`);
-      return s;
-    });
-  }
-
-  function setCustomRulesText(text: string) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      s.customRules = text.trim();
-      s.phase = "CHAR_SEX";
-      addLog(s, "player", `Правила мира: ${s.customRules}`);
-      return s;
-    });
-  }
-
-  function setSex(v: string) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      s.sex = v;
-      s.phase = "CHAR_NAME";
-      addLog(s, "player", `Пол: ${v}`);
-      return s;
-    });
-  }
-
-  function setName(v: string) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      s.name = v.trim() || "Безымянный";
-      s.phase = "CHAR_RACE";
-      addLog(s, "player", `Имя: ${s.name}`);
-      return s;
-    });
+  // any engine action answers whatever the input box was waiting for
+  function dispatch(action: GameAction) {
+    if (!seated) { setNotice("Вы наблюдаете за игрой: присоединитесь к отряду, чтобы ходить."); return; }
+    apply(action);
+    setInputMode(CHOICE_MODE);
+    setNotice("");
   }
 
-  function chooseRace(id: string) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      const r = RACES.find(x => x.id === id)!;
-      s.race = r;
-      s.phase = "CHAR_CLASS";
-      addLog(s, "player", `Раса: ${r.name}`);
-      return s;
-    });
+  function setRule(rules: Partial<DeathRules>) {
+    dispatch({ type: "SET_DIFFICULTY", difficulty: state.difficulty, rules: { ...state.deathRules, ...rules } });
   }
 
-  function chooseClass(id: string) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      const c = CLASSES.find(x => x.id === id)!;
-      s.cls = c;
-      s.phase = "CHAR_BG";
-      addLog(s, "player", `Класс: ${c.name}`);
-      return s;
-    });
-  }
-
-  function chooseBg(id: string) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      const bg = BACKGROUNDS.find(x => x.id === id)!;
-      s.bg = bg;
-
-      let base: Stats = { str: 3, dex: 3, end: 3, int: 3, cha: 3, luck: 3 };
-      base = applyBonuses(base, s.race?.bonuses);
-      base = applyBonuses(base, s.cls?.bonuses);
-      base = applyBonuses(base, bg.bonus);
-      s.stats = base;
-
-      s.hpMax = 28 + s.stats.end * 4;
-      s.hpCur = s.hpMax;
-      s.mpMax = 12 + s.stats.int * 3;
-      s.mpCur = s.mpMax;
-
-      s.location = safeHub(s.universe);
-      s.journalPath = `Старт → ${s.location}`;
-
-      // starter gear minimal
-      s.money = 40;
-      s.equipped.weapon1 = { id: "w_dagger", rarity: "⚪", name: "Кинжал путника", type: "weapon", weight: 0.8, slots: 1, dmgMin: 6, dmgMax: 10, dmgIcons: ["🪛"], reqDex: 3 };
-      s.equipped.armor = { id: "a_tunic", rarity: "⚪", name: "Кожаная куртка", type: "armor", weight: 4.5, slots: 2, defense: 2 };
-      s.backpack = [{ id: "c_potion", rarity: "⚪", name: "Зелье лечения", type: "consumable", weight: 0.3, slots: 1, qty: 2 }];
-
-      s.lootJournal = [
-        `[День ${s.day}, ${String(s.hour).padStart(2, "0")}:00] + ⚪ Кинжал путника — старт`,
-        `[День ${s.day}, ${String(s.hour).padStart(2, "0")}:00] + ⚪ Кожаная куртка — старт`,
-        `[День ${s.day}, ${String(s.hour).padStart(2, "0")}:00] + ⚪ Зелье лечения x2 — старт`,
-      ];
-
-      s.phase = "PLAY";
-      addLog(s, "player", `Предыстория: ${bg.name}`);
-      addLog(s, "system", "Персонаж создан. Игра началась.");
-      return s;
-    });
-  }
-
-  function handleChoice(id: "1" | "2" | "3" | "4", customText?: string) {
-    setState(prev => {
-      const s = structuredClone(prev);
-      if (s.phase !== "PLAY") return s;
-
-      addLog(s, "player", customText ? `4) ◦ ${customText}` : `${id})`);
-
-      nextHour(s);
-      maybeWeather(s);
-
-      if (s.enemy) {
-        // MVP combat: only "start" and resolve quickly
-        if (id === "1") {
-          const roll = chanceCheck();
-          const hitChance = 60;
-          const hit = roll <= hitChance;
-          if (!hit) addLog(s, "system", `⚔️ Промах. Шанс ${hitChance}% | Проверка ${roll}/100`);
-          else {
-            const dmg = 8;
-            s.enemy.hpCur = Math.max(0, s.enemy.hpCur - dmg);
-            addLog(s, "system", `⚔️ Попадание. Шанс ${hitChance}% | Проверка ${roll}/100\nИтоговый урон: ${dmg} | ❤️ HP врага: ${s.enemy.hpCur}/${s.enemy.hpMax}`);
-            if (s.enemy.hpCur <= 0) {
-              const xpGain = 60;
-              s.xp += xpGain;
-              addLog(s, "system", `🏁 Победа! ⭐ XP +${xpGain}`);
-              delete s.enemy;
-              if (s.xp >= s.xpToNext) {
-                s.level += 1;
-                s.xp -= s.xpToNext;
-                s.xpToNext = computeXpToNext(s.level);
-                addLog(s, "system", `🏅 УРОВЕНЬ ПОВЫШЕН! LV ${s.level}`);
-              }
-              return s;
-            }
-          }
-        } else if (id === "3") {
-          const idx = s.backpack.findIndex(it => it.id === "c_potion" && (it.qty ?? 0) > 0);
-          if (idx >= 0) {
-            s.backpack[idx].qty = (s.backpack[idx].qty ?? 1) - 1;
-            s.hpCur = Math.min(s.hpMax, s.hpCur + 14);
-            addLog(s, "system", `✦ Лечение: +14 HP → ❤️ ${s.hpCur}/${s.hpMax}`);
-          } else addLog(s, "system", "✦ Нет зелья в рюкзаке");
-        } else {
-          addLog(s, "system", "🛡/◦ Вы действуете осторожно, выбирая позицию (MVP).");
-        }
-
-        // enemy response
-        const eroll = chanceCheck();
-        const ehit = eroll <= 55;
-        if (!ehit) addLog(s, "system", `Ответ врага: промах. Проверка ${eroll}/100`);
-        else {
-          const edmg = 6;
-          s.hpCur = Math.max(0, s.hpCur - edmg);
-          addLog(s, "system", `Ответ врага: попадание. Проверка ${eroll}/100\nУрон: ${edmg} | Ваше ❤️ ${s.hpCur}/${s.hpMax}`);
-          if (s.hpCur <= 0) {
-            addLog(s, "system", "☠️ Вы пали. Возврат в безопасную точку. Рюкзак потерян.");
-            s.backpack = [];
-            s.hpCur = s.hpMax;
-            s.location = safeHub(s.universe);
-            delete s.enemy;
-          }
-        }
-        return s;
-      }
-
-      // exploration
-            // === scene transitions (non-combat) ===
-      if (!s.enemy) {
-        if (s.node === "HUB") {
-          if (id === "1") s.node = "BOARD";
-          else if (id === "2") s.node = "WHISPER";
-          else if (id === "3") s.node = "CHECK";
-          return s;
-        }
-
-        if (s.node === "BOARD") {
-          if (id === "1") s.node = "ROAD";
-          else if (id === "3") s.node = "HUB";
-          return s;
-        }
-
-        if (s.node === "WHISPER") {
-          if (id === "3") s.node = "HUB";
-          return s;
-        }
-
-        if (s.node === "CHECK") {
-          if (id === "3") s.node = "HUB";
-          return s;
-        }
-
-        if (s.node === "ROAD") {
-          if (id === "3") s.node = "HUB";
-          return s;
-        }
-      }
-
-      if (id === "1") {
-        const roll = chanceCheck();
-        addLog(s, "system", `Вы читаете доску. Проверка случая: ${roll}/100 → ${roll <= 25 ? "⚠️ подозрительная тень" : "тишина"}`);
-        if (roll <= 25) startCombat(s);
-      } else if (id === "2") {
-        const roll = chanceCheck();
-        addLog(s, "system", `Разговор. Проверка случая: ${roll}/100 → ${roll <= 50 ? "✅ наводка на тайник" : "❌ собеседник ушёл"}`);
-        s.journalPath = roll <= 50 ? "Получена наводка на тайник" : "Срыв разговора";
-      } else if (id === "3") {
-        addLog(s, "system", "Вы проверяете ремни и карманы. Всё на месте.");
-        s.journalPath = "Проверка снаряжения";
-      } else {
-        addLog(s, "system", `◦ Ваш вариант: "${customText ?? ""}" (MVP).`);
-      }
-
-      return s;
-    });
+  function submitInput() {
+    if (!input.trim()) return;
+    const route = routeInput(state, inputMode, input);
+    setInput("");
+    if (route.action) dispatch(route.action);
+    // online the server narrates free-text choices; offline the engine's built-in narrator does
+    else if (route.narrate) dispatch({ type: "CHOICE", id: "4", text: route.narrate });
+    setInputMode(route.mode);
+    setNotice(route.notice ?? "");
   }
 
-  function submitInput() {
-    const txt = input.trim();
-    if (!txt) return;
-
-    // During play, route
-    if (state.phase === "PLAY") {
-      setState(prev => {
-        const s = structuredClone(prev);
-        if (useCommand(s, txt)) return s;
-        return s;
-      });
-
-      if (txt === "1" || txt === "2" || txt === "3") handleChoice(txt as any);
-      else if (txt === "4") {
-        setState(prev => {
-          const s = structuredClone(prev);
-          addLog(s, "system", "Введите свой вариант текстом.");
-          return s;
-        });
-      } else handleChoice("4", txt);
-
-      setInput("");
+  function pickChoice(id: ChoiceId) {
+    // "4" outside a fight waits for the action text instead of logging a hint
+    if (id === "4" && !state.enemy) {
+      setInputMode({ kind: "custom" });
+      setNotice(modePrompt({ kind: "custom" }));
       return;
     }
-
-    // non-play: name/custom rules can be entered
-    if (state.phase === "CHAR_NAME") setName(txt);
-    else if (state.phase === "CUSTOM_RULES") setCustomRulesText(txt);
-    setInput("");
+    dispatch({ type: "CHOICE", id });
   }
 
   return (
@@ -659,13 +104,27 @@ export default function Page() {
         <div className="mb-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
             <div className="text-xl font-semibold">Text RPG — Web MVP</div>
-            <div className="text-sm text-zinc-400">Сохранение в браузере. Деплой на Vercel.</div>
+            <div className="text-sm text-zinc-400">{online ? "Игра хранится на сервере." : "Сохранение в браузере."} Деплой на Vercel.</div>
+            {syncError && <div className="text-xs text-amber-400">⚠️ {syncError}</div>}
           </div>
           <div className="flex gap-2">
+            <button className={`rounded-xl border px-3 py-2 text-sm ${showSaves ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`} onClick={() => setShowSaves(v => !v)}>Сохранения</button>
+            <button className={`rounded-xl border px-3 py-2 text-sm ${showReplay ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`} onClick={() => setShowReplay(v => !v)}>Реплей</button>
+            <button className={`rounded-xl border px-3 py-2 text-sm ${showMap ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`} onClick={() => setShowMap(v => !v)}>Карта</button>
+            <button className={`rounded-xl border px-3 py-2 text-sm ${showLoot ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`} onClick={() => setShowLoot(v => !v)}>Добыча</button>
+            <button className={`rounded-xl border px-3 py-2 text-sm ${showParty ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`} onClick={() => setShowParty(v => !v)}>Отряд{party ? ` (${party.members.length})` : ""}</button>
+            <button className={`rounded-xl border px-3 py-2 text-sm ${showGraves ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`} onClick={() => setShowGraves(v => !v)}>Кладбище</button>
             <button className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900" onClick={hardReset}>Сброс</button>
           </div>
         </div>
 
+        {showSaves && <SavePanel recording={game} onLoad={rec => void load(rec)} />}
+        {showReplay && <ReplayPanel recording={game} />}
+        {showLoot && <LootJournalPanel journal={state.lootJournal} />}
+        {(showParty || !seated) && <PartyPanel state={game.state} member={member} gameId={gameId} online={online} dispatch={dispatch} onJoin={hero => void join(hero)} />}
+        {showMap && showHud && <MapPanel state={state} dispatch={dispatch} />}
+        {showGraves && state.phase !== "DEAD" && <GraveyardPanel state={state} />}
+
         <div className="grid gap-4 lg:grid-cols-[360px_1fr]">
           {/* HUD */}
           <div className="rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
@@ -675,42 +134,65 @@ export default function Page() {
             ) : (
               <div className="space-y-3 text-sm leading-5">
                 <div>
-                  <div>🕒 Время: День {state.day}, {String(state.hour).padStart(2,"0")}:00 | 🌦️ {state.weather}</div>
+                  <div>🕒 Время: День {state.day}, {String(state.hour).padStart(2,"0")}:00 ({TIME_OF_DAY_LABELS[timeOfDay(state)]}) | 🌦️ {state.weather}</div>
+                  {state.phase === "PLAY" && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {REST_BUTTONS.map(([mode, label]) => (
+                        <button key={mode} onClick={() => dispatch({ type: "REST", mode })} disabled={!!restBlocker(state, mode)} title={restBlocker(state, mode) || undefined} className="rounded-lg border border-zinc-700 px-2 py-0.5 text-xs hover:bg-zinc-900 disabled:opacity-40">
+                          {label}{mode === "sleep" && restCost(state, mode) ? ` (${restCost(state, mode)})` : ""}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <div>📍 Локация: {state.location}</div>
+                  {corpseLeft(state) && (
+                    <div>
+                      ⚰️ Тело с вещами: {state.corpse!.location} (до конца дня {state.corpse!.expires})
+                      {state.phase === "PLAY" && state.corpse!.location === state.location && !state.enemy && <> <button onClick={() => dispatch({ type: "COMMAND", input: "/тело" })} className="text-xs text-zinc-400 underline hover:text-zinc-200">забрать</button></>}
+                    </div>
+                  )}
                 </div>
 
                 <div>
                   <div>🧑 Персонаж: {state.name} — {state.race?.name}/{state.cls?.name}</div>
                   <div>🏅 Уровень: {state.level}</div>
                   <div>⭐ Опыт: {state.xp} / {state.xpToNext}</div>
+                  <div>🎚️ Сложность: {DIFFICULTIES[state.difficulty].name}{state.deaths ? ` | ☠️ смертей: ${state.deaths}` : ""}</div>
+                  {state.statPoints > 0 && <div>📈 Очки характеристик: {state.statPoints}</div>}
+                  {party && <div>👥 Отряд: {party.members.map(m => m.name).join(", ")}{state.enemy && party.turn ? ` | ⏳ ход: ${party.turn === member ? "ваш" : partyMember(game.state, party.turn)?.name}` : ""}</div>}
                 </div>
 
                 <div>
                   <div>❤️ HP: {state.hpCur}/{state.hpMax}</div>
                   <div>🔷 MP: {state.mpCur}/{state.mpMax}</div>
+                  <div>🌀 Эффекты: {state.effects.length ? state.effects.map(fmtEffect).join(" ") : "—"}</div>
                 </div>
 
                 <div>
                   <div className="font-semibold">📊 Характеристики</div>
-                  <div>💪 {state.stats.str}  🎯 {state.stats.dex}  🛡️ {state.stats.end}</div>
-                  <div>🧠 {state.stats.int}  🗣️ {state.stats.cha}  🍀 {state.stats.luck}</div>
+                  <div>💪 {eff.str}  🎯 {eff.dex}  🛡️ {eff.end}</div>
+                  <div>🧠 {eff.int}  🗣️ {eff.cha}  🍀 {eff.luck}</div>
                 </div>
 
                 <div>
-                  <div className="font-semibold">⚔️ Экип</div>
-                  <div>— Оружие: {state.equipped.weapon1?.rarity} {state.equipped.weapon1?.name} ({(state.equipped.weapon1 as any)?.dmgMin ?? "—"}–{(state.equipped.weapon1 as any)?.dmgMax ?? "—"})</div>
-                  <div>— Броня: {state.equipped.armor?.rarity} {state.equipped.armor?.name}</div>
+                  <div className="font-semibold">📜 Задания</div>
+                  {!activeQuests(state).length && <div className="text-zinc-400">—</div>}
+                  {activeQuests(state).map(q => (
+                    <div key={q.id}>
+                      — {QUESTS[q.id]?.title}: {questStageText(q)}
+                      {q.deadline !== undefined && <span className={q.deadline === state.day ? "text-amber-400" : "text-zinc-400"}> ⏳ {fmtDeadline(state, q)}</span>}
+                    </div>
+                  ))}
                 </div>
 
-                <div>
-                  <div className="font-semibold">🎒 Рюкзак</div>
-                  <div>слоты {slotsUsed}/10 | вес {sumWeight(state.backpack).toFixed(1)} кг</div>
-                </div>
+                <PeoplePanel state={state} dispatch={dispatch} />
+
+                <InventoryPanel state={state} dispatch={dispatch} />
 
                 <div>
-                  <div>💰 Деньги: {state.money} {currency}</div>
+                  <div>💰 Деньги: {state.money} {currency} {state.phase === "PLAY" && atHub(state) && !state.trade && <button onClick={() => dispatch({ type: "TRADE", op: "open" })} className="text-xs text-zinc-400 underline hover:text-zinc-200">🛒 лавка</button>}</div>
                   <div>🧭 Журнал пути: {state.journalPath}</div>
-                  <div>📒 Добыча: {state.lootJournal.slice(0,2).length ? state.lootJournal.slice(0,2).join(" | ") : "—"}</div>
+                  <div>📒 Добыча: {state.lootJournal.length ? state.lootJournal.slice(-2).join(" | ") : "—"} <button onClick={() => setShowLoot(true)} className="text-xs text-zinc-400 underline hover:text-zinc-200">все ({state.lootJournal.length})</button></div>
                 </div>
               </div>
             )}
@@ -720,6 +202,19 @@ export default function Page() {
           <div className="rounded-2xl border border-zinc-800 bg-zinc-900/20 p-4">
             {state.phase !== "PLAY" ? (
               <div className="space-y-4">
+                {state.phase === "LEVEL_UP" && <LevelUpPanel key={state.level} state={state} dispatch={dispatch} />}
+
+                {state.phase === "DEAD" && (
+                  <>
+                    <div className="rounded-2xl border border-red-900/60 bg-zinc-950/40 p-4">
+                      <div className="text-lg font-semibold">☠️ {state.name}: конец пути{state.fate ? ` — ${state.fate.location}, день ${state.fate.day}` : ""}</div>
+                      <div className="mt-1 text-sm text-zinc-300">{state.fate ? `Последний противник: «${state.fate.cause}». ` : ""}Уровень {state.level}. В режиме «Хардкор» смерть окончательна.</div>
+                      <button onClick={hardReset} className="mt-3 w-full rounded-xl border border-zinc-700 bg-zinc-900 px-3 py-3 text-sm hover:bg-zinc-800">Новый герой</button>
+                    </div>
+                    <GraveyardPanel state={state} />
+                  </>
+                )}
+
                 {state.phase === "SETTINGS" && (
                   <>
                     <div className="text-lg font-semibold">Старт — настройки</div>
@@ -727,34 +222,69 @@ export default function Page() {
                     <div className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-4">
                       <div className="font-semibold">A) 🔧 Износ</div>
                       <div className="mt-3 flex flex-wrap gap-2">
-                        <button onClick={() => setWear("ON")} className={`rounded-xl border px-3 py-2 text-sm ${state.wear==="ON" ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>1) ✅ ВКЛ</button>
-                        <button onClick={() => setWear("OFF")} className={`rounded-xl border px-3 py-2 text-sm ${state.wear==="OFF" ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>2) ❌ ВЫКЛ</button>
+                        <button onClick={() => dispatch({ type: "SET_WEAR", wear: "ON" })} className={`rounded-xl border px-3 py-2 text-sm ${state.wear==="ON" ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>1) ✅ ВКЛ</button>
+                        <button onClick={() => dispatch({ type: "SET_WEAR", wear: "OFF" })} className={`rounded-xl border px-3 py-2 text-sm ${state.wear==="OFF" ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>2) ❌ ВЫКЛ</button>
                       </div>
                     </div>
 
                     <div className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-4">
-                      <div className="font-semibold">B) 🌍 Вселенная</div>
+                      <div className="font-semibold">B) 🎚️ Сложность</div>
+                      <div className="mt-3 grid gap-2 sm:grid-cols-3">
+                        {DIFFICULTY_ORDER.map((d, i) => (
+                          <button key={d} onClick={() => dispatch({ type: "SET_DIFFICULTY", difficulty: d })} className={`rounded-xl border px-3 py-2 text-left text-sm ${state.difficulty === d ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>
+                            {i + 1}) {DIFFICULTIES[d].name}
+                            <span className="mt-1 block text-xs text-zinc-400">{DIFFICULTIES[d].desc}</span>
+                          </button>
+                        ))}
+                      </div>
+                      {!DIFFICULTIES[state.difficulty].permadeath && (
+                        <div className="mt-3 space-y-2 text-sm">
+                          <div className="text-zinc-400">Цена смерти: {fmtDeathRules(state)}</div>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <span className="w-20">⭐ Опыт</span>
+                            {XP_LOSS_OPTIONS.map(v => (
+                              <button key={v} onClick={() => setRule({ xpLoss: v })} className={`rounded-lg border px-2 py-0.5 text-xs ${state.deathRules.xpLoss === v ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>−{v}%</button>
+                            ))}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <span className="w-20">💰 Деньги</span>
+                            {MONEY_LOSS_OPTIONS.map(v => (
+                              <button key={v} onClick={() => setRule({ moneyLoss: v })} className={`rounded-lg border px-2 py-0.5 text-xs ${state.deathRules.moneyLoss === v ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>−{v}%</button>
+                            ))}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <span className="w-20">🎒 Рюкзак</span>
+                            {(Object.keys(BACKPACK_LABELS) as DeathRules["backpack"][]).map(v => (
+                              <button key={v} onClick={() => setRule({ backpack: v })} className={`rounded-lg border px-2 py-0.5 text-xs ${state.deathRules.backpack === v ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>{BACKPACK_LABELS[v]}</button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-4">
+                      <div className="font-semibold">C) 🌍 Вселенная</div>
                       <div className="mt-3 grid gap-2 sm:grid-cols-2">
-                        <button onClick={() => setUniverse("CLASSIC_FANTASY")} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">1) Классическое фэнтези</button>
-                        <button onClick={() => setUniverse("DARK_FANTASY")} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">2) Тёмное фэнтези</button>
-                        <button onClick={() => setUniverse("ANIME_ISEKAI")} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">3) Аниме-исэкай</button>
-                        <button onClick={() => setUniverse("CANON")} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">4) Канон</button>
-                        <button onClick={() => setUniverse("CUSTOM")} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900 sm:col-span-2">5) Своя вселенная</button>
+                        <button onClick={() => dispatch({ type: "SET_UNIVERSE", universe: "CLASSIC_FANTASY" })} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">1) Классическое фэнтези</button>
+                        <button onClick={() => dispatch({ type: "SET_UNIVERSE", universe: "DARK_FANTASY" })} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">2) Тёмное фэнтези</button>
+                        <button onClick={() => dispatch({ type: "SET_UNIVERSE", universe: "ANIME_ISEKAI" })} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">3) Аниме-исэкай</button>
+                        <button onClick={() => dispatch({ type: "SET_UNIVERSE", universe: "CANON" })} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">4) Канон</button>
+                        <button onClick={() => dispatch({ type: "SET_UNIVERSE", universe: "CUSTOM" })} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900 sm:col-span-2">5) Своя вселенная</button>
                       </div>
                     </div>
                   </>
                 )}
 
-                {state.phase === "CANON_MODE" && <CanonSetup onDone={setCanon} />}
+                {state.phase === "CANON_MODE" && <CanonSetup onDone={(title, mode, pack) => dispatch({ type: "SET_CANON", title, mode, pack })} />}
 
-                {state.phase === "CUSTOM_RULES" && <CustomSetup onDone={setCustomRulesText} />}
+                {state.phase === "CUSTOM_RULES" && <CustomSetup onDone={(text, world) => dispatch({ type: "SET_CUSTOM_RULES", text, world })} />}
 
                 {state.phase === "CHAR_SEX" && (
                   <div className="space-y-3">
                     <div className="text-lg font-semibold">A) Пол</div>
                     <div className="flex flex-wrap gap-2">
                       {["Мужской","Женский","Не важно"].map(v => (
-                        <button key={v} onClick={() => setSex(v)} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900">{v}</button>
+                        <button key={v} onClick={() => dispatch({ type: "SET_SEX", sex: v })} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900">{v}</button>
                       ))}
                     </div>
                   </div>
@@ -771,18 +301,18 @@ export default function Page() {
                   <div className="space-y-3">
                     <div className="text-lg font-semibold">C) Раса (5 вариантов)</div>
                     <div className="grid gap-2">
-                      {RACES.slice(racePage*5, racePage*5+5).map(r => (
-                        <button key={r.id} onClick={() => chooseRace(r.id)} className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-3 text-left hover:bg-zinc-900">
+                      {races.slice(racePage*5, racePage*5+5).map(r => (
+                        <button key={r.id} onClick={() => dispatch({ type: "CHOOSE_RACE", id: r.id })} className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-3 text-left hover:bg-zinc-900">
                           <div className="font-semibold">{r.name}</div>
                           <div className="text-sm text-zinc-300">{r.desc}</div>
-                          <div className="mt-2 text-xs text-zinc-400">Бонусы: {fmtBonus(r.bonuses)} | Слабость: {r.weakness} | Влияние: {r.worldImpact}</div>
+                          <div className="mt-2 text-xs text-zinc-400">Бонусы: {fmtBonus(r.bonuses)} | Слабость: {describeModifiers(r.weakness)} | Влияние: {describeModifiers(r.worldImpact)}</div>
                         </button>
                       ))}
                     </div>
                     <div className="flex items-center justify-between">
                       <button onClick={() => setRacePage(p => Math.max(0,p-1))} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-40" disabled={racePage===0}>← Назад</button>
-                      <div className="text-sm text-zinc-400">Стр. {racePage+1}/3</div>
-                      <button onClick={() => setRacePage(p => Math.min(2,p+1))} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-40" disabled={racePage===2}>Дальше →</button>
+                      <div className="text-sm text-zinc-400">Стр. {racePage+1}/{racePages}</div>
+                      <button onClick={() => setRacePage(p => Math.min(racePages-1,p+1))} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-40" disabled={racePage>=racePages-1}>Дальше →</button>
                     </div>
                   </div>
                 )}
@@ -791,18 +321,18 @@ export default function Page() {
                   <div className="space-y-3">
                     <div className="text-lg font-semibold">D) Класс (5 вариантов)</div>
                     <div className="grid gap-2">
-                      {CLASSES.slice(classPage*5, classPage*5+5).map(c => (
-                        <button key={c.id} onClick={() => chooseClass(c.id)} className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-3 text-left hover:bg-zinc-900">
+                      {classes.slice(classPage*5, classPage*5+5).map(c => (
+                        <button key={c.id} onClick={() => dispatch({ type: "CHOOSE_CLASS", id: c.id })} className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-3 text-left hover:bg-zinc-900">
                           <div className="font-semibold">{c.name}</div>
                           <div className="text-sm text-zinc-300">{c.desc}</div>
-                          <div className="mt-2 text-xs text-zinc-400">Бонусы: {fmtBonus(c.bonuses)} | Слабость: {c.weakness} | Влияние: {c.worldImpact}</div>
+                          <div className="mt-2 text-xs text-zinc-400">Бонусы: {fmtBonus(c.bonuses)} | Слабость: {describeModifiers(c.weakness)} | Влияние: {describeModifiers(c.worldImpact)}</div>
                         </button>
                       ))}
                     </div>
                     <div className="flex items-center justify-between">
                       <button onClick={() => setClassPage(p => Math.max(0,p-1))} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-40" disabled={classPage===0}>← Назад</button>
-                      <div className="text-sm text-zinc-400">Стр. {classPage+1}/3</div>
-                      <button onClick={() => setClassPage(p => Math.min(2,p+1))} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-40" disabled={classPage===2}>Дальше →</button>
+                      <div className="text-sm text-zinc-400">Стр. {classPage+1}/{classPages}</div>
+                      <button onClick={() => setClassPage(p => Math.min(classPages-1,p+1))} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-40" disabled={classPage>=classPages-1}>Дальше →</button>
                     </div>
                   </div>
                 )}
@@ -812,10 +342,10 @@ export default function Page() {
                     <div className="text-lg font-semibold">E) Предыстория</div>
                     <div className="grid gap-2">
                       {BACKGROUNDS.map(b => (
-                        <button key={b.id} onClick={() => chooseBg(b.id)} className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-3 text-left hover:bg-zinc-900">
+                        <button key={b.id} onClick={() => dispatch({ type: "CHOOSE_BG", id: b.id })} className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-3 text-left hover:bg-zinc-900">
                           <div className="font-semibold">{b.name}</div>
                           <div className="text-sm text-zinc-300">{b.desc}</div>
-                          <div className="mt-2 text-xs text-zinc-400">Бонус: {fmtBonus(b.bonus)} | Перк: {b.perk}</div>
+                          <div className="mt-2 text-xs text-zinc-400">Бонус: {fmtBonus(b.bonus)} | Перк: {describeModifiers(b.perk)}</div>
                         </button>
                       ))}
                     </div>
@@ -825,6 +355,7 @@ export default function Page() {
               </div>
             ) : (
               <>
+                {state.trade && atHub(state) && <ShopPanel state={state} dispatch={dispatch} />}
                 <div ref={logRef} className="h-[460px] overflow-auto rounded-2xl border border-zinc-800 bg-zinc-950/40 p-3">
                   {state.log.map((m, idx) => (
                     <div key={idx} className={`mb-3 rounded-xl p-3 ${m.role==="player" ? "bg-zinc-900/60" : "bg-zinc-900/20"}`}>
@@ -842,30 +373,42 @@ export default function Page() {
                           <div>🌀 УКЛ: {state.enemy.evasion} | 🧱 ЗАЩ: {state.enemy.defense}</div>
                           <div>Слабость: {state.enemy.weak ?? "—"} | Сопротивление: {state.enemy.resist ?? "—"}</div>
                           <div>Атаки: {state.enemy.attackIcons.join(" ")} ({state.enemy.dmgMin}–{state.enemy.dmgMax})</div>
+                          {!!state.enemy.effects?.length && <div>Эффекты: {state.enemy.effects.map(fmtEffect).join(" ")}</div>}
+                          {!!state.pack?.length && (
+                            <div className="mt-2 text-zinc-400">Рядом: {state.pack.map(e => (e.hpCur > 0 ? `${e.name} ❤️${e.hpCur}/${e.hpMax}` : `${e.name} ✝`)).join(" · ")}</div>
+                          )}
                         </div>
                       )}
 
                       <div className="mb-3 text-sm text-zinc-200">{scene.text}</div>
                       <div className="grid gap-2">
                         {scene.choices.map(c => (
-                          <button key={c.id} onClick={() => handleChoice(c.id)} className="rounded-xl border border-zinc-700 bg-zinc-950/40 px-3 py-2 text-left text-sm hover:bg-zinc-900">
+                          <button key={c.id} onClick={() => pickChoice(c.id)} className="rounded-xl border border-zinc-700 bg-zinc-950/40 px-3 py-2 text-left text-sm hover:bg-zinc-900">
                             {c.id}) {c.icon}  {c.label}
                           </button>
                         ))}
                       </div>
-                      <div className="mt-3 text-xs text-zinc-500">Можно нажимать кнопки или писать 1–4. Команды: /помощь</div>
+                      {state.enemy && (
+                        <button onClick={() => dispatch({ type: "FLEE" })} className="mt-2 w-full rounded-xl border border-zinc-700 bg-zinc-950/40 px-3 py-2 text-left text-sm hover:bg-zinc-900">
+                          🏃 Бежать (~{fleeChance(state).chance}%)
+                        </button>
+                      )}
+                      {!!scene.abilities?.length && (
+                        <div className="mt-3 grid gap-2 sm:grid-cols-2">
+                          {scene.abilities.map(a => (
+                            <button key={a.id} onClick={() => dispatch({ type: "ABILITY", id: a.id })} disabled={!a.ready} className="rounded-xl border border-indigo-800 bg-zinc-950/40 px-3 py-2 text-left text-sm hover:bg-zinc-900 disabled:opacity-40">
+                              {a.icon} {a.label} · 🔷{a.mp}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <div className="mt-3 text-xs text-zinc-500">{notice || (state.enemy && party?.turn && party.turn !== member ? `Сейчас ход: ${partyMember(game.state, party.turn)?.name}.` : party?.mode === "vote" && !state.enemy ? "Варианты 1–4 решаются голосованием отряда." : "Можно нажимать кнопки или писать 1–4. Команды: /помощь")}</div>
                     </div>
                   )}
                 </div>
 
                 <div className="mt-3 flex gap-2">
-                  <input
-                    value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    onKeyDown={(e) => { if (e.key === "Enter") submitInput(); }}
-                    placeholder="Введите 1–4, свой вариант, или команду (/помощь)…"
-                    className="w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600"
-                  />
+                  <CommandInput state={state} value={input} onChange={setInput} onSubmit={submitInput} placeholder={modePrompt(inputMode) || "Введите 1–4, свой вариант, или команду (/помощь)…"} />
                   <button onClick={submitInput} className="rounded-xl border border-zinc-700 bg-zinc-900 px-4 py-3 text-sm hover:bg-zinc-800">Отправить</button>
                 </div>
               </>
@@ -877,12 +420,13 @@ export default function Page() {
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={(e) => { if (e.key === "Enter") submitInput(); }}
-                  placeholder={state.phase === "CHAR_NAME" ? "Введите имя и Enter…" : state.phase === "CUSTOM_RULES" ? "2–3 правила мира и Enter…" : "Поле ввода…"}
+                  placeholder={state.phase === "CHAR_NAME" ? "Введите имя и Enter…" : "Поле ввода…"}
                   className="w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600"
                 />
                 <button onClick={submitInput} className="rounded-xl border border-zinc-700 bg-zinc-900 px-4 py-3 text-sm hover:bg-zinc-800">OK</button>
               </div>
             )}
+            {state.phase !== "PLAY" && notice && <div className="mt-2 text-xs text-zinc-500">{notice}</div>}
 
           </div>
         </div>
@@ -895,35 +439,34 @@ export default function Page() {
   );
 }
 
-function CanonSetup({ onDone }: { onDone: (title: string, mode: CanonMode) => void }) {
+function CanonSetup({ onDone }: { onDone: (title: string, mode: CanonMode, pack?: string) => void }) {
   const [title, setTitle] = useState("");
   const [mode, setMode] = useState<CanonMode>("A_STORYLIKE");
+  const [pack, setPack] = useState("");
+  const chosen = CANON_PACKS.find(p => p.id === pack);
 
   return (
     <div className="space-y-3">
       <div className="text-lg font-semibold">Канон — название и режим</div>
       <div className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-4 space-y-3">
-        <div className="text-sm text-zinc-300">Введите название и выберите режим.</div>
-        <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Например: Метро 2033" className="w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600" />
+        <div className="text-sm text-zinc-300">Выберите мир из набора или введите название своего канона, затем режим.</div>
+        <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+          <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={chosen?.title ?? "Например: Метро 2033"} className="w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600" />
+          <select value={pack} onChange={(e) => setPack(e.target.value)} className="rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600">
+            <option value="">Без набора — только название</option>
+            {CANON_PACKS.map(p => <option key={p.id} value={p.id}>📚 {p.title}</option>)}
+          </select>
+        </div>
+        {chosen && (
+          <div className="text-sm text-zinc-400">
+            {chosen.desc} Безопасная точка: {chosen.hub}, валюта: {chosen.currency}, мест на карте: {chosen.map.locations.length}{chosen.story.length ? `, глав сюжета: ${chosen.story.length}` : ""}.
+          </div>
+        )}
         <div className="grid gap-2 sm:grid-cols-2">
           <button onClick={() => setMode("A_STORYLIKE")} className={`rounded-xl border px-3 py-2 text-left text-sm ${mode==="A_STORYLIKE" ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>Режим A: аналогичный сюжет</button>
           <button onClick={() => setMode("B_WORLDONLY")} className={`rounded-xl border px-3 py-2 text-left text-sm ${mode==="B_WORLDONLY" ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>Режим B: только мир/стиль</button>
         </div>
-        <button onClick={() => onDone(title || "Без названия", mode)} className="w-full rounded-xl border border-zinc-700 bg-zinc-900 px-3 py-3 text-sm hover:bg-zinc-800">Продолжить</button>
-      </div>
-    </div>
-  );
-}
-
-function CustomSetup({ onDone }: { onDone: (rules: string) => void }) {
-  const [rules, setRules] = useState("");
-  return (
-    <div className="space-y-3">
-      <div className="text-lg font-semibold">Своя вселенная — правила</div>
-      <div className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-4 space-y-3">
-        <div className="text-sm text-zinc-300">Опишите 2–3 правила мира.</div>
-        <textarea value={rules} onChange={(e) => setRules(e.target.value)} rows={4} placeholder="Например: магия запрещена в городах, ночью охотники, валюта — жетоны" className="w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600" />
-        <button onClick={() => onDone(rules || "Правила не заданы")} className="w-full rounded-xl border border-zinc-700 bg-zinc-900 px-3 py-3 text-sm hover:bg-zinc-800">Продолжить</button>
+        <button onClick={() => onDone(title || chosen?.title || "Без названия", mode, chosen?.id)} className="w-full rounded-xl border border-zinc-700 bg-zinc-900 px-3 py-3 text-sm hover:bg-zinc-800">Продолжить</button>
       </div>
     </div>
   );
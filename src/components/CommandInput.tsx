@@ -0,0 +1,60 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { suggestInput, type GameState } from "@/game";
+
+type Props = { state: GameState; value: string; onChange: (v: string) => void; onSubmit: () => void; placeholder: string };
+
+/** The play input with a slash-command popup: ↑/↓ pick, Tab or Enter on a picked line completes, Esc hides. */
+export function CommandInput({ state, value, onChange, onSubmit, placeholder }: Props) {
+  const [sel, setSel] = useState(-1);
+  const [hidden, setHidden] = useState(false);
+  const list = hidden ? [] : suggestInput(state, value);
+
+  function change(v: string) {
+    onChange(v);
+    setSel(-1);
+    setHidden(false);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (list.length && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
+      e.preventDefault();
+      setSel(i => (e.key === "ArrowDown" ? (i + 1) % list.length : (i <= 0 ? list.length : i) - 1));
+    } else if (list.length && (e.key === "Tab" || (e.key === "Enter" && sel >= 0))) {
+      e.preventDefault();
+      change(list[Math.max(0, sel)].value);
+    } else if (e.key === "Escape") {
+      setHidden(true);
+    } else if (e.key === "Enter") {
+      onSubmit();
+    }
+  }
+
+  return (
+    <div className="relative w-full">
+      {!!list.length && (
+        <div className="absolute bottom-full mb-1 w-full overflow-hidden rounded-xl border border-zinc-700 bg-zinc-950 text-sm shadow-lg">
+          {list.map((s, i) => (
+            <button
+              key={s.value}
+              onMouseDown={e => { e.preventDefault(); change(s.value); }}
+              className={`flex w-full justify-between gap-3 px-3 py-1.5 text-left ${i === sel ? "bg-zinc-800" : "hover:bg-zinc-900"}`}
+            >
+              <span>{s.label}</span>
+              {s.hint && <span className="truncate text-xs text-zinc-500">{s.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      <input
+        value={value}
+        onChange={e => change(e.target.value)}
+        onKeyDown={onKeyDown}
+        placeholder={placeholder}
+        className="w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+import {
+  CLASSES, DEFAULT_CUSTOM_WORLD, RACES, WORLD_LEVELS, WORLD_RULES, deleteWorldPreset, describeModifiers, listWorldPresets, loadCustomWorld, writeWorldPreset,
+  type CustomWorld, type WorldLevel, type WorldPreset, type WorldRule,
+} from "@/game";
+
+const STEPS = ["Заготовка", "Названия", "Расы и классы", "Уровень и правила"];
+const field = "w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-3 text-sm outline-none focus:border-zinc-600";
+const chip = (on: boolean) => `rounded-lg border px-2 py-1 text-xs ${on ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 text-zinc-400 hover:bg-zinc-900"}`;
+
+const toggle = <T,>(list: T[], x: T) => (list.includes(x) ? list.filter(y => y !== x) : [...list, x]);
+
+/** The custom universe builder: a saved preset or a new world, then names, races and classes, level and rules. */
+export function CustomSetup({ onDone }: { onDone: (rules: string, world: CustomWorld) => void }) {
+  const [step, setStep] = useState(0);
+  const [world, setWorld] = useState<CustomWorld>(DEFAULT_CUSTOM_WORLD);
+  const [notes, setNotes] = useState("");
+  const [keep, setKeep] = useState(true);
+  const [presets, setPresets] = useState<WorldPreset[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => { setPresets(listWorldPresets(localStorage)); }, []);
+
+  const set = (patch: Partial<CustomWorld>) => { setWorld(w => ({ ...w, ...patch })); setErrors([]); };
+
+  function pick(p?: WorldPreset) {
+    setWorld(p ? p.world : DEFAULT_CUSTOM_WORLD);
+    setNotes(p?.notes ?? "");
+    setStep(1);
+  }
+
+  function finish() {
+    const res = loadCustomWorld(world);
+    if (!res.ok) { setErrors(res.errors); return; }
+    if (keep) writeWorldPreset(localStorage, { world: res.world, notes: notes.trim(), savedAt: Date.now() });
+    onDone(notes.trim() || "Правила не заданы", res.world);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-lg font-semibold">Своя вселенная — {STEPS[step]} ({step + 1}/{STEPS.length})</div>
+      <div className="rounded-2xl border border-zinc-800 bg-zinc-950/40 p-4 space-y-3">
+        {step === 0 && (
+          <div className="grid gap-2">
+            <button onClick={() => pick()} className="rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">✨ Новый мир</button>
+            {presets.map(p => (
+              <div key={p.world.title} className="flex gap-2">
+                <button onClick={() => pick(p)} className="flex-1 rounded-xl border border-zinc-700 px-3 py-2 text-left text-sm hover:bg-zinc-900">
+                  🌍 {p.world.title} <span className="text-zinc-400">— {WORLD_LEVELS[p.world.level].name}, {p.world.currency}</span>
+                </button>
+                <button onClick={() => { deleteWorldPreset(localStorage, p.world.title); setPresets(listWorldPresets(localStorage)); }} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900">🗑</button>
+              </div>
+            ))}
+            {!presets.length && <div className="text-sm text-zinc-400">Сохранённых миров пока нет — соберите первый.</div>}
+          </div>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-2">
+            <input value={world.title} onChange={e => set({ title: e.target.value })} placeholder="Название мира, например: Пепельный архипелаг" className={field} />
+            <input value={world.currency} onChange={e => set({ currency: e.target.value })} placeholder="Валюта, например: ⚙ жетоны" className={field} />
+            <input value={world.hub} onChange={e => set({ hub: e.target.value })} placeholder="Безопасная точка, например: Маяк «Последний огонь»" className={field} />
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-3">
+            <div className="text-sm text-zinc-300">Кого можно играть ({world.races.length}/{RACES.length} рас, {world.classes.length}/{CLASSES.length} классов):</div>
+            <div className="flex flex-wrap gap-1">
+              {RACES.map(r => <button key={r.id} onClick={() => set({ races: toggle(world.races, r.id) })} className={chip(world.races.includes(r.id))}>{r.name}</button>)}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {CLASSES.map(c => <button key={c.id} onClick={() => set({ classes: toggle(world.classes, c.id) })} className={chip(world.classes.includes(c.id))}>{c.name}</button>)}
+            </div>
+          </div>
+        )}
+
+        {step === 3 && (
+          <div className="space-y-3">
+            <div className="grid gap-2 sm:grid-cols-2">
+              {(Object.keys(WORLD_LEVELS) as WorldLevel[]).map(l => (
+                <button key={l} onClick={() => set({ level: l })} className={`rounded-xl border px-3 py-2 text-left text-sm ${world.level === l ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>
+                  <div className="font-semibold">{WORLD_LEVELS[l].name}</div>
+                  <div className="text-xs text-zinc-400">{WORLD_LEVELS[l].desc}{WORLD_LEVELS[l].mods.length ? ` | ${describeModifiers(WORLD_LEVELS[l].mods)}` : ""}</div>
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {(Object.keys(WORLD_RULES) as WorldRule[]).map(r => (
+                <label key={r} className="flex items-start gap-2 text-sm">
+                  <input type="checkbox" checked={world.rules.includes(r)} onChange={() => set({ rules: toggle(world.rules, r) })} className="mt-1" />
+                  <span>{WORLD_RULES[r].name} <span className="text-zinc-400">— {WORLD_RULES[r].desc}</span></span>
+                </label>
+              ))}
+            </div>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} placeholder="Ещё правила для рассказчика своими словами (по желанию)" className={field} />
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={keep} onChange={e => setKeep(e.target.checked)} />
+              Сохранить мир как заготовку
+            </label>
+          </div>
+        )}
+
+        {errors.length > 0 && <div className="text-sm text-amber-400">⚠️ {errors.join("; ")}</div>}
+
+        {step > 0 && (
+          <div className="flex items-center justify-between gap-2">
+            <button onClick={() => setStep(s => s - 1)} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900">← Назад</button>
+            {step < STEPS.length - 1
+              ? <button onClick={() => setStep(s => s + 1)} className="rounded-xl border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900">Дальше →</button>
+              : <button onClick={finish} className="rounded-xl border border-zinc-700 bg-zinc-900 px-3 py-2 text-sm hover:bg-zinc-800">Продолжить</button>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+import { buryHero, clearGraveyard, graveEntry, listGraves, type GameState, type GraveEntry } from "@/game";
+
+/** Hall of fame of fallen hardcore heroes; a dead hero in `state` is buried on sight. */
+export function GraveyardPanel({ state }: { state: GameState }) {
+  const [graves, setGraves] = useState<GraveEntry[]>([]);
+
+  useEffect(() => {
+    const entry = graveEntry(state, Date.now());
+    setGraves(entry ? buryHero(localStorage, entry) : listGraves(localStorage));
+  }, [state]);
+
+  return (
+    <div className="mb-4 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">🪦 Кладбище героев — {graves.length}</div>
+        {!!graves.length && (
+          <button onClick={() => { clearGraveyard(localStorage); setGraves([]); }} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">Очистить</button>
+        )}
+      </div>
+
+      {!graves.length ? (
+        <div className="text-zinc-400">Здесь пока никто не лежит. Павшие в режиме «Хардкор» остаются тут навсегда.</div>
+      ) : (
+        <div className="grid gap-1">
+          {graves.map((g, i) => (
+            <div key={g.id} className="rounded-lg bg-zinc-950/40 px-2 py-1">
+              <span className="text-zinc-500">{i + 1}.</span> <span className="font-semibold">{g.name}</span> — {g.race}/{g.cls}, ур. {g.level}
+              <span className="block text-xs text-zinc-400">✝ день {g.day}, {g.location} — «{g.cause}» | {g.universe} | {g.difficulty}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+
+import { baseCurrency, capacity, carriedWeight, fmtDurability, fmtGear, isOverloaded, repairCost, repairDiscount, safeHub, usedSlots, type GameAction, type GameState } from "@/game";
+
+const btn = "rounded-lg border border-zinc-700 px-2 py-0.5 text-xs hover:bg-zinc-900";
+
+export function InventoryPanel({ state, dispatch }: { state: GameState; dispatch: (a: GameAction) => void }) {
+  const eq = state.equipped;
+  const cap = capacity(state);
+  const overloaded = isOverloaded(state);
+  const cost = state.wear === "ON" ? repairCost(state) : 0;
+  const canRepair = cost > 0 && !state.enemy && state.location === safeHub(state);
+
+  return (
+    <>
+      <div>
+        <div className="font-semibold">⚔️ Экип</div>
+        <div className="flex items-center justify-between gap-2">
+          <span>— Оружие: {eq.weapon1 ? `${eq.weapon1.rarity} ${eq.weapon1.name} (${eq.weapon1.dmgMin ?? "—"}–${eq.weapon1.dmgMax ?? "—"})${fmtDurability(state, eq.weapon1)}` : "—"}</span>
+          {eq.weapon1 && <button className={btn} onClick={() => dispatch({ type: "INVENTORY", op: "unequip", ref: "оружие" })}>Снять</button>}
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span>— Броня: {eq.armor ? `${eq.armor.rarity} ${eq.armor.name} (🧱${eq.armor.defense ?? 0})${fmtDurability(state, eq.armor)}` : "—"}</span>
+          {eq.armor && <button className={btn} onClick={() => dispatch({ type: "INVENTORY", op: "unequip", ref: "броня" })}>Снять</button>}
+        </div>
+        {eq.accessories.map(a => (
+          <div key={a.id} className="flex items-center justify-between gap-2">
+            <span>— {a.rarity} {a.name}</span>
+            <button className={btn} onClick={() => dispatch({ type: "INVENTORY", op: "unequip", ref: a.name })}>Снять</button>
+          </div>
+        ))}
+        {canRepair && (
+          <button className={`${btn} mt-1`} onClick={() => dispatch({ type: "REPAIR", target: "all" })}>
+            🔧 Ремонт: {cost} {baseCurrency(state)}{repairDiscount(state) ? ` (−${repairDiscount(state)}%)` : ""}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <div className="font-semibold">🎒 Рюкзак</div>
+        <div className={overloaded ? "text-amber-400" : undefined}>
+          слоты {usedSlots(state)}/{cap.slots} | вес {carriedWeight(state).toFixed(1)}/{cap.weight} кг{overloaded ? " | ⚖️ перегруз" : ""}
+        </div>
+        {state.backpack.map((it, i) => (
+          <div key={`${it.id}-${i}`} className="mt-1 flex items-center justify-between gap-2">
+            <span>
+              {i + 1}. {it.rarity} {it.name}{it.qty !== undefined ? ` x${it.qty}` : ""}
+              {fmtGear(it) && <span className="block text-xs text-zinc-400">{fmtGear(it)}</span>}
+            </span>
+            <span className="flex shrink-0 gap-1">
+              {(it.type === "weapon" || it.type === "armor" || it.type === "accessory") && <button className={btn} onClick={() => dispatch({ type: "INVENTORY", op: "equip", ref: String(i + 1) })}>Надеть</button>}
+              {it.type === "consumable" && it.use && <button className={btn} onClick={() => dispatch({ type: "INVENTORY", op: "use", ref: String(i + 1) })}>Исп.</button>}
+              {it.type !== "quest" && <button className={btn} onClick={() => dispatch({ type: "INVENTORY", op: "drop", ref: String(i + 1) })}>🗑</button>}
+            </span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
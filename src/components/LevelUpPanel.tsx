@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { STAT_ICONS, abilityById, learnableAbilities, maxHp, maxMp, type AbilityDef, type GameAction, type GameState, type Stats } from "@/game";
+
+const STAT_NAMES: Record<keyof Stats, string> = { str: "Сила", dex: "Ловкость", end: "Выносливость", int: "Интеллект", cha: "Харизма", luck: "Удача" };
+
+export function LevelUpPanel({ state, dispatch }: { state: GameState; dispatch: (a: GameAction) => void }) {
+  const [alloc, setAlloc] = useState<Partial<Stats>>({});
+  const [picked, setPicked] = useState<string[]>([]);
+
+  const spent = Object.values(alloc).reduce((a, v) => a + (v ?? 0), 0);
+  const left = state.statPoints - spent;
+  const preview = { ...state.stats };
+  for (const [k, v] of Object.entries(alloc) as [keyof Stats, number][]) preview[k] += v;
+  // picked ones stay listed so they can be unpicked; picking a root opens its branch
+  const options = [...picked.map(abilityById).filter((a): a is AbilityDef => !!a), ...learnableAbilities(state, [...state.abilities, ...picked])];
+
+  const bump = (k: keyof Stats, d: number) => setAlloc(a => ({ ...a, [k]: Math.max(0, (a[k] ?? 0) + d) }));
+  const toggle = (id: string) => setPicked(p => (p.includes(id) ? p.filter(x => x !== id && abilityById(x)?.requires !== id) : p.length < state.abilityPoints ? [...p, id] : p));
+
+  return (
+    <div className="space-y-4">
+      <div className="text-lg font-semibold">🏅 Уровень {state.level}</div>
+      <div className="text-sm text-zinc-300">Очки характеристик: {left} из {state.statPoints} · ❤️ {maxHp(preview, state.level)} · 🔷 {maxMp(preview, state.level)}</div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {(Object.keys(STAT_NAMES) as (keyof Stats)[]).map(k => (
+          <div key={k} className="flex items-center justify-between rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm">
+            <div>{STAT_ICONS[k]} {STAT_NAMES[k]}: {preview[k]}{alloc[k] ? <span className="text-emerald-400"> (+{alloc[k]})</span> : null}</div>
+            <div className="flex gap-1">
+              <button onClick={() => bump(k, -1)} disabled={!alloc[k]} className="rounded-lg border border-zinc-700 px-2 py-1 hover:bg-zinc-900 disabled:opacity-40">−</button>
+              <button onClick={() => bump(k, 1)} disabled={left <= 0} className="rounded-lg border border-zinc-700 px-2 py-1 hover:bg-zinc-900 disabled:opacity-40">+</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {state.abilityPoints > 0 && (
+        <div>
+          <div className="mb-2 text-sm text-zinc-300">Новые умения: можно изучить {state.abilityPoints - picked.length}</div>
+          {!options.length ? (
+            <div className="text-sm text-zinc-400">Для вашего уровня новых умений нет — очко сохранится.</div>
+          ) : (
+            <div className="grid gap-2">
+              {options.map(a => (
+                <button key={a.id} onClick={() => toggle(a.id)} className={`rounded-xl border px-3 py-2 text-left text-sm hover:bg-zinc-900 ${picked.includes(a.id) ? "border-emerald-600" : "border-zinc-700"}`}>
+                  {a.icon} {a.name} — {a.mp} MP · {a.desc}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => dispatch({ type: "LEVEL_UP", alloc, abilities: picked })}
+        disabled={left !== 0}
+        className="rounded-xl border border-zinc-700 bg-zinc-900 px-4 py-2 text-sm hover:bg-zinc-800 disabled:opacity-40"
+      >
+        Готово
+      </button>
+    </div>
+  );
+}
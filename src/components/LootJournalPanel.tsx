@@ -0,0 +1,60 @@
+"use client";
+
+import React, { useState } from "react";
+
+const PAGE_SIZE = 20;
+
+type Filter = "all" | "+" | "−";
+
+export function LootJournalPanel({ journal }: { journal: string[] }) {
+  const [filter, setFilter] = useState<Filter>("all");
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState(0);
+
+  const q = query.trim().toLowerCase();
+  // entries look like "[День 2, 14:00] + 🟢 Меч пламени — трофей: …"
+  const rows = journal
+    .map((text, i) => ({ text, i }))
+    .filter(r => filter === "all" || r.text.includes(`] ${filter} `))
+    .filter(r => !q || r.text.toLowerCase().includes(q))
+    .reverse();
+  const pages = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const cur = Math.min(page, pages - 1);
+
+  const tab = (f: Filter, label: string) => (
+    <button onClick={() => { setFilter(f); setPage(0); }} className={`rounded-xl border px-3 py-1 ${filter === f ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>{label}</button>
+  );
+
+  return (
+    <div className="mb-4 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">📒 Журнал добычи — {journal.length} записей</div>
+        <div className="flex gap-1">
+          {tab("all", "Все")}
+          {tab("+", "Получено")}
+          {tab("−", "Потеряно")}
+        </div>
+      </div>
+
+      <input value={query} onChange={(e) => { setQuery(e.target.value); setPage(0); }} placeholder="Поиск по предмету или источнику…" className="mb-3 w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 outline-none focus:border-zinc-600" />
+
+      {!rows.length ? (
+        <div className="text-zinc-400">Записей нет.</div>
+      ) : (
+        <div className="grid gap-1">
+          {rows.slice(cur * PAGE_SIZE, (cur + 1) * PAGE_SIZE).map(r => (
+            <div key={r.i} className={`rounded-lg px-2 py-1 ${r.text.includes("] − ") ? "bg-red-950/20 text-red-200" : "bg-zinc-950/40"}`}>{r.text}</div>
+          ))}
+        </div>
+      )}
+
+      {pages > 1 && (
+        <div className="mt-3 flex items-center gap-2">
+          <button onClick={() => setPage(Math.max(0, cur - 1))} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">◀</button>
+          <div className="text-zinc-400">Стр. {cur + 1}/{pages}</div>
+          <button onClick={() => setPage(Math.min(pages - 1, cur + 1))} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">▶</button>
+        </div>
+      )}
+    </div>
+  );
+}
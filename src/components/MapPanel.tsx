@@ -0,0 +1,59 @@
+"use client";
+
+import React from "react";
+
+import { ambushChance, routesFrom, travelHours, worldMapFor, type GameAction, type GameState } from "@/game";
+
+export function MapPanel({ state, dispatch }: { state: GameState; dispatch: (a: GameAction) => void }) {
+  const map = worldMapFor(state);
+  const at = (name: string) => map.locations.find(l => l.name === name);
+  const near = routesFrom(state);
+  const canTravel = state.phase === "PLAY" && !state.enemy;
+
+  return (
+    <div className="mb-4 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">🗺️ Карта — {state.location}</div>
+        <div className="text-zinc-400">🕒 День {state.day}, {String(state.hour).padStart(2, "0")}:00 | 🌦️ {state.weather}</div>
+      </div>
+
+      <div className="relative h-72 rounded-xl border border-zinc-800 bg-zinc-950/60">
+        <svg className="absolute inset-0 h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+          {map.routes.map(r => {
+            const a = at(r.from);
+            const b = at(r.to);
+            if (!a || !b) return null;
+            const active = r.from === state.location || r.to === state.location;
+            return <line key={`${r.from}-${r.to}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={active ? "#10b981" : "#3f3f46"} strokeWidth={active ? 0.8 : 0.5} strokeDasharray={active ? undefined : "2 1.5"} vectorEffect="non-scaling-stroke" />;
+          })}
+        </svg>
+        {map.routes.map(r => {
+          const a = at(r.from);
+          const b = at(r.to);
+          if (!a || !b) return null;
+          return <div key={`h-${r.from}-${r.to}`} className="absolute -translate-x-1/2 -translate-y-1/2 text-[10px] text-zinc-500" style={{ left: `${(a.x + b.x) / 2}%`, top: `${(a.y + b.y) / 2}%` }}>{r.hours} ч</div>;
+        })}
+        {map.locations.map(l => {
+          const here = l.name === state.location;
+          const route = near.find(r => r.to === l.name);
+          const hours = route ? travelHours(state, route.hours) : 0;
+          return (
+            <button
+              key={l.name}
+              title={l.desc}
+              disabled={!route || !canTravel}
+              onClick={() => dispatch({ type: "TRAVEL", to: l.name })}
+              className={`absolute max-w-[9rem] -translate-x-1/2 -translate-y-1/2 rounded-lg border px-2 py-1 text-xs ${here ? "border-emerald-500 bg-emerald-950/60" : route ? "border-zinc-600 bg-zinc-900 hover:bg-zinc-800" : "border-zinc-800 bg-zinc-950 text-zinc-500"}`}
+              style={{ left: `${l.x}%`, top: `${l.y}%` }}
+            >
+              {here ? "📍 " : ""}{l.name}
+              {route && <span className="block text-[10px] text-zinc-400">{hours} ч · засада ~{ambushChance(state, l, hours)}%</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 text-zinc-300">🧭 {state.journalPath}</div>
+    </div>
+  );
+}
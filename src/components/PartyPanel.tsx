@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { BACKGROUNDS, MAX_PARTY, PARTY_MODE_LABELS, classesFor, memberView, partyMember, racesFor, voteLabel, type GameAction, type GameState, type PartyMode } from "@/game";
+import type { JoinHero } from "@/lib/gameClient";
+
+type Props = {
+  state: GameState;
+  /** This tab's party member, "" while it only watches. */
+  member: string;
+  gameId: string;
+  online: boolean;
+  dispatch: (a: GameAction) => void;
+  onJoin: (hero: JoinHero) => void;
+};
+
+const MODES: PartyMode[] = ["leader", "vote"];
+const SEXES = ["Мужской", "Женский", "Не важно"];
+
+/** Members, leader and votes; the invite link for friends and the form to join from one. */
+export function PartyPanel({ state, member, gameId, online, dispatch, onJoin }: Props) {
+  const p = state.party;
+  const me = partyMember(state, member);
+  const seated = p ? !!me : !!member;
+  const leading = !p || p.leader === member;
+  const link = online && gameId && typeof window !== "undefined" ? `${window.location.origin}/?game=${gameId}` : "";
+
+  return (
+    <div className="mb-4 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">👥 Отряд{p ? ` — ${PARTY_MODE_LABELS[p.mode]}` : ""}</div>
+        {p && leading && (
+          <div className="flex gap-1">
+            {MODES.map(m => (
+              <button key={m} onClick={() => dispatch({ type: "PARTY", op: "mode", mode: m })} className={`rounded-lg border px-2 py-0.5 text-xs ${p.mode === m ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>{PARTY_MODE_LABELS[m]}</button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!p && <div className="text-zinc-400">Пока вы путешествуете в одиночку.</div>}
+      {p && (
+        <div className="space-y-1">
+          {p.members.map(m => {
+            const v = memberView(state, m.id);
+            return (
+              <div key={m.id} className={`flex flex-wrap items-center justify-between gap-2 rounded-xl border px-3 py-1.5 ${m.id === member ? "border-emerald-800" : "border-zinc-800"}`}>
+                <div>
+                  {m.id === p.leader ? "👑 " : ""}{m.id === p.turn ? "⏳ " : ""}{m.name}{m.id === member ? " (вы)" : ""}
+                  <span className="text-zinc-400"> — {v.race?.name}/{v.cls?.name}, ур. {v.level} | ❤️ {v.hpCur}/{v.hpMax} 🔷 {v.mpCur}/{v.mpMax}</span>
+                </div>
+                {leading && m.id !== p.leader && seated && (
+                  <button onClick={() => dispatch({ type: "PARTY", op: "leader", member: m.id })} className="text-xs text-zinc-400 underline hover:text-zinc-200">сделать лидером</button>
+                )}
+              </div>
+            );
+          })}
+          {state.enemy && p.turn && <div className="text-zinc-300">⏳ Ходит {p.turn === member ? "ваш герой" : partyMember(state, p.turn)?.name}.</div>}
+          {!!p.votes.length && <div className="text-zinc-300">🗳 Голоса: {p.votes.map(v => `${partyMember(state, v.member)?.name} — ${voteLabel(v)}`).join(", ")}</div>}
+          {me && p.members.length > 1 && !state.enemy && (
+            <button onClick={() => dispatch({ type: "PARTY", op: "leave" })} className="text-xs text-zinc-400 underline hover:text-zinc-200">покинуть отряд</button>
+          )}
+        </div>
+      )}
+
+      {link && seated && (
+        <div className="mt-3">
+          <div className="mb-1 text-zinc-400">Приглашение (до {MAX_PARTY} героев, вступить можно вне боя):</div>
+          <div className="flex gap-2">
+            <input readOnly value={link} onFocus={e => e.target.select()} className="w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-xs outline-none" />
+            <button onClick={() => void navigator.clipboard?.writeText(link)} className="rounded-xl border border-zinc-700 px-3 py-2 text-xs hover:bg-zinc-900">Копировать</button>
+          </div>
+        </div>
+      )}
+      {!online && <div className="mt-3 text-zinc-400">Отряд собирается только на сервере: сейчас он недоступен.</div>}
+      {online && !seated && <JoinForm state={state} onJoin={onJoin} />}
+    </div>
+  );
+}
+
+function JoinForm({ state, onJoin }: { state: GameState; onJoin: (hero: JoinHero) => void }) {
+  const races = racesFor(state);
+  const classes = classesFor(state);
+  const [hero, setHero] = useState<JoinHero>({ sex: SEXES[0], name: "", race: races[0].id, cls: classes[0].id, bg: BACKGROUNDS[0].id });
+  const set = (patch: Partial<JoinHero>) => setHero(h => ({ ...h, ...patch }));
+  const ready = state.phase === "PLAY" && !state.enemy;
+  const select = "w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm outline-none focus:border-zinc-600";
+
+  return (
+    <div className="mt-3 space-y-2 rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+      <div className="font-semibold">Вы наблюдаете. Присоединиться к отряду:</div>
+      <input value={hero.name} onChange={e => set({ name: e.target.value })} placeholder="Имя героя" className={select} />
+      <div className="flex flex-wrap gap-1">
+        {SEXES.map(v => (
+          <button key={v} onClick={() => set({ sex: v })} className={`rounded-lg border px-2 py-0.5 text-xs ${hero.sex === v ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>{v}</button>
+        ))}
+      </div>
+      <div className="grid gap-2 sm:grid-cols-3">
+        <select value={hero.race} onChange={e => set({ race: e.target.value })} className={select}>{races.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}</select>
+        <select value={hero.cls} onChange={e => set({ cls: e.target.value })} className={select}>{classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}</select>
+        <select value={hero.bg} onChange={e => set({ bg: e.target.value })} className={select}>{BACKGROUNDS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}</select>
+      </div>
+      <button onClick={() => onJoin(hero)} disabled={!ready} className="w-full rounded-xl border border-zinc-700 bg-zinc-900 px-3 py-2 text-sm hover:bg-zinc-800 disabled:opacity-40">
+        {ready ? "Присоединиться" : "Подождите: вступить можно во время игры и не в бою"}
+      </button>
+    </div>
+  );
+}
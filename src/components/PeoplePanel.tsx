@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+
+import { FACTIONS, HOSTILE, currentTalk, factionStanding, fmtAttitude, npcsHere, standingTier, type GameAction, type GameState } from "@/game";
+
+const btn = "rounded-lg border border-zinc-700 px-2 py-0.5 text-xs hover:bg-zinc-900";
+
+/** Faction standing, and the people at the hub to talk to. */
+export function PeoplePanel({ state, dispatch }: { state: GameState; dispatch: (a: GameAction) => void }) {
+  const talk = currentTalk(state);
+  const here = state.phase === "PLAY" ? npcsHere(state) : [];
+
+  return (
+    <div>
+      <div className="font-semibold">🤝 Репутация</div>
+      <div className="flex flex-wrap gap-x-3">
+        {FACTIONS.map(f => {
+          const v = factionStanding(state, f.id);
+          const tier = standingTier(v);
+          return <span key={f.id} title={f.desc} className={v <= HOSTILE ? "text-red-300" : tier.price > 0 ? "text-emerald-400" : ""}>{f.icon} {f.name}: {tier.label}</span>;
+        })}
+      </div>
+      {talk ? (
+        <div className="mt-1 flex items-center justify-between gap-2">
+          <span>🗣️ {talk.npc.name} ({fmtAttitude(state, talk.npc)})</span>
+          <button className={btn} onClick={() => dispatch({ type: "TALK", op: "close" })}>Попрощаться</button>
+        </div>
+      ) : (
+        !!here.length && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {here.map(n => (
+              <button key={n.id} className={btn} title={n.desc} onClick={() => dispatch({ type: "TALK", op: "open", ref: n.id })}>🗣️ {n.name} · {fmtAttitude(state, n)}</button>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
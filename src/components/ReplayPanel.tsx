@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+
+import { replaySteps, serialize, type Recording } from "@/game";
+
+const fmtValue = (v: unknown) => {
+  if (v === undefined) return "—";
+  const txt = typeof v === "string" ? v : JSON.stringify(v);
+  return txt.length > 140 ? `${txt.slice(0, 140)}…` : txt;
+};
+
+export function ReplayPanel({ recording }: { recording: Recording }) {
+  const steps = useMemo(() => replaySteps(recording.session), [recording.session]);
+  const [idx, setIdx] = useState(0);
+
+  const cur = steps[Math.min(idx, steps.length - 1)];
+  const last = steps[steps.length - 1];
+  const identical = serialize(last?.state ?? recording.session.initial) === serialize(recording.state);
+  // the server keeps an online game's seed to itself, so the rolls here are not the real ones
+  const sealed = !!recording.session.initial.rng.sealed;
+
+  return (
+    <div className="mb-4 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">Реплей с начала — {sealed ? "seed скрыт сервером" : `seed ${recording.session.initial.rng.seed}`}</div>
+        {sealed ? (
+          <div className="text-zinc-400">🎲 Броски в реплее свои: настоящие знает только сервер</div>
+        ) : (
+          <div className={identical ? "text-emerald-400" : "text-red-400"}>
+            {identical ? "✅ Реплей совпадает с текущим состоянием байт в байт" : "⚠️ Реплей расходится с текущим состоянием"}
+          </div>
+        )}
+      </div>
+
+      {!cur ? (
+        <div className="text-zinc-400">Действий пока нет.</div>
+      ) : (
+        <>
+          <div className="mb-3 flex items-center gap-2">
+            <button onClick={() => setIdx(0)} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">⏮</button>
+            <button onClick={() => setIdx(i => Math.max(0, i - 1))} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">◀</button>
+            <div className="text-zinc-400">Шаг {cur.index + 1}/{steps.length}</div>
+            <button onClick={() => setIdx(i => Math.min(steps.length - 1, i + 1))} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">▶</button>
+            <button onClick={() => setIdx(steps.length - 1)} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">⏭</button>
+          </div>
+
+          <pre className="mb-3 whitespace-pre-wrap rounded-xl bg-zinc-950/40 p-2 text-xs">{JSON.stringify(cur.action)}</pre>
+
+          <div className="max-h-64 overflow-auto rounded-xl border border-zinc-800">
+            {cur.changes.map(c => (
+              <div key={c.path} className="grid grid-cols-[180px_1fr] gap-2 border-b border-zinc-800 px-2 py-1 text-xs">
+                <div className="font-mono text-zinc-400">{c.path}</div>
+                <div className="whitespace-pre-wrap">
+                  <span className="text-red-300">{fmtValue(c.before)}</span> → <span className="text-emerald-300">{fmtValue(c.after)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+
+import {
+  deleteSave, exportSave, listSaves, parseSave, permadeathBlocker, readSave, saveMeta, startRecording, writeSave,
+  type ImportResult, type Recording, type SaveMeta,
+} from "@/game";
+
+const fmtDate = (ts: number) => (ts ? new Date(ts).toLocaleString("ru-RU") : "—");
+
+export function SavePanel({ recording, onLoad }: { recording: Recording; onLoad: (rec: Recording) => void }) {
+  const [slots, setSlots] = useState<SaveMeta[]>([]);
+  const [label, setLabel] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => { setSlots(listSaves(localStorage)); }, []);
+
+  function refresh(msg: string) {
+    setSlots(listSaves(localStorage));
+    setMessage(msg);
+  }
+
+  function save(id?: string) {
+    const meta = saveMeta(id ?? `slot_${Date.now().toString(36)}`, id ? slots.find(m => m.id === id)?.label ?? label : label, recording.state, Date.now());
+    writeSave(localStorage, meta, recording);
+    setLabel("");
+    refresh(`💾 Сохранено: ${meta.label}`);
+  }
+
+  function load(res: ImportResult, what: string) {
+    if (!res.ok) {
+      setMessage(`⚠️ ${what}: ${res.errors.join("; ")}`);
+      return;
+    }
+    const { state, session } = res.file;
+    const dead = permadeathBlocker(localStorage, state);
+    if (dead) {
+      setMessage(`⚠️ ${what}: ${dead}`);
+      return;
+    }
+    onLoad(session ? { session, state } : startRecording(state));
+    setMessage(`📂 ${what}: ${res.file.meta.label}${res.migrated ? " (обновлено до новой версии)" : ""}`);
+  }
+
+  function download(meta: SaveMeta) {
+    const res = readSave(localStorage, meta.id);
+    if (!res.ok) return setMessage(`⚠️ ${res.errors.join("; ")}`);
+    const blob = new Blob([exportSave(meta, { session: res.file.session ?? startRecording(res.file.state).session, state: res.file.state })], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${meta.label.replace(/[^\p{L}\p{N}_-]+/gu, "_")}-day${meta.day}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  function importFile(file: File) {
+    const reader = new FileReader();
+    reader.onload = () => load(parseSave(String(reader.result)), "Импорт");
+    reader.readAsText(file);
+  }
+
+  return (
+    <div className="mb-4 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+      <div className="mb-3 font-semibold">Сохранения</div>
+
+      <div className="mb-3 flex flex-wrap gap-2">
+        <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Название слота…" className="min-w-0 flex-1 rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 outline-none focus:border-zinc-600" />
+        <button onClick={() => save()} className="rounded-xl border border-zinc-700 px-3 py-2 hover:bg-zinc-900">💾 Новый слот</button>
+        <button onClick={() => fileRef.current?.click()} className="rounded-xl border border-zinc-700 px-3 py-2 hover:bg-zinc-900">📥 Импорт JSON</button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ""; }} />
+      </div>
+
+      {message && <div className="mb-3 text-zinc-300">{message}</div>}
+
+      {!slots.length ? (
+        <div className="text-zinc-400">Слотов пока нет.</div>
+      ) : (
+        <div className="grid gap-2">
+          {slots.map(m => (
+            <div key={m.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2">
+              <div>
+                <div className="font-semibold">{m.label}</div>
+                <div className="text-xs text-zinc-400">{m.name} · LV {m.level} · {m.universe} · День {m.day} · {fmtDate(m.savedAt)}</div>
+              </div>
+              <div className="flex gap-1">
+                <button onClick={() => load(readSave(localStorage, m.id), "Загружено")} className="rounded-lg border border-zinc-700 px-2 py-1 hover:bg-zinc-900">Загрузить</button>
+                <button onClick={() => save(m.id)} className="rounded-lg border border-zinc-700 px-2 py-1 hover:bg-zinc-900">Перезаписать</button>
+                <button onClick={() => download(m)} className="rounded-lg border border-zinc-700 px-2 py-1 hover:bg-zinc-900">📤</button>
+                <button onClick={() => { deleteSave(localStorage, m.id); refresh(`🗑 Удалено: ${m.label}`); }} className="rounded-lg border border-zinc-700 px-2 py-1 hover:bg-zinc-900">🗑</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
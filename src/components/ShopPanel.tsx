@@ -0,0 +1,70 @@
+"use client";
+
+import React from "react";
+
+import { baseCurrency, buyPrice, fmtGear, haggleChance, merchantsFor, sellPrice, tradeDiscount, type GameAction, type GameState } from "@/game";
+
+const btn = "rounded-lg border border-zinc-700 px-2 py-0.5 text-xs hover:bg-zinc-900 disabled:opacity-40";
+
+export function ShopPanel({ state, dispatch }: { state: GameState; dispatch: (a: GameAction) => void }) {
+  const merchants = merchantsFor(state.universe);
+  const m = merchants.find(x => x.id === state.trade);
+  if (!m) return null;
+  const shop = state.shops[m.id];
+  const cur = baseCurrency(state);
+  const pct = Math.round(tradeDiscount(state, m.id) * 100);
+
+  return (
+    <div className="mb-3 rounded-2xl border border-amber-900/60 bg-zinc-950/40 p-4 text-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {merchants.map(x => (
+            <button key={x.id} onClick={() => dispatch({ type: "TRADE", op: "open", ref: x.id })} className={`rounded-xl border px-3 py-1 ${x.id === m.id ? "border-emerald-500 bg-emerald-950/30" : "border-zinc-700 hover:bg-zinc-900"}`}>🛒 {x.name}</button>
+          ))}
+        </div>
+        <button onClick={() => dispatch({ type: "TRADE", op: "close" })} className="rounded-xl border border-zinc-700 px-3 py-1 hover:bg-zinc-900">Уйти</button>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-3 text-zinc-300">
+        <span>💰 {state.money} {cur}</span>
+        {!!pct && <span className={pct > 0 ? "text-emerald-400" : "text-red-300"}>цены {pct > 0 ? "−" : "+"}{Math.abs(pct)}%</span>}
+        {shop?.haggle === undefined ? (
+          <button className={btn} onClick={() => dispatch({ type: "TRADE", op: "haggle" })}>🤝 Торговаться (~{haggleChance(state).chance}%)</button>
+        ) : (
+          <span className="text-xs text-zinc-500">торг сегодня уже был</span>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <div className="mb-1 font-semibold">Товары</div>
+          {!shop?.stock.length && <div className="text-zinc-400">Прилавок пуст.</div>}
+          {shop?.stock.map((it, i) => (
+            <div key={`${it.id}-${i}`} className="mt-1 flex items-center justify-between gap-2">
+              <span>
+                {it.rarity} {it.name}{it.qty !== undefined ? ` x${it.qty}` : ""}
+                {fmtGear(it) && <span className="block text-xs text-zinc-400">{fmtGear(it)}</span>}
+              </span>
+              <button className={btn} disabled={state.money < buyPrice(state, m.id, it)} onClick={() => dispatch({ type: "TRADE", op: "buy", ref: String(i + 1) })}>
+                {buyPrice(state, m.id, it)}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="mb-1 font-semibold">Продать</div>
+          {!state.backpack.length && <div className="text-zinc-400">Рюкзак пуст.</div>}
+          {state.backpack.map((it, i) => (
+            <div key={`${it.id}-${i}`} className="mt-1 flex items-center justify-between gap-2">
+              <span>{it.rarity} {it.name}{it.qty !== undefined ? ` x${it.qty}` : ""}</span>
+              {it.type !== "quest" && (
+                <button className={btn} onClick={() => dispatch({ type: "TRADE", op: "sell", ref: String(i + 1) })}>+{sellPrice(state, m.id, it)}</button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import type { DamageIcon, EffectIcon, GameState, Stats } from "./types";
+
+export type AbilityDef = {
+  id: string;
+  cls: string;
+  name: string;
+  icon: string;
+  /** Hero level needed to learn it. */
+  level: number;
+  mp: number;
+  /** Ability that must be known first — the branch of the class tree. */
+  requires?: string;
+  desc: string;
+  /** Weapon strike with an accuracy bonus and a damage multiplier. */
+  strike?: { hit: number; mult: number };
+  /** Spell damage; every point of `stat` above 3 adds 2. */
+  spell?: { min: number; max: number; icons: DamageIcon[]; stat: keyof Stats };
+  /** Effect put on the enemy (after a hit, if the ability attacks). */
+  foe?: EffectIcon;
+  /** Effect put on the hero. */
+  self?: EffectIcon;
+  heal?: number;
+};
+
+export const ABILITIES: AbilityDef[] = [
+  { id: "warrior_smash", cls: "c1", name: "Мощный удар", icon: "🔨", level: 1, mp: 3, desc: "Удар оружием ×1.5", strike: { hit: 0, mult: 1.5 } },
+  { id: "warrior_cry", cls: "c1", name: "Боевой клич", icon: "📣", level: 3, mp: 4, requires: "warrior_smash", desc: "✨ Благословение на себя", self: "✨" },
+
+  { id: "rogue_backstab", cls: "c2", name: "Удар в спину", icon: "🗡️", level: 1, mp: 4, desc: "Крит ×2, точность +10", strike: { hit: 10, mult: 2 } },
+  { id: "rogue_poison", cls: "c2", name: "Отравленный клинок", icon: "☠️", level: 3, mp: 4, requires: "rogue_backstab", desc: "Удар ×1.2 и ☠️ яд", strike: { hit: 0, mult: 1.2 }, foe: "☠️" },
+  { id: "rogue_execute", cls: "c2", name: "Смертельный выпад", icon: "💀", level: 5, mp: 7, requires: "rogue_backstab", desc: "Крит ×3, точность −10", strike: { hit: -10, mult: 3 } },
+
+  { id: "mage_firebolt", cls: "c3", name: "Огненная стрела", icon: "🔥", level: 1, mp: 4, desc: "🔥 6–10 + Инт", spell: { min: 6, max: 10, icons: ["🔥"], stat: "int" } },
+  { id: "mage_frost", cls: "c3", name: "Ледяные оковы", icon: "❄️", level: 3, mp: 5, requires: "mage_firebolt", desc: "❄️ 3–6 и заморозка", spell: { min: 3, max: 6, icons: ["❄️"], stat: "int" }, foe: "❄️" },
+  { id: "mage_chain", cls: "c3", name: "Цепная молния", icon: "⚡", level: 5, mp: 8, requires: "mage_firebolt", desc: "⚡ 10–16 + Инт и шок", spell: { min: 10, max: 16, icons: ["⚡"], stat: "int" }, foe: "⚡" },
+
+  { id: "paladin_shield", cls: "c4", name: "Щит веры", icon: "🛡️", level: 1, mp: 4, desc: "🛡️ щит на себя", self: "🛡️" },
+  { id: "paladin_smite", cls: "c4", name: "Кара света", icon: "☀️", level: 3, mp: 5, requires: "paladin_shield", desc: "☀️ 5–9 + Хар", spell: { min: 5, max: 9, icons: ["☀️"], stat: "cha" } },
+  { id: "paladin_bulwark", cls: "c4", name: "Святой оплот", icon: "⛪", level: 5, mp: 7, requires: "paladin_shield", desc: "🛡️ щит и +8 HP", self: "🛡️", heal: 8 },
+
+  { id: "hunter_aim", cls: "c5", name: "Прицельный выстрел", icon: "🎯", level: 1, mp: 3, desc: "Удар ×1.3, точность +20", strike: { hit: 20, mult: 1.3 } },
+  { id: "hunter_mark", cls: "c5", name: "Метка добычи", icon: "👁️", level: 3, mp: 3, requires: "hunter_aim", desc: "👁️ метка на враге", foe: "👁️" },
+
+  { id: "berserk_rage", cls: "c6", name: "Ярость", icon: "😡", level: 1, mp: 3, desc: "Удар ×1.8, точность −10", strike: { hit: -10, mult: 1.8 } },
+  { id: "berserk_whirl", cls: "c6", name: "Кровавый вихрь", icon: "🌀", level: 3, mp: 5, requires: "berserk_rage", desc: "Удар ×1.3 и 🩸 кровотечение", strike: { hit: 0, mult: 1.3 }, foe: "🩸" },
+
+  { id: "alch_acid", cls: "c7", name: "Кислотная склянка", icon: "🧪", level: 1, mp: 4, desc: "🧪 4–8 + Инт и яд", spell: { min: 4, max: 8, icons: ["🧪"], stat: "int" }, foe: "☠️" },
+  { id: "alch_elixir", cls: "c7", name: "Эликсир", icon: "⚗️", level: 3, mp: 5, requires: "alch_acid", desc: "+10 HP и 💚 регенерация", heal: 10, self: "💚" },
+
+  { id: "inq_brand", cls: "c8", name: "Клеймо", icon: "👁️", level: 1, mp: 3, desc: "👁️ метка на враге", foe: "👁️" },
+  { id: "inq_banish", cls: "c8", name: "Изгнание", icon: "☀️", level: 3, mp: 5, requires: "inq_brand", desc: "☀️ 6–10 + Хар", spell: { min: 6, max: 10, icons: ["☀️"], stat: "cha" } },
+
+  { id: "tech_grenade", cls: "c9", name: "Шоковая граната", icon: "⚡", level: 1, mp: 4, desc: "⚡ 4–8 + Инт и шок", spell: { min: 4, max: 8, icons: ["⚡"], stat: "int" }, foe: "⚡" },
+  { id: "tech_field", cls: "c9", name: "Силовое поле", icon: "🛡️", level: 3, mp: 5, requires: "tech_grenade", desc: "🛡️ щит на себя", self: "🛡️" },
+
+  { id: "duel_feint", cls: "c10", name: "Финт", icon: "🤺", level: 1, mp: 2, desc: "Удар ×1.1, точность +25", strike: { hit: 25, mult: 1.1 } },
+  { id: "duel_parry", cls: "c10", name: "Парирование", icon: "🛡️", level: 3, mp: 4, requires: "duel_feint", desc: "🛡️ щит на себя", self: "🛡️" },
+
+  { id: "shaman_fire", cls: "c11", name: "Дух огня", icon: "🔥", level: 1, mp: 4, desc: "🔥 5–9 + Инт", spell: { min: 5, max: 9, icons: ["🔥"], stat: "int" } },
+  { id: "shaman_heal", cls: "c11", name: "Целительный дух", icon: "💚", level: 3, mp: 5, requires: "shaman_fire", desc: "+6 HP и 💚 регенерация", heal: 6, self: "💚" },
+
+  { id: "necro_bolt", cls: "c12", name: "Тёмная стрела", icon: "🌑", level: 1, mp: 4, desc: "🌑 5–9 + Инт", spell: { min: 5, max: 9, icons: ["🌑"], stat: "int" } },
+  { id: "necro_drain", cls: "c12", name: "Иссушение", icon: "🕳️", level: 3, mp: 5, requires: "necro_bolt", desc: "🌑 3–6, истощение и +4 HP", spell: { min: 3, max: 6, icons: ["🌑"], stat: "int" }, foe: "🕳️", heal: 4 },
+
+  { id: "monk_flurry", cls: "c13", name: "Серия ударов", icon: "👊", level: 1, mp: 3, desc: "Удар ×1.4, точность +10", strike: { hit: 10, mult: 1.4 } },
+  { id: "monk_sweep", cls: "c13", name: "Подсечка", icon: "🌪️", level: 3, mp: 4, requires: "monk_flurry", desc: "Удар и 🌪️ сбить с ног", strike: { hit: 0, mult: 1 }, foe: "🌪️" },
+
+  { id: "bard_inspire", cls: "c14", name: "Воодушевление", icon: "🎵", level: 1, mp: 3, desc: "✨ Благословение на себя", self: "✨" },
+  { id: "bard_discord", cls: "c14", name: "Диссонанс", icon: "🎶", level: 3, mp: 4, requires: "bard_inspire", desc: "🌪️ 4–8 + Хар и сбить с ног", spell: { min: 4, max: 8, icons: ["🌪️"], stat: "cha" }, foe: "🌪️" },
+
+  { id: "guard_hold", cls: "c15", name: "Глухая оборона", icon: "🛡️", level: 1, mp: 3, desc: "🛡️ щит на себя", self: "🛡️" },
+  { id: "guard_bash", cls: "c15", name: "Удар щитом", icon: "🧱", level: 3, mp: 4, requires: "guard_hold", desc: "Удар ×1.2 и 🌪️ сбить с ног", strike: { hit: 0, mult: 1.2 }, foe: "🌪️" },
+];
+
+export const abilityById = (id: string) => ABILITIES.find(a => a.id === id);
+
+export const knownAbilities = (state: GameState) => state.abilities.map(abilityById).filter((a): a is AbilityDef => !!a);
+
+/** Abilities of the hero's class that can be learned now: level reached and branch opened. */
+export function learnableAbilities(state: GameState, known = state.abilities): AbilityDef[] {
+  return ABILITIES.filter(a => a.cls === state.cls?.id && a.level <= state.level && !known.includes(a.id) && (!a.requires || known.includes(a.requires)));
+}
+
+/** Roots of the class tree, known from character creation. */
+export const starterAbilities = (clsId: string) => ABILITIES.filter(a => a.cls === clsId && a.level <= 1 && !a.requires).map(a => a.id);
+
+/** Finds a known ability by its 1-based number or (part of) its name. */
+export function findAbility(state: GameState, ref: string): AbilityDef | undefined {
+  const known = knownAbilities(state);
+  const n = Number(ref);
+  if (Number.isInteger(n) && n >= 1) return known[n - 1];
+  const q = ref.trim().toLowerCase();
+  return q ? known.find(a => a.name.toLowerCase().includes(q)) : undefined;
+}
@@ -0,0 +1,209 @@
+import { canonPackById } from "./canon";
+import { findCommand } from "./commands";
+import { loadCustomWorld } from "./custom";
+import { BACKGROUNDS, classesFor, racesFor } from "./data";
+import type { GameAction } from "./engine";
+import { parseNarratorResult } from "./narrator";
+import { MAX_PARTY, partyMember } from "./party";
+import type { GamePhase, GameState, Universe } from "./types";
+
+/** Longest free text an action may carry (names, rules, commands, custom actions). */
+const MAX_TEXT = 500;
+
+const UNIVERSES: Universe[] = ["CLASSIC_FANTASY", "DARK_FANTASY", "ANIME_ISEKAI", "CANON", "CUSTOM"];
+const STAT_KEYS = ["str", "dex", "end", "int", "cha", "luck"];
+
+type Raw = Record<string, unknown>;
+
+const text = (v: unknown) => (typeof v === "string" && v.length <= MAX_TEXT ? v : undefined);
+const oneOf = <T extends string>(v: unknown, list: readonly T[]) => list.find(x => x === v);
+const count = (v: unknown) => (v === undefined ? undefined : Number.isInteger(v) && (v as number) > 0 ? (v as number) : null);
+const isObj = (v: unknown): v is Raw => !!v && typeof v === "object" && !Array.isArray(v);
+
+/**
+ * Rebuilds an action from untrusted JSON (an imported save or the game API),
+ * keeping only known fields of the right types. Returns null for anything malformed.
+ */
+export function parseAction(raw: unknown): GameAction | null {
+  if (!isObj(raw)) return null;
+  const a = raw;
+  switch (a.type) {
+    case "SET_WEAR": {
+      const wear = oneOf(a.wear, ["ON", "OFF"] as const);
+      return wear ? { type: a.type, wear } : null;
+    }
+    case "SET_DIFFICULTY": {
+      const difficulty = oneOf(a.difficulty, ["STORY", "STANDARD", "HARDCORE"] as const);
+      if (!difficulty) return null;
+      if (a.rules === undefined) return { type: a.type, difficulty };
+      const r = isObj(a.rules) ? a.rules : {};
+      const pct = (v: unknown) => (Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 100 ? (v as number) : undefined);
+      const backpack = oneOf(r.backpack, ["keep", "corpse", "lose"] as const);
+      const xpLoss = pct(r.xpLoss);
+      const moneyLoss = pct(r.moneyLoss);
+      return xpLoss !== undefined && moneyLoss !== undefined && backpack ? { type: a.type, difficulty, rules: { xpLoss, moneyLoss, backpack } } : null;
+    }
+    case "SET_UNIVERSE": {
+      const universe = oneOf(a.universe, UNIVERSES);
+      return universe ? { type: a.type, universe } : null;
+    }
+    case "SET_CANON": {
+      const mode = oneOf(a.mode, ["A_STORYLIKE", "B_WORLDONLY"] as const);
+      const title = text(a.title);
+      if (!mode || title === undefined) return null;
+      if (a.pack === undefined) return { type: a.type, title, mode };
+      return typeof a.pack === "string" && canonPackById(a.pack) ? { type: a.type, title, mode, pack: a.pack } : null;
+    }
+    case "SET_CUSTOM_RULES": {
+      if (text(a.text) === undefined) return null;
+      const res = loadCustomWorld(a.world);
+      return res.ok ? { type: a.type, text: a.text as string, world: res.world } : null;
+    }
+    case "SET_SEX":
+      return text(a.sex) ? { type: a.type, sex: a.sex as string } : null;
+    case "SET_NAME":
+      return text(a.name) !== undefined ? { type: a.type, name: a.name as string } : null;
+    case "CHOOSE_RACE":
+    case "CHOOSE_CLASS":
+    case "CHOOSE_BG":
+    case "ABILITY":
+      return text(a.id) ? { type: a.type, id: a.id as string } : null;
+    case "CHOICE": {
+      const id = oneOf(a.id, ["1", "2", "3", "4"] as const);
+      if (!id || (a.text !== undefined && text(a.text) === undefined)) return null;
+      return a.text === undefined ? { type: a.type, id } : { type: a.type, id, text: a.text as string };
+    }
+    case "NARRATE": {
+      const result = parseNarratorResult(a.result);
+      return text(a.text) && result ? { type: a.type, text: a.text as string, result } : null;
+    }
+    case "COMMAND":
+      return text(a.input) ? { type: a.type, input: a.input as string } : null;
+    case "INVENTORY": {
+      const op = oneOf(a.op, ["equip", "unequip", "drop", "use"] as const);
+      const qty = count(a.qty);
+      return op && text(a.ref) && qty !== null ? { type: a.type, op, ref: a.ref as string, qty } : null;
+    }
+    case "REPAIR": {
+      const target = oneOf(a.target, ["weapon", "armor", "all"] as const);
+      return target ? { type: a.type, target } : null;
+    }
+    case "FLEE":
+      return { type: a.type };
+    case "REST": {
+      const mode = oneOf(a.mode, ["rest", "sleep", "wait"] as const);
+      return mode ? { type: a.type, mode } : null;
+    }
+    case "TRAVEL":
+      return text(a.to) ? { type: a.type, to: a.to as string } : null;
+    case "TRADE": {
+      const op = oneOf(a.op, ["open", "close", "buy", "sell", "haggle"] as const);
+      const qty = count(a.qty);
+      if (!op || qty === null || (a.ref !== undefined && text(a.ref) === undefined)) return null;
+      return { type: a.type, op, ref: a.ref as string | undefined, qty };
+    }
+    case "TALK": {
+      const op = oneOf(a.op, ["open", "close"] as const);
+      if (!op || (a.ref !== undefined && text(a.ref) === undefined)) return null;
+      return { type: a.type, op, ref: a.ref as string | undefined };
+    }
+    case "LEVEL_UP": {
+      if (!isObj(a.alloc) || !Object.entries(a.alloc).every(([k, v]) => STAT_KEYS.includes(k) && Number.isInteger(v) && (v as number) >= 0)) return null;
+      const abilities = a.abilities;
+      if (abilities !== undefined && !(Array.isArray(abilities) && abilities.every(x => text(x)))) return null;
+      return { type: a.type, alloc: a.alloc, abilities: abilities as string[] | undefined };
+    }
+    case "JOIN": {
+      const [member, sex, name, race, cls, bg] = [a.member, a.sex, a.name, a.race, a.cls, a.bg].map(text);
+      return member && sex && name !== undefined && race && cls && bg ? { type: a.type, member, sex, name, race, cls, bg } : null;
+    }
+    case "ACT": {
+      const inner = parseAction(a.action);
+      // a turn holds exactly one plain action
+      return text(a.member) && inner && inner.type !== "ACT" && inner.type !== "JOIN" ? { type: a.type, member: a.member as string, action: inner } : null;
+    }
+    case "PARTY": {
+      if (a.op === "leave") return { type: a.type, op: a.op };
+      if (a.op === "leader") return text(a.member) ? { type: a.type, op: a.op, member: a.member as string } : null;
+      const mode = oneOf(a.mode, ["leader", "vote"] as const);
+      return a.op === "mode" && mode ? { type: a.type, op: a.op, mode } : null;
+    }
+  }
+  return null;
+}
+
+/** The phase each setup step belongs to; everything else is a play action. */
+const ACTION_PHASES: Partial<Record<GameAction["type"], GamePhase[]>> = {
+  SET_WEAR: ["SETTINGS"],
+  SET_DIFFICULTY: ["SETTINGS"],
+  SET_UNIVERSE: ["SETTINGS"],
+  SET_CANON: ["CANON_MODE"],
+  SET_CUSTOM_RULES: ["CUSTOM_RULES"],
+  SET_SEX: ["CHAR_SEX"],
+  SET_NAME: ["CHAR_NAME"],
+  CHOOSE_RACE: ["CHAR_RACE"],
+  CHOOSE_CLASS: ["CHAR_CLASS"],
+  CHOOSE_BG: ["CHAR_BG"],
+  LEVEL_UP: ["LEVEL_UP"],
+  // a party turn is checked by the action it carries
+  ACT: ["SETTINGS", "CANON_MODE", "CUSTOM_RULES", "CHAR_SEX", "CHAR_NAME", "CHAR_RACE", "CHAR_CLASS", "CHAR_BG", "PLAY", "LEVEL_UP", "DEAD"],
+  // commands answer in any phase (help, stats) and check their own availability
+  COMMAND: ["SETTINGS", "CANON_MODE", "CUSTOM_RULES", "CHAR_SEX", "CHAR_NAME", "CHAR_RACE", "CHAR_CLASS", "CHAR_BG", "PLAY", "LEVEL_UP", "DEAD"],
+};
+
+/** Why this action cannot be taken in the current phase, or "" when it can. */
+export function actionBlocker(state: GameState, action: GameAction): string {
+  const phases = ACTION_PHASES[action.type] ?? ["PLAY"];
+  if (!phases.includes(state.phase)) return `действие ${action.type} недоступно в фазе ${state.phase}`;
+  if (action.type === "JOIN") return joinBlocker(state, action);
+  if (action.type === "ACT") return partyBlocker(state, action.member, action.action) || actionBlocker(state, action.action);
+  return "";
+}
+
+/** Slash commands that move or rest the whole party, like TRAVEL and REST. */
+const GROUP_COMMANDS = ["/идти", "/отдых", "/сон", "/ждать"];
+
+/** Actions that decide for the whole party: the scene choice, travel and rest. */
+export function isGroupAction(action: GameAction) {
+  if (action.type === "COMMAND") return GROUP_COMMANDS.includes(findCommand(action.input.trim().split(/\s+/)[0])?.name ?? "");
+  return action.type === "CHOICE" || action.type === "NARRATE" || action.type === "TRAVEL" || action.type === "REST";
+}
+
+/** Commands that work in every phase only report on the state, so they are fine out of turn. */
+function readOnly(action: GameAction) {
+  if (action.type !== "COMMAND") return false;
+  const def = findCommand(action.input.trim().split(/\s+/)[0]);
+  return !!def && !def.phases;
+}
+
+/** Why this hero cannot join the game now, or "" when they can. */
+export function joinBlocker(state: GameState, a: Extract<GameAction, { type: "JOIN" }>) {
+  if (state.phase !== "PLAY" || state.enemy) return "Присоединиться можно во время игры и не в бою.";
+  if ((state.party?.members.length ?? 1) >= MAX_PARTY) return `В отряде уже ${MAX_PARTY} героя.`;
+  if (partyMember(state, a.member)) return `Участник ${a.member} уже в отряде.`;
+  if (!racesFor(state).some(x => x.id === a.race) || !classesFor(state).some(x => x.id === a.cls) || !BACKGROUNDS.some(x => x.id === a.bg)) return "Нет такой расы, класса или предыстории.";
+  return "";
+}
+
+/**
+ * Why this party member cannot take this action now, or "" when they can:
+ * fights go by turn order, a level-up holds everyone until it is spent, and
+ * in leader mode the scene, travel and rest are the leader's call.
+ */
+export function partyBlocker(state: GameState, member: string, action: GameAction) {
+  const p = state.party;
+  const m = partyMember(state, member);
+  if (!p) return "Отряда нет.";
+  if (!m) return "Вы не в отряде.";
+  const name = (id: string) => partyMember(state, id)?.name ?? id;
+  if (state.phase === "LEVEL_UP" && member !== p.active) return `Ждём: ${name(p.active)} распределяет очки уровня.`;
+  if (state.enemy && p.turn && member !== p.turn && !readOnly(action)) return `Сейчас ход: ${name(p.turn)}.`;
+  if (action.type === "PARTY") {
+    if (action.op === "leave" && state.enemy) return "Посреди боя отряд не покинуть.";
+    if (action.op === "leave" && p.members.length === 1) return "Вы последний в отряде.";
+    if (action.op !== "leave" && member !== p.leader) return "Это решает лидер отряда.";
+    if (action.op === "leader" && !partyMember(state, action.member)) return "Такого участника нет.";
+  }
+  if (!state.enemy && p.mode === "leader" && member !== p.leader && isGroupAction(action)) return `Путь отряда выбирает лидер: ${name(p.leader)}.`;
+  return "";
+}
@@ -0,0 +1,134 @@
+import { safeHub } from "./data";
+import { HOSTILE, factionStanding } from "./factions";
+import { BANDAGE, BANDIT_TOKEN, GHOST_DUST, HEALING_POTION, SLIME_CORE, WOLF_PELT } from "./items";
+import type { Enemy, FactionId, GameState, LootDrop, Rng, Universe } from "./types";
+import { rollRange } from "./util";
+
+/** Enemy at its base `level`; spawnEnemy scales it to the encounter. */
+export type EnemyTemplate = Omit<Enemy, "hpCur" | "effects" | "money" | "level"> & { id: string; level: number; xp: number; money: [number, number]; loot: LootDrop[] };
+
+export const BESTIARY: Record<string, EnemyTemplate> = {
+  // shared by every universe
+  cutpurse: { id: "cutpurse", name: "Карманник", level: 1, hpMax: 16, evasion: 12, defense: 1, weak: "🪓", attackIcons: ["🗡️"], dmgMin: 3, dmgMax: 6, xp: 35, money: [5, 15], loot: [{ item: BANDAGE, chance: 30 }] },
+  bandit: { id: "bandit", name: "Дорожный бандит", level: 1, hpMax: 24, evasion: 7, defense: 2, weak: "🪛", resist: "🪓", attackIcons: ["🗡️"], dmgMin: 5, dmgMax: 9, xp: 60, money: [8, 20], loot: [{ item: BANDIT_TOKEN, chance: 50 }, { item: HEALING_POTION, chance: 20 }] },
+  stray_dog: { id: "stray_dog", name: "Бродячий пёс", level: 1, hpMax: 14, evasion: 10, defense: 0, weak: "🔥", attackIcons: ["🪛"], dmgMin: 2, dmgMax: 5, xp: 25, money: [0, 0], loot: [{ item: WOLF_PELT, chance: 40 }] },
+  night_thug: { id: "night_thug", name: "Ночной головорез", level: 2, hpMax: 30, evasion: 8, defense: 3, weak: "☀️", attackIcons: ["🪓"], dmgMin: 6, dmgMax: 11, xp: 90, money: [15, 30], loot: [{ item: BANDIT_TOKEN, chance: 60 }, { item: HEALING_POTION, chance: 30 }] },
+  // faction fighters; they come after a hero their faction is hostile to
+  hunter: { id: "hunter", name: "Охотник на нечисть", faction: "hunters", level: 2, hpMax: 28, evasion: 10, defense: 3, weak: "🌑", attackIcons: ["🏹", "☀️"], dmgMin: 5, dmgMax: 10, xp: 90, money: [10, 25], loot: [{ item: HEALING_POTION, chance: 30 }] },
+  zealot: { id: "zealot", name: "Фанатик культа", faction: "cults", level: 2, hpMax: 24, evasion: 9, defense: 2, weak: "☀️", resist: "🌑", attackIcons: ["🗡️", "🌑"], dmgMin: 5, dmgMax: 10, xp: 85, money: [5, 20], loot: [{ item: GHOST_DUST, chance: 30 }] },
+  arcane_warden: { id: "arcane_warden", name: "Дознаватель Круга", faction: "mages", level: 3, hpMax: 26, evasion: 12, defense: 2, weak: "🗡️", resist: "⚡", attackIcons: ["⚡", "🔥"], dmgMin: 6, dmgMax: 11, xp: 120, money: [15, 30], loot: [{ item: GHOST_DUST, chance: 40 }] },
+  fog_wisp: { id: "fog_wisp", name: "Туманный огонёк", level: 2, hpMax: 18, evasion: 18, defense: 0, weak: "🌪️", resist: "🗡️", attackIcons: ["⚡"], dmgMin: 4, dmgMax: 8, xp: 80, money: [0, 0], loot: [{ item: GHOST_DUST, chance: 60 }] },
+
+  // DARK_FANTASY
+  scavenger: { id: "scavenger", name: "Кривозубый падальщик", level: 1, hpMax: 26, evasion: 8, defense: 3, weak: "🔥", resist: "🌑", attackIcons: ["🪓"], dmgMin: 5, dmgMax: 9, xp: 60, money: [3, 12], loot: [{ item: BANDAGE, chance: 40 }] },
+  ghoul: { id: "ghoul", name: "Болотный упырь", level: 2, hpMax: 34, evasion: 5, defense: 3, weak: "☀️", resist: "🧪", attackIcons: ["🪛", "🧪"], dmgMin: 6, dmgMax: 10, xp: 100, money: [0, 10], loot: [{ item: WOLF_PELT, chance: 30 }] },
+  carrion_wolf: { id: "carrion_wolf", name: "Волк-трупоед", level: 1, hpMax: 18, evasion: 11, defense: 1, weak: "🔥", attackIcons: ["🪛"], dmgMin: 3, dmgMax: 7, xp: 40, money: [0, 0], loot: [{ item: WOLF_PELT, chance: 60 }] },
+  wraith: { id: "wraith", name: "Безликий призрак", level: 3, hpMax: 28, evasion: 15, defense: 2, weak: "☀️", resist: "🪓", attackIcons: ["🌑"], dmgMin: 6, dmgMax: 12, xp: 140, money: [0, 0], loot: [{ item: GHOST_DUST, chance: 80 }] },
+
+  // ANIME_ISEKAI
+  slime: { id: "slime", name: "Слизень ранга E", level: 1, hpMax: 22, evasion: 6, defense: 2, weak: "❄️", resist: "🪛", attackIcons: ["🧪"], dmgMin: 4, dmgMax: 8, xp: 45, money: [2, 8], loot: [{ item: SLIME_CORE, chance: 70 }] },
+  horned_rabbit: { id: "horned_rabbit", name: "Рогатый кролик", level: 1, hpMax: 12, evasion: 14, defense: 0, weak: "🔥", attackIcons: ["🪛"], dmgMin: 2, dmgMax: 5, xp: 25, money: [0, 0], loot: [{ item: WOLF_PELT, chance: 50 }] },
+  goblin_archer: { id: "goblin_archer", name: "Гоблин-лучник", level: 2, hpMax: 20, evasion: 10, defense: 1, weak: "⚡", attackIcons: ["🏹"], dmgMin: 5, dmgMax: 9, xp: 70, money: [5, 18], loot: [{ item: HEALING_POTION, chance: 25 }] },
+  kobold_shaman: { id: "kobold_shaman", name: "Кобольд-шаман", level: 3, hpMax: 26, evasion: 9, defense: 2, weak: "❄️", resist: "🔥", attackIcons: ["🔥"], dmgMin: 6, dmgMax: 11, xp: 120, money: [10, 25], loot: [{ item: GHOST_DUST, chance: 40 }] },
+};
+
+/**
+ * One line of an encounter table. `night` and `fog` entries only appear
+ * under those conditions; `locations` limits the entry to those places and
+ * `hub` to the safe hub, whatever it is called in this world;
+ * `hostile` entries only while that faction is hostile to the hero.
+ */
+export type Encounter = { group: string[]; weight: number; locations?: string[]; hub?: boolean; night?: boolean; fog?: boolean; hostile?: FactionId };
+
+// shared by every table: whoever the hero has made enemies of comes looking
+const FACTION_ENCOUNTERS: Encounter[] = [
+  { group: ["hunter"], weight: 4, hostile: "hunters" },
+  { group: ["hunter", "hunter"], weight: 2, night: true, hostile: "hunters" },
+  { group: ["zealot"], weight: 3, hostile: "cults" },
+  { group: ["zealot", "zealot"], weight: 2, night: true, hostile: "cults" },
+  { group: ["arcane_warden"], weight: 3, hostile: "mages" },
+];
+
+const ENCOUNTERS: Record<Universe | "DEFAULT", Encounter[]> = {
+  DEFAULT: [
+    { group: ["bandit"], weight: 5 },
+    { group: ["stray_dog", "stray_dog"], weight: 3 },
+    { group: ["bandit", "cutpurse"], weight: 2 },
+    { group: ["night_thug"], weight: 4, night: true },
+    { group: ["night_thug", "bandit"], weight: 2, night: true },
+    { group: ["fog_wisp"], weight: 4, fog: true },
+    { group: ["cutpurse"], weight: 2, hub: true },
+  ],
+  CLASSIC_FANTASY: [],
+  CANON: [],
+  CUSTOM: [],
+  DARK_FANTASY: [
+    { group: ["scavenger"], weight: 5 },
+    { group: ["carrion_wolf", "carrion_wolf"], weight: 3 },
+    { group: ["bandit"], weight: 2 },
+    { group: ["ghoul"], weight: 4, night: true },
+    { group: ["ghoul", "carrion_wolf"], weight: 2, night: true },
+    { group: ["wraith"], weight: 4, fog: true },
+    { group: ["wraith", "fog_wisp"], weight: 1, fog: true, night: true },
+    { group: ["cutpurse", "cutpurse"], weight: 2, locations: [safeHub({ universe: "DARK_FANTASY" })] },
+  ],
+  ANIME_ISEKAI: [
+    { group: ["slime"], weight: 5 },
+    { group: ["horned_rabbit", "horned_rabbit", "horned_rabbit"], weight: 2 },
+    { group: ["goblin_archer"], weight: 3 },
+    { group: ["goblin_archer", "slime"], weight: 2 },
+    { group: ["kobold_shaman"], weight: 3, night: true },
+    { group: ["kobold_shaman", "goblin_archer"], weight: 1, night: true },
+    { group: ["fog_wisp", "fog_wisp"], weight: 3, fog: true },
+    { group: ["cutpurse"], weight: 2, locations: [safeHub({ universe: "ANIME_ISEKAI" })] },
+  ],
+};
+
+export const isNight = (state: GameState) => state.hour >= 21 || state.hour < 5;
+
+/** Encounter level bump: +1 at night, +1 in fog. */
+export const dangerLevel = (state: GameState) => (isNight(state) ? 1 : 0) + (state.weather === "Туман" ? 1 : 0);
+
+/** Copies a template and scales it from its base level to `level`. */
+export function spawnEnemy(tpl: EnemyTemplate, level: number, rng: Rng): Enemy {
+  const d = level - tpl.level;
+  const hp = Math.max(5, Math.round(tpl.hpMax * (1 + d * 0.2)));
+  const dmgMin = Math.max(1, tpl.dmgMin + d);
+  return {
+    ...structuredClone(tpl),
+    name: d ? `${tpl.name} (ур. ${level})` : tpl.name,
+    level,
+    hpCur: hp,
+    hpMax: hp,
+    evasion: Math.max(0, tpl.evasion + d),
+    defense: Math.max(0, tpl.defense + Math.floor(d / 2)),
+    dmgMin,
+    dmgMax: Math.max(dmgMin, tpl.dmgMax + d),
+    xp: Math.max(5, Math.round(tpl.xp * (1 + d * 0.25))),
+    money: rollRange(rng, tpl.money[0], tpl.money[1]),
+  };
+}
+
+/** Picks an encounter for the current universe (or canon), location, hour, weather and the factions the hero has angered. */
+export function rollEncounter(state: GameState, rng: Rng): Enemy[] {
+  const night = isNight(state);
+  const fog = state.weather === "Туман";
+  const own = state.canonPack?.encounters ?? ENCOUNTERS[state.universe ?? "DEFAULT"];
+  const table = [...(own.length ? own : ENCOUNTERS.DEFAULT), ...FACTION_ENCOUNTERS].filter(e =>
+    (!e.night || night) && (!e.fog || fog) && (!e.locations || e.locations.includes(state.location)) && (!e.hub || state.location === safeHub(state)) && (!e.hostile || factionStanding(state, e.hostile) <= HOSTILE));
+
+  const total = table.reduce((a, e) => a + e.weight, 0);
+  let n = rng() * total;
+  const pick = table.find(e => (n -= e.weight) < 0) ?? table[0];
+  return spawnGroup(state, pick.group, rng);
+}
+
+/**
+ * Spawns the given templates at the hero's level plus the current danger;
+ * a template above that level comes out weakened, one below it toughened.
+ */
+export function spawnGroup(state: GameState, ids: string[], rng: Rng): Enemy[] {
+  const level = Math.max(1, state.level + dangerLevel(state));
+  const tpl = (id: string) => state.canonPack?.bestiary[id] ?? BESTIARY[id];
+  return ids.filter(tpl).map(id => spawnEnemy(tpl(id), level, rng));
+}
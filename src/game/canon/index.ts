@@ -0,0 +1,22 @@
+import { loadCanonPack } from "./load";
+import tridevyatoe from "./packs/tridevyatoe.json";
+import viy from "./packs/viy.json";
+import type { CanonPack } from "./types";
+
+export * from "./load";
+export * from "./story";
+export * from "./types";
+
+/** Installed packs by file; a new world is a JSON file in ./packs plus a line here. */
+export const CANON_PACK_FILES: Record<string, unknown> = {
+  "tridevyatoe.json": tridevyatoe,
+  "viy.json": viy,
+};
+
+/** Packs that passed validation; a broken one is left out rather than breaking the game (the content tests name its problems). */
+export const CANON_PACKS: CanonPack[] = Object.values(CANON_PACK_FILES).flatMap(raw => {
+  const res = loadCanonPack(raw);
+  return res.ok ? [res.pack] : [];
+});
+
+export const canonPackById = (id: string) => CANON_PACKS.find(p => p.id === id);
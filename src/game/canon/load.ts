@@ -0,0 +1,310 @@
+import { BESTIARY, type Encounter, type EnemyTemplate } from "../bestiary";
+import { CLASSES, DAMAGE_ICONS, RACES } from "../data";
+import { FACTIONS } from "../factions";
+import { ANTIDOTE, BANDAGE, BANDIT_TOKEN, GHOST_DUST, HEALING_POTION, REGEN_TONIC, SLIME_CORE, WOLF_PELT } from "../items";
+import { sceneGraphFor, validateSceneGraph } from "../scenes";
+import { BASE_GRAPH } from "../scenes/base";
+import type { SceneDef } from "../scenes/types";
+import type { BackpackItem, ItemType, Rarity } from "../types";
+import type { LocationDef, Route } from "../world";
+import type { CanonPack, StoryBeat, TraitOverride } from "./types";
+
+/** Items a pack's enemies may drop by id; a pack can also spell out an item of its own. */
+const KNOWN_ITEMS: Record<string, BackpackItem> = Object.fromEntries(
+  [BANDAGE, ANTIDOTE, REGEN_TONIC, HEALING_POTION, WOLF_PELT, SLIME_CORE, GHOST_DUST, BANDIT_TOKEN].map(it => [it.id, it]),
+);
+
+const ITEM_TYPES: ItemType[] = ["consumable", "material", "quest"];
+const RARITIES: Rarity[] = ["⚪", "🟢", "🔵", "🟣", "🟠", "🔴"];
+const EFFECT_KINDS = ["log", "journal", "flag", "money", "hp", "item", "loot", "quest", "combat", "takeItem", "reputation", "attitude", "talk", "beat"];
+
+type Raw = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Raw => !!v && typeof v === "object" && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isText = (v: unknown): v is string => typeof v === "string" && !!v.trim();
+
+type Problems = ReturnType<typeof problems>;
+
+/** Collects problems with the JSON path they were found at, e.g. `map.routes[2].to: …`, and reads fields on the way. */
+function problems() {
+  const errors: string[] = [];
+  const add = (path: string, msg: string) => { errors.push(`${path}: ${msg}`); };
+  return {
+    errors,
+    add,
+    text(raw: Raw, key: string, path = key) {
+      const v = raw[key];
+      if (!isText(v)) { add(path, "нужна непустая строка"); return ""; }
+      return v.trim();
+    },
+    num(raw: Raw, key: string, path: string, min = -Infinity, max = Infinity) {
+      const v = raw[key];
+      if (isNum(v) && v >= min && v <= max) return v;
+      add(path, `нужно число${min > -Infinity ? ` от ${min}` : ""}${max < Infinity ? ` до ${max}` : ""}`);
+      return Math.max(0, min);
+    },
+    array(raw: Raw, key: string, path = key): unknown[] {
+      const v = raw[key];
+      if (v === undefined) return [];
+      if (!Array.isArray(v)) { add(path, "нужен массив"); return []; }
+      return v;
+    },
+    dict(raw: Raw, key: string, path = key): Raw {
+      const v = raw[key];
+      if (v === undefined) return {};
+      if (!isObj(v)) { add(path, "нужен объект"); return {}; }
+      return v;
+    },
+  };
+}
+
+function loadMap(p: Problems, raw: Raw, hub: string) {
+  const map = p.dict(raw, "map");
+  const locations: LocationDef[] = p.array(map, "locations", "map.locations").flatMap((l, i) => {
+    const at = `map.locations[${i}]`;
+    if (!isObj(l)) { p.add(at, "нужен объект"); return []; }
+    const loc: LocationDef = {
+      name: p.text(l, "name", `${at}.name`),
+      desc: p.text(l, "desc", `${at}.desc`),
+      x: p.num(l, "x", `${at}.x`, 0, 100),
+      y: p.num(l, "y", `${at}.y`, 0, 100),
+      danger: p.num(l, "danger", `${at}.danger`, 0, 100),
+    };
+    if (l.node !== undefined) loc.node = p.text(l, "node", `${at}.node`);
+    return [loc];
+  });
+  const names = new Set<string>();
+  for (const l of locations) {
+    if (names.has(l.name)) p.add("map.locations", `место «${l.name}» указано дважды`);
+    names.add(l.name);
+  }
+  const home = locations.find(l => l.name === hub);
+  if (!home) p.add("map.locations", `нет безопасной точки «${hub}» из поля hub`);
+  else home.node ??= "HUB";
+
+  const routes: Route[] = p.array(map, "routes", "map.routes").flatMap((r, i) => {
+    const at = `map.routes[${i}]`;
+    if (!isObj(r)) { p.add(at, "нужен объект"); return []; }
+    const route = { from: p.text(r, "from", `${at}.from`), to: p.text(r, "to", `${at}.to`), hours: p.num(r, "hours", `${at}.hours`, 1, 24) };
+    for (const end of [route.from, route.to]) if (end && !names.has(end)) p.add(at, `нет места «${end}» в map.locations`);
+    return [route];
+  });
+
+  // every place must be reachable from the hub, or the hero never gets there
+  const seen = new Set([hub]);
+  for (let grew = true; grew;) {
+    grew = false;
+    for (const r of routes) {
+      for (const [a, b] of [[r.from, r.to], [r.to, r.from]]) if (seen.has(a) && !seen.has(b)) { seen.add(b); grew = true; }
+    }
+  }
+  if (home) for (const l of locations) if (!seen.has(l.name)) p.add("map.routes", `до «${l.name}» не ведёт ни одна дорога от «${hub}»`);
+  return { locations, routes };
+}
+
+function loadItem(p: Problems, v: unknown, at: string): BackpackItem | null {
+  if (typeof v === "string") {
+    if (!KNOWN_ITEMS[v]) p.add(at, `неизвестный предмет "${v}" (есть: ${Object.keys(KNOWN_ITEMS).join(", ")})`);
+    return KNOWN_ITEMS[v] ?? null;
+  }
+  if (!isObj(v)) { p.add(at, "нужен id предмета или сам предмет"); return null; }
+  const type = ITEM_TYPES.find(t => t === v.type);
+  if (!type) p.add(`${at}.type`, `нужно одно из: ${ITEM_TYPES.join(", ")}`);
+  const rarity = RARITIES.find(r => r === v.rarity);
+  if (v.rarity !== undefined && !rarity) p.add(`${at}.rarity`, `нужно одно из: ${RARITIES.join(" ")}`);
+  const item: BackpackItem = {
+    id: p.text(v, "id", `${at}.id`),
+    rarity: rarity ?? "⚪",
+    name: p.text(v, "name", `${at}.name`),
+    type: type ?? "material",
+    weight: p.num(v, "weight", `${at}.weight`, 0),
+    slots: 1,
+    qty: 1,
+  };
+  if (v.use !== undefined) {
+    if (!isObj(v.use) || (v.use.hp !== undefined && !isNum(v.use.hp))) p.add(`${at}.use`, "нужен объект вида { \"hp\": 10 }");
+    else item.use = isNum(v.use.hp) ? { hp: v.use.hp } : {};
+  }
+  return item;
+}
+
+function loadEnemy(p: Problems, id: string, e: unknown): EnemyTemplate | null {
+  const at = `bestiary.${id}`;
+  if (!isObj(e)) { p.add(at, "нужен объект"); return null; }
+  if (BESTIARY[id]) p.add(at, "такой id уже есть в общем бестиарии, выберите другой");
+  const icon = (v: unknown, path: string) => {
+    if (v === undefined) return undefined;
+    const known = DAMAGE_ICONS.find(d => d === v);
+    if (!known) p.add(path, `неизвестный тип урона ${String(v)} (есть: ${DAMAGE_ICONS.join(" ")})`);
+    return known;
+  };
+  const attackIcons = p.array(e, "attackIcons", `${at}.attackIcons`).flatMap((v, i) => icon(v, `${at}.attackIcons[${i}]`) ?? []);
+  if (!attackIcons.length) p.add(`${at}.attackIcons`, "нужен хотя бы один тип урона");
+  const dmgMin = p.num(e, "dmgMin", `${at}.dmgMin`, 1);
+  const dmgMax = p.num(e, "dmgMax", `${at}.dmgMax`, 1);
+  if (dmgMax < dmgMin) p.add(`${at}.dmgMax`, "меньше dmgMin");
+  const m = e.money;
+  const money: [number, number] | null = Array.isArray(m) && m.length === 2 && isNum(m[0]) && isNum(m[1]) && m[0] <= m[1] ? [m[0], m[1]] : null;
+  if (!money) p.add(`${at}.money`, "нужна пара [от, до]");
+  const faction = e.faction === undefined ? undefined : FACTIONS.find(f => f.id === e.faction)?.id;
+  if (e.faction !== undefined && !faction) p.add(`${at}.faction`, `нужна одна из фракций: ${FACTIONS.map(f => f.id).join(", ")}`);
+
+  return {
+    id,
+    name: p.text(e, "name", `${at}.name`),
+    level: p.num(e, "level", `${at}.level`, 1, 20),
+    hpMax: p.num(e, "hpMax", `${at}.hpMax`, 1),
+    evasion: p.num(e, "evasion", `${at}.evasion`, 0, 50),
+    defense: p.num(e, "defense", `${at}.defense`, 0, 20),
+    weak: icon(e.weak, `${at}.weak`),
+    resist: icon(e.resist, `${at}.resist`),
+    attackIcons,
+    dmgMin,
+    dmgMax,
+    xp: p.num(e, "xp", `${at}.xp`, 0),
+    money: money ?? [0, 0],
+    loot: p.array(e, "loot", `${at}.loot`).flatMap((d, i) => {
+      const path = `${at}.loot[${i}]`;
+      if (!isObj(d)) { p.add(path, "нужен объект { item, chance }"); return []; }
+      const item = loadItem(p, d.item, `${path}.item`);
+      const chance = p.num(d, "chance", `${path}.chance`, 1, 100);
+      return item ? [{ item, chance }] : [];
+    }),
+    ...(faction && { faction }),
+  };
+}
+
+function loadEncounters(p: Problems, raw: Raw, enemies: Record<string, unknown>, places: Set<string>): Encounter[] {
+  const list = p.array(raw, "encounters").flatMap((e, i) => {
+    const at = `encounters[${i}]`;
+    if (!isObj(e)) { p.add(at, "нужен объект"); return []; }
+    const group = p.array(e, "group", `${at}.group`).filter((id): id is string => typeof id === "string");
+    if (!group.length) p.add(`${at}.group`, "нужен список id врагов");
+    for (const id of group) if (!enemies[id]) p.add(`${at}.group`, `нет врага "${id}" ни в bestiary пакета, ни в общем бестиарии`);
+    const enc: Encounter = { group, weight: p.num(e, "weight", `${at}.weight`, 1) };
+    if (e.night !== undefined) enc.night = !!e.night;
+    if (e.fog !== undefined) enc.fog = !!e.fog;
+    if (e.locations !== undefined) {
+      enc.locations = p.array(e, "locations", `${at}.locations`).filter((n): n is string => typeof n === "string");
+      for (const n of enc.locations) if (!places.has(n)) p.add(`${at}.locations`, `нет места «${n}» на карте`);
+    }
+    return [enc];
+  });
+  if (!list.some(e => !e.night && !e.fog && !e.locations)) p.add("encounters", "нужна хотя бы одна встреча без условий night, fog и locations — иначе днём драться не с кем");
+  return list;
+}
+
+function loadOverrides(p: Problems, raw: Raw, key: "races" | "classes", known: { id: string }[]) {
+  const out: Record<string, TraitOverride> = {};
+  for (const [id, o] of Object.entries(p.dict(raw, key))) {
+    const at = `${key}.${id}`;
+    if (!known.some(x => x.id === id)) { p.add(at, `нет такого id (есть: ${known.map(x => x.id).join(", ")})`); continue; }
+    if (!isObj(o)) { p.add(at, "нужен объект { name?, desc?, hidden? }"); continue; }
+    out[id] = {
+      ...(o.name !== undefined && { name: p.text(o, "name", `${at}.name`) }),
+      ...(o.desc !== undefined && { desc: p.text(o, "desc", `${at}.desc`) }),
+      ...(o.hidden !== undefined && { hidden: !!o.hidden }),
+    };
+  }
+  if (known.every(x => out[x.id]?.hidden)) p.add(key, "скрыты все до одного — герою не из чего выбрать");
+  return out;
+}
+
+/** Shape only; links between scenes, enemies and quests are checked on the whole graph. */
+function loadScene(p: Problems, id: string, sc: unknown): SceneDef | null {
+  const at = `scenes.${id}`;
+  if (!isObj(sc)) { p.add(at, "нужен объект { text, choices }"); return null; }
+  if (BASE_GRAPH.scenes[id]) p.add(at, "такая сцена уже есть в базовом графе — чтобы сменить её текст, используйте texts");
+  p.text(sc, "text", `${at}.text`);
+  p.array(sc, "choices", `${at}.choices`).forEach((ch, i) => {
+    const path = `${at}.choices[${i}]`;
+    if (!isObj(ch)) { p.add(path, "нужен объект"); return; }
+    p.text(ch, "label", `${path}.label`);
+    if (ch.check !== undefined && (!isObj(ch.check) || !isText(ch.check.label) || !isNum(ch.check.chance))) p.add(`${path}.check`, "нужны label и chance");
+    for (const key of ["success", "fail"]) {
+      const out = ch[key];
+      if (out === undefined) continue;
+      if (!isObj(out)) { p.add(`${path}.${key}`, "нужен объект { text?, effects?, goto? }"); continue; }
+      p.array(out, "effects", `${path}.${key}.effects`).forEach((e, j) => {
+        if (!isObj(e) || typeof e.kind !== "string" || !EFFECT_KINDS.includes(e.kind)) p.add(`${path}.${key}.effects[${j}]`, `неизвестный эффект (есть: ${EFFECT_KINDS.join(", ")})`);
+      });
+    }
+  });
+  return { ...(sc as SceneDef), id };
+}
+
+function loadStory(p: Problems, raw: Raw, scenes: Record<string, SceneDef>, places: Set<string>): StoryBeat[] {
+  return p.array(raw, "story").flatMap((b, i) => {
+    const at = `story[${i}]`;
+    if (!isObj(b)) { p.add(at, "нужен объект { title, scene, location? }"); return []; }
+    const beat: StoryBeat = { title: p.text(b, "title", `${at}.title`), scene: p.text(b, "scene", `${at}.scene`) };
+    if (beat.scene && !scenes[beat.scene]) p.add(`${at}.scene`, `нет сцены "${beat.scene}" в scenes пакета`);
+    if (b.location !== undefined) {
+      beat.location = p.text(b, "location", `${at}.location`);
+      if (beat.location && !places.has(beat.location)) p.add(`${at}.location`, `нет места «${beat.location}» на карте`);
+    }
+    return [beat];
+  });
+}
+
+export type CanonLoadResult = { ok: true; pack: CanonPack } | { ok: false; errors: string[] };
+
+/**
+ * Reads a canon world pack (parsed JSON) into a CanonPack and checks it: every
+ * problem comes back with its path in the file, so a writer can fix them all
+ * in one go. Scene links are checked like the built-in graph's.
+ */
+export function loadCanonPack(raw: unknown): CanonLoadResult {
+  if (!isObj(raw)) return { ok: false, errors: ["пакет должен быть JSON-объектом"] };
+  const p = problems();
+
+  const id = p.text(raw, "id");
+  if (id && !/^[a-z0-9_-]+$/.test(id)) p.add("id", "только латиница в нижнем регистре, цифры, - и _");
+  const hub = p.text(raw, "hub");
+  const map = loadMap(p, raw, hub);
+  const places = new Set(map.locations.map(l => l.name));
+
+  const bestiary: Record<string, EnemyTemplate> = {};
+  for (const [key, e] of Object.entries(p.dict(raw, "bestiary"))) {
+    const tpl = loadEnemy(p, key, e);
+    if (tpl) bestiary[key] = tpl;
+  }
+  const enemies = { ...BESTIARY, ...bestiary };
+
+  const texts: Record<string, string> = {};
+  for (const [key, text] of Object.entries(p.dict(raw, "texts"))) {
+    if (!BASE_GRAPH.scenes[key]) p.add(`texts.${key}`, `нет такой базовой сцены (есть: ${Object.keys(BASE_GRAPH.scenes).join(", ")})`);
+    else if (!isText(text)) p.add(`texts.${key}`, "нужна непустая строка");
+    else texts[key] = text;
+  }
+  const scenes: Record<string, SceneDef> = {};
+  for (const [key, sc] of Object.entries(p.dict(raw, "scenes"))) {
+    const def = loadScene(p, key, sc);
+    if (def) scenes[key] = def;
+  }
+
+  const pack: CanonPack = {
+    id,
+    title: p.text(raw, "title"),
+    desc: p.text(raw, "desc"),
+    style: p.text(raw, "style"),
+    hub,
+    currency: p.text(raw, "currency"),
+    map,
+    bestiary,
+    encounters: loadEncounters(p, raw, enemies, places),
+    races: loadOverrides(p, raw, "races", RACES),
+    classes: loadOverrides(p, raw, "classes", CLASSES),
+    texts,
+    scenes,
+    story: loadStory(p, raw, scenes, places),
+  };
+  if (p.errors.length) return { ok: false, errors: p.errors };
+
+  // the scene graph as the game will see it, so links into and out of the base scenes count
+  const graph = sceneGraphFor({ universe: "CANON", canonPack: pack });
+  for (const l of map.locations) if (l.node && !graph.scenes[l.node]) p.add("map.locations", `место «${l.name}» ведёт в несуществующую сцену "${l.node}"`);
+  for (const issue of validateSceneGraph(graph, enemies)) p.add(`scenes.${issue.scene}`, issue.message);
+  return p.errors.length ? { ok: false, errors: p.errors } : { ok: true, pack };
+}
@@ -0,0 +1,46 @@
+import type { GameState } from "../types";
+import { addLog } from "../util";
+
+/** The beat the canon's story is at; only in mode A, and none once the story is told. */
+export function currentBeat(state: GameState) {
+  if (!state.canonPack || state.canonMode !== "A_STORYLIKE") return undefined;
+  return state.canonPack.story[state.storyBeat ?? 0];
+}
+
+/** Puts the hero into the current beat's scene if it happens where they stand; called on arrival and when the story moves. */
+export function openBeat(s: GameState) {
+  const beat = currentBeat(s);
+  if (!beat || s.enemy || (beat.location && beat.location !== s.location) || s.node === beat.scene) return false;
+  delete s.trade;
+  delete s.talk;
+  s.node = beat.scene;
+  addLog(s, "system", `📖 ${beat.title}`);
+  return true;
+}
+
+/**
+ * The `beat` scene effect, from the current beat's scene only, so a replayed
+ * scene never skips a beat. The hero leaves that scene: into the next beat's
+ * if it happens here, else back to the place's own scene.
+ */
+export function advanceStory(s: GameState) {
+  const beat = currentBeat(s);
+  if (!beat || s.node !== beat.scene) return;
+  s.storyBeat = (s.storyBeat ?? 0) + 1;
+  s.node = s.canonPack!.map.locations.find(l => l.name === s.location)?.node ?? "FIELD";
+  const next = currentBeat(s);
+  if (!next) { addLog(s, "system", "📖 История рассказана. Мир остаётся открытым — идите куда хотите."); return; }
+  if (s.enemy || !openBeat(s)) addLog(s, "system", `📖 Сюжет продолжается: ${next.title}${next.location && next.location !== s.location ? ` — ${next.location}. Дороги — /карта` : " — /сюжет"}`);
+}
+
+/** /сюжет: where the story stands; at the beat's place it takes the hero back into the beat's scene. */
+export function resumeStory(s: GameState) {
+  if (!s.canonPack) { addLog(s, "system", "Сюжет ведётся только в каноне из набора миров."); return; }
+  if (s.canonMode !== "A_STORYLIKE") { addLog(s, "system", `Режим B: из канона «${s.canonPack.title}» взяты только мир и стиль, сюжета нет.`); return; }
+  const beat = currentBeat(s);
+  if (!beat) { addLog(s, "system", "📖 История рассказана. Мир остаётся открытым."); return; }
+  const step = `${(s.storyBeat ?? 0) + 1}/${s.canonPack.story.length}`;
+  if (s.node === beat.scene) addLog(s, "system", `📖 ${step} ${beat.title} — вы уже в этой сцене.`);
+  else if (s.enemy) addLog(s, "system", `📖 ${step} ${beat.title}. Сначала закончите бой.`);
+  else if (!openBeat(s)) addLog(s, "system", `📖 ${step} ${beat.title}. Сюжет ждёт вас: ${beat.location}. Дороги — /карта`);
+}
@@ -0,0 +1,40 @@
+import type { Encounter, EnemyTemplate } from "../bestiary";
+import type { SceneDef } from "../scenes/types";
+import type { WorldMap } from "../world";
+
+/** A race or class as the canon calls it; the mechanics stay the same. `hidden` takes it out of the picker. */
+export type TraitOverride = { name?: string; desc?: string; hidden?: boolean };
+
+/**
+ * A step of the canon's plot, followed in mode A: its scene opens once the
+ * hero reaches `location` (at once when there is none), and a `beat` effect
+ * in that scene moves the story to the next step.
+ */
+export type StoryBeat = { title: string; scene: string; location?: string };
+
+/**
+ * An installed canon world, as loaded from a pack file. Mode B takes only
+ * the world (map, hub, currency, bestiary, traits) and `style`; mode A also
+ * follows `story`.
+ */
+export type CanonPack = {
+  id: string;
+  title: string;
+  desc: string;
+  /** Tone and rules of the world for the narrator. */
+  style: string;
+  hub: string;
+  currency: string;
+  /** Real place names; the hub must be one of them. */
+  map: WorldMap;
+  /** Enemies of the canon, next to the shared ones of BESTIARY. */
+  bestiary: Record<string, EnemyTemplate>;
+  encounters: Encounter[];
+  races: Record<string, TraitOverride>;
+  classes: Record<string, TraitOverride>;
+  /** Base scene texts replaced by scene id, e.g. the hub's. */
+  texts: Record<string, string>;
+  /** Scenes of the canon's own, added to the base graph. */
+  scenes: Record<string, SceneDef>;
+  story: StoryBeat[];
+};
@@ -0,0 +1,305 @@
+import { abilityById, type AbilityDef } from "./abilities";
+import { dangerLevel, isNight, rollEncounter, spawnGroup } from "./bestiary";
+import { STAT_ICONS, WORLD_RULES, baseCurrency, hasWorldRule, safeHub } from "./data";
+import { DIFFICULTIES, die } from "./difficulty";
+import { absorbWithShield, applyEffect, damageDealtMultiplier, damageTakenMultiplier, hitModifier, rollOnHitEffect, tickEffects } from "./effects";
+import { factionKills } from "./factions";
+import { addItem, consumeItem, effectiveStats, firstHealingItem } from "./inventory";
+import { GEAR_DROP_CHANCE, rollLoot } from "./loot";
+import { beginFight, evasionBonus, firstFightDefense, healingMultiplier, heavyArmorPenalty, traitDamageTaken } from "./modifiers";
+import { eachMember, knockOut, passTurn } from "./party";
+import { gainXp } from "./progression";
+import { countKills } from "./quests";
+import { nightPenalty } from "./time";
+import type { ChoiceId, DamageIcon, Enemy, GameState, Rng } from "./types";
+import { addLog, chanceCheck, clamp, fmtMod, rollRange } from "./util";
+import { wearDown, wearFactor } from "./wear";
+
+/** Armor at or above this weight counts as heavy for trait penalties. */
+const HEAVY_ARMOR_WEIGHT = 8;
+
+const FISTS = { name: "Кулаки", dmgMin: 1, dmgMax: 3, dmgIcons: ["💥"] as DamageIcon[], reqStr: 0, reqDex: 0 };
+
+/** XP for enemies that did not come from the bestiary (e.g. made up by the narrator). */
+const NARRATED_XP = 30;
+
+/** Starts a fight with the given bestiary ids, or a roll on the encounter table. */
+export function startCombat(state: GameState, rng: Rng, ids?: string[]) {
+  const fixed = ids?.length ? spawnGroup(state, ids, rng) : [];
+  const group = fixed.length ? fixed : rollEncounter(state, rng);
+  beginFight(state);
+  delete state.talk;
+  state.enemy = group[0];
+  state.pack = group.slice(1);
+  const danger = dangerLevel(state);
+  if (group.length > 1) addLog(state, "system", `⚔️ Противников: ${group.length} — ${group.map(e => e.name).join(", ")}`);
+  if (danger) addLog(state, "system", `${isNight(state) ? "🌙" : "🌫️"} Враги опаснее обычного (+${danger} ур.)`);
+}
+
+/** Extra accuracy and damage multiplier from a weapon ability. */
+type StrikeMods = { hit: number; mult: number; name: string };
+
+export function playerAttack(state: GameState, enemy: Enemy, rng: Rng, mods?: StrikeMods): { hit: boolean; text: string } {
+  const st = effectiveStats(state);
+  const worn = wearFactor(state, state.equipped.weapon1);
+  const w = (worn > 0 && state.equipped.weapon1) || FISTS;
+  const icons = w.dmgIcons ?? [];
+
+  // weapon requirements: each missing point of 🎯 costs accuracy, each missing 💪 costs damage
+  const lackDex = Math.max(0, (w.reqDex ?? 0) - st.dex);
+  const lackStr = Math.max(0, (w.reqStr ?? 0) - st.str);
+
+  const parts = ["база 60", fmtMod("🎯", (st.dex - 3) * 4), fmtMod("🍀", (st.luck - 3) * 2), fmtMod("🌀", -enemy.evasion)];
+  let chance = 60 + (st.dex - 3) * 4 + (st.luck - 3) * 2 - enemy.evasion;
+  if (lackDex) { chance -= lackDex * 8; parts.push(fmtMod("треб.🎯", -lackDex * 8)); }
+  const heavy = (state.equipped.armor?.weight ?? 0) >= HEAVY_ARMOR_WEIGHT ? heavyArmorPenalty(state) : 0;
+  if (heavy) { chance -= heavy; parts.push(fmtMod("тяж.броня", -heavy)); }
+  const fx = hitModifier(state);
+  if (fx) { chance += fx; parts.push(fmtMod("эффекты", fx)); }
+  const night = nightPenalty(state);
+  if (night) { chance -= night; parts.push(fmtMod("🌙", -night)); }
+  if (mods?.hit) { chance += mods.hit; parts.push(fmtMod(mods.name, mods.hit)); }
+  chance = clamp(chance, 5, 95);
+
+  const roll = chanceCheck(rng);
+  const head = `Шанс ${chance}% (${parts.join(", ")}) | Проверка ${roll}/100`;
+  if (roll > chance) return { hit: false, text: `⚔️ Промах. ${head}` };
+
+  const base = rollRange(rng, w.dmgMin ?? 1, w.dmgMax ?? 1);
+  const calc = [`${icons.join("") || "⚔️"} ${base} (${w.dmgMin ?? 1}–${w.dmgMax ?? 1})`];
+  let mult = 1;
+  if (enemy.weak && icons.includes(enemy.weak)) { mult *= 1.5; calc.push(`×1.5 слабость ${enemy.weak}`); }
+  if (enemy.resist && icons.includes(enemy.resist)) { mult *= 0.5; calc.push(`×0.5 сопротивление ${enemy.resist}`); }
+  if (lackStr) { const m = Math.max(0.3, 1 - lackStr * 0.15); mult *= m; calc.push(`×${m.toFixed(2)} треб.💪`); }
+  if (worn > 0 && worn < 1) { mult *= worn; calc.push(`×${worn} износ`); }
+  if (mods && mods.mult !== 1) { mult *= mods.mult; calc.push(`×${mods.mult} ${mods.name}`); }
+  const fxMult = damageDealtMultiplier(state) * damageTakenMultiplier(enemy);
+  if (fxMult !== 1) { mult *= fxMult; calc.push(`×${fxMult.toFixed(2)} эффекты`); }
+  if (enemy.defense) calc.push(`− 🧱${enemy.defense}`);
+  const raw = Math.max(1, Math.round(base * mult) - enemy.defense);
+  const dmg = absorbWithShield(enemy, raw);
+  if (dmg < raw) calc.push(`− 🛡️щит ${raw - dmg}`);
+
+  enemy.hpCur = Math.max(0, enemy.hpCur - dmg);
+  const eff = rollOnHitEffect(rng, icons);
+  const applied = eff && applyEffect(enemy, eff);
+  return { hit: true, text: `⚔️ Попадание. ${head}\nУрон: ${calc.join(" ")} = ${dmg} | ❤️ HP врага: ${enemy.hpCur}/${enemy.hpMax}${applied ? `\nНа враге: ${applied}` : ""}` };
+}
+
+export function enemyAttack(state: GameState, enemy: Enemy, guarded: boolean, rng: Rng): string {
+  const st = effectiveStats(state);
+  const parts = ["база 55", fmtMod("🎯", -(st.dex - 3) * 3), fmtMod("🍀", -(st.luck - 3))];
+  let chance = 55 - (st.dex - 3) * 3 - (st.luck - 3);
+  if (guarded) { chance -= 20; parts.push("стойка-20"); }
+  const dodge = evasionBonus(state);
+  if (dodge) { chance -= dodge; parts.push(fmtMod("🌀", -dodge)); }
+  const fx = hitModifier(enemy);
+  if (fx) { chance += fx; parts.push(fmtMod("эффекты врага", fx)); }
+  chance = clamp(chance, 5, 95);
+
+  const roll = chanceCheck(rng);
+  const head = `Шанс ${chance}% (${parts.join(", ")}) | Проверка ${roll}/100`;
+  if (roll > chance) return `Ответ врага: промах. ${head}`;
+
+  const base = rollRange(rng, enemy.dmgMin, enemy.dmgMax);
+  const armor = Math.round((state.equipped.armor?.defense ?? 0) * wearFactor(state, state.equipped.armor)) + firstFightDefense(state);
+  const calc = [`${enemy.attackIcons.join("")} ${base} (${enemy.dmgMin}–${enemy.dmgMax})`];
+  const fxMult = damageDealtMultiplier(enemy) * damageTakenMultiplier(state);
+  if (fxMult !== 1) calc.push(`×${fxMult.toFixed(2)} эффекты`);
+  const trait = traitDamageTaken(state, enemy.attackIcons);
+  if (trait !== 1) calc.push(`×${trait.toFixed(2)} уязвимость`);
+  const diff = DIFFICULTIES[state.difficulty].enemyDamage;
+  if (diff !== 1) calc.push(`×${diff} сложность`);
+  if (armor) calc.push(`− 🧱${armor}`);
+  const raw = Math.max(1, Math.round(base * fxMult * trait * diff) - armor);
+  const dmg = absorbWithShield(state, raw);
+  if (dmg < raw) calc.push(`− 🛡️щит ${raw - dmg}`);
+
+  state.hpCur = Math.max(0, state.hpCur - dmg);
+  const eff = rollOnHitEffect(rng, enemy.attackIcons);
+  const applied = eff && applyEffect(state, eff);
+  return `Ответ врага: попадание. ${head}\nУрон: ${calc.join(" ")} = ${dmg} | Ваше ❤️ ${state.hpCur}/${state.hpMax}${applied ? `\nНа вас: ${applied}` : ""}`;
+}
+
+/**
+ * Pays every defeated enemy's XP, money and loot at once. A party shares
+ * them: XP and money go evenly to every member, the one who struck last
+ * keeps what does not divide, and the trophies are dealt out in turn,
+ * starting with them.
+ */
+function winCombat(s: GameState, rng: Rng) {
+  const all = [s.enemy!, ...(s.pack ?? [])];
+  const xp = all.reduce((a, e) => a + (e.xp ?? NARRATED_XP), 0);
+  const money = all.reduce((a, e) => a + (e.money ?? 0), 0);
+  const members = s.party?.members.length ?? 1;
+  addLog(s, "system", `🏁 Победа над ${all.map(e => `«${e.name}»`).join(", ")}! ⭐ XP +${xp}${money ? ` | 💰 +${money} ${baseCurrency(s)}` : ""}${members > 1 ? ` — поровну на ${members}` : ""}`);
+  delete s.enemy;
+  delete s.pack;
+  delete s.flags.firstFightOfDay;
+  countKills(s, all);
+  factionKills(s, all);
+
+  const loot = all.flatMap(e => {
+    const rolled = (e.loot ?? []).filter(d => chanceCheck(rng) <= d.chance).map(d => ({ ...d.item }));
+    if (chanceCheck(rng) <= GEAR_DROP_CHANCE) rolled.push(rollLoot(s, e.level ?? s.level, rng));
+    return rolled.map(item => ({ item, from: e.name }));
+  });
+  const share = (total: number, i: number, n: number) => Math.floor(total / n) + (i === 0 ? total % n : 0);
+  eachMember(s, (i, n) => {
+    s.money += share(money, i, n);
+    const got = loot.filter((_, k) => k % n === i).filter(d => addItem(s, d.item, `трофей: ${d.from}`));
+    if (got.length) addLog(s, "system", `🎁 Трофеи${n > 1 ? ` — ${s.name}` : ""}: ${got.map(d => `${d.item.rarity} ${d.item.name}`).join(", ")}`);
+    gainXp(s, share(xp, i, n));
+  });
+}
+
+/**
+ * Closes a combat round: every enemy still standing strikes back, then all
+ * effects tick. A fallen target is replaced by the next one from the pack;
+ * the fight ends when the whole group or the hero is down. In a party the
+ * fallen are knocked out while anyone still stands, and the turn passes on.
+ */
+export function enemyTurn(s: GameState, guarded: boolean, rng: Rng) {
+  const enemy = s.enemy;
+  if (!enemy) return;
+
+  const alive = [enemy, ...(s.pack ?? [])].filter(e => e.hpCur > 0);
+  let killer = enemy;
+  for (const e of alive) {
+    if (s.hpCur <= 0) break;
+    killer = e;
+    const hpBefore = s.hpCur;
+    addLog(s, "system", `${alive.length > 1 ? `[${e.name}] ` : ""}${enemyAttack(s, e, guarded, rng)}`);
+    if (s.hpCur < hpBefore) wearDown(s, "armor");
+  }
+  if (alive.length && s.hpCur > 0) {
+    const lines = [...alive.flatMap(e => tickEffects(e, e.name)), ...tickEffects(s, "вы", 0, healingMultiplier(s))];
+    if (lines.length) addLog(s, "system", lines.join("\n"));
+  }
+
+  const next = (s.pack ?? []).findIndex(e => e.hpCur > 0);
+  if (enemy.hpCur <= 0 && next >= 0) {
+    const [target] = s.pack!.splice(next, 1);
+    s.pack!.push(enemy);
+    s.enemy = target;
+    addLog(s, "system", `«${enemy.name}» повержен. Следующий противник: «${target.name}» (❤️ ${target.hpCur}/${target.hpMax})`);
+  }
+
+  if (s.enemy!.hpCur <= 0) winCombat(s, rng);
+  else if (s.hpCur <= 0 && !knockOut(s, killer.name)) die(s, killer.name);
+  else passTurn(s);
+}
+
+/** One combat exchange: the player's action for choice 1–3, then the enemy's response. */
+export function combatRound(s: GameState, id: ChoiceId, rng: Rng) {
+  const enemy = s.enemy!;
+
+  if (id === "1") {
+    addLog(s, "system", playerAttack(s, enemy, rng).text);
+    wearDown(s, "weapon1");
+  } else if (id === "3") {
+    const idx = firstHealingItem(s);
+    addLog(s, "system", idx >= 0 ? consumeItem(s, String(idx + 1)).text : "✦ Нет зелья в рюкзаке");
+  } else {
+    addLog(s, "system", id === "2" ? "🛡 Осторожная стойка: враг попадает реже." : "◦ Вы действуете осторожно, выбирая позицию.");
+  }
+
+  enemyTurn(s, id === "2", rng);
+}
+
+/** Spell damage: its own range scaled by a stat, same weak/resist/defense rules as weapons. */
+function castSpell(state: GameState, enemy: Enemy, ab: AbilityDef, rng: Rng): { hit: boolean; text: string } {
+  const sp = ab.spell!;
+  const st = effectiveStats(state);
+  const parts = ["база 70", fmtMod(STAT_ICONS[sp.stat], (st[sp.stat] - 3) * 4), fmtMod("🌀", -enemy.evasion)];
+  let chance = 70 + (st[sp.stat] - 3) * 4 - enemy.evasion;
+  const fx = hitModifier(state);
+  if (fx) { chance += fx; parts.push(fmtMod("эффекты", fx)); }
+  chance = clamp(chance, 5, 95);
+
+  const roll = chanceCheck(rng);
+  const head = `Шанс ${chance}% (${parts.join(", ")}) | Проверка ${roll}/100`;
+  if (roll > chance) return { hit: false, text: `${ab.icon} ${ab.name}: мимо. ${head}` };
+
+  const scale = (st[sp.stat] - 3) * 2;
+  const base = rollRange(rng, sp.min, sp.max);
+  const calc = [`${sp.icons.join("")} ${base} (${sp.min}–${sp.max})`, fmtMod(STAT_ICONS[sp.stat], scale)];
+  let mult = damageDealtMultiplier(state) * damageTakenMultiplier(enemy);
+  if (enemy.weak && sp.icons.includes(enemy.weak)) { mult *= 1.5; calc.push(`×1.5 слабость ${enemy.weak}`); }
+  if (enemy.resist && sp.icons.includes(enemy.resist)) { mult *= 0.5; calc.push(`×0.5 сопротивление ${enemy.resist}`); }
+  if (enemy.defense) calc.push(`− 🧱${enemy.defense}`);
+  const raw = Math.max(1, Math.round((base + scale) * mult) - enemy.defense);
+  const dmg = absorbWithShield(enemy, raw);
+  if (dmg < raw) calc.push(`− 🛡️щит ${raw - dmg}`);
+  enemy.hpCur = Math.max(0, enemy.hpCur - dmg);
+  return { hit: true, text: `${ab.icon} ${ab.name}: попадание. ${head}\nУрон: ${calc.join(" ")} = ${dmg} | ❤️ HP врага: ${enemy.hpCur}/${enemy.hpMax}` };
+}
+
+/** A class ability as the hero's combat action: spends MP, resolves, then the enemy responds. */
+export function abilityRound(s: GameState, id: string, rng: Rng) {
+  const enemy = s.enemy;
+  const ab = abilityById(id);
+  if (!enemy) { addLog(s, "system", "Умения применяются в бою."); return; }
+  if (!ab || !s.abilities.includes(id)) { addLog(s, "system", "Такого умения вы не знаете."); return; }
+  if (s.mpCur < ab.mp) { addLog(s, "system", `🔷 Не хватает MP: ${ab.name} стоит ${ab.mp}, у вас ${s.mpCur}.`); return; }
+  if (ab.spell && hasWorldRule(s, "cityNoMagic") && s.location === safeHub(s)) { addLog(s, "system", `🚫 ${WORLD_RULES.cityNoMagic.name}: ${ab.name} здесь не сработает.`); return; }
+
+  s.mpCur -= ab.mp;
+  const lines = [`${ab.icon} ${ab.name} (−${ab.mp} MP → 🔷 ${s.mpCur}/${s.mpMax})`];
+  let hit = true;
+  if (ab.strike) {
+    const res = playerAttack(s, enemy, rng, { ...ab.strike, name: ab.name });
+    wearDown(s, "weapon1");
+    hit = res.hit;
+    lines.push(res.text);
+  } else if (ab.spell) {
+    const res = castSpell(s, enemy, ab, rng);
+    hit = res.hit;
+    lines.push(res.text);
+  }
+  if (ab.foe && hit) {
+    const applied = applyEffect(enemy, ab.foe);
+    if (applied) lines.push(`На враге: ${applied}`);
+  }
+  if (ab.self) {
+    const applied = applyEffect(s, ab.self);
+    if (applied) lines.push(`На вас: ${applied}`);
+  }
+  if (ab.heal) {
+    const heal = Math.round(ab.heal * healingMultiplier(s));
+    s.hpCur = clamp(s.hpCur + heal, 0, s.hpMax);
+    lines.push(`+${heal} HP → ❤️ ${s.hpCur}/${s.hpMax}`);
+  }
+  addLog(s, "system", lines.join("\n"));
+
+  enemyTurn(s, false, rng);
+}
+
+/** Chance (%) to break away from the fight: dexterity and luck help, every extra foe hinders. */
+export function fleeChance(state: GameState) {
+  const st = effectiveStats(state);
+  const others = (state.pack ?? []).filter(e => e.hpCur > 0).length;
+  const parts = ["база 40", fmtMod(STAT_ICONS.dex, (st.dex - 3) * 5), fmtMod(STAT_ICONS.luck, (st.luck - 3) * 2)];
+  let chance = 40 + (st.dex - 3) * 5 + (st.luck - 3) * 2;
+  if (others) { chance -= others * 10; parts.push(`ещё враги-${others * 10}`); }
+  const diff = DIFFICULTIES[state.difficulty].flee;
+  if (diff) { chance += diff; parts.push(fmtMod("сложность", diff)); }
+  return { chance: clamp(chance, 5, 95), parts };
+}
+
+/** Tries to run: on success the fight ends without rewards, otherwise the enemies get a free round. */
+export function flee(s: GameState, rng: Rng) {
+  if (!s.enemy) { addLog(s, "system", "Бежать не от кого."); return; }
+  const { chance, parts } = fleeChance(s);
+  const roll = chanceCheck(rng);
+  const head = `Шанс ${chance}% (${parts.join(", ")}) | Проверка ${roll}/100`;
+  if (roll <= chance) {
+    addLog(s, "system", `🏃 Вы вырываетесь из схватки и уходите. ${head}`);
+    delete s.enemy;
+    delete s.pack;
+    delete s.flags.firstFightOfDay;
+    return;
+  }
+  addLog(s, "system", `🏃 Сбежать не удалось. ${head}`);
+  enemyTurn(s, false, rng);
+}
@@ -0,0 +1,259 @@
+import { findAbility, knownAbilities } from "./abilities";
+import { resumeStory } from "./canon/story";
+import { abilityRound, enemyTurn, flee } from "./combat";
+import { fmtCustomWorld } from "./custom";
+import { universeTitle } from "./data";
+import { DIFFICULTIES, corpseLeft, fmtDeathRules, recoverCorpse } from "./difficulty";
+import { capacity, carriedWeight, effectiveStats, isOverloaded, runInventoryOp, usedSlots, type InventoryOp } from "./inventory";
+import { fmtGear } from "./loot";
+import { describeModifiers, heroModifiers } from "./modifiers";
+import { fmtReputation, npcsHere, runTalkOp, type TalkOp } from "./npcs";
+import { fmtParty } from "./party";
+import { QUESTS, findQuest, fmtQuest, fmtQuests } from "./quests";
+import { rest, type RestMode } from "./rest";
+import { merchantsFor, runTradeOp, type TradeOp } from "./shop";
+import type { GamePhase, GameState, Rng, Stats } from "./types";
+import { addLog } from "./util";
+import { fmtDurability, repair } from "./wear";
+import { fmtMap, routesFrom, travel } from "./world";
+
+/**
+ * What an argument refers to: it picks the autocomplete source. `count` is
+ * only ever the last argument and takes a trailing number off the input.
+ */
+export type ArgKind = "item" | "worn" | "slot" | "ability" | "quest" | "place" | "merchant" | "goods" | "npc" | "command" | "count";
+export type CommandArg = { name: string; kind: ArgKind; optional?: boolean };
+
+/** `args` holds the free-text argument first, then the count if the schema has one. */
+type CommandRun = (state: GameState, args: string[], rng: Rng) => void;
+
+/**
+ * A slash command. `aliases` include Latin spellings; `phases` limits where it
+ * works (everywhere when omitted); `group` and `help` feed the generated /помощь.
+ */
+export type CommandDef = { name: string; aliases: string[]; args: CommandArg[]; phases?: GamePhase[]; group: string; help: string; run: CommandRun };
+
+/** Suggestion for the input box: `value` replaces the whole input. */
+export type CommandSuggestion = { value: string; label: string; hint?: string };
+
+const PLAY: GamePhase[] = ["PLAY"];
+const MAX_SUGGESTIONS = 8;
+
+function fmtStats(base: Stats, eff: Stats) {
+  const one = (icon: string, k: keyof Stats) => `${icon} ${eff[k]}${eff[k] !== base[k] ? ` (${base[k]}${eff[k] > base[k] ? "+" : ""}${eff[k] - base[k]})` : ""}`;
+  return [one("💪", "str"), one("🎯", "dex"), one("🛡️", "end"), one("🧠", "int"), one("🗣️", "cha"), one("🍀", "luck")].join(" ");
+}
+
+/** Runs an inventory operation; equipping or using something mid-fight costs the turn. */
+export function inventoryStep(s: GameState, op: InventoryOp, ref: string, rng: Rng, qty?: number) {
+  const res = runInventoryOp(s, op, ref, qty);
+  addLog(s, "system", res.text);
+  if (res.ok && s.enemy && op !== "drop") enemyTurn(s, false, rng);
+}
+
+const count = (args: string[]) => (args[1] ? Number(args[1]) : undefined);
+
+const inventoryCommand = (op: InventoryOp): CommandRun => (state, args, rng) => inventoryStep(state, op, args[0], rng, count(args));
+const restCommand = (mode: RestMode): CommandRun => (state, _args, rng) => rest(state, mode, rng);
+const tradeCommand = (op: TradeOp): CommandRun => (state, args, rng) => runTradeOp(state, op, args[0] ?? "", rng, count(args));
+const talkCommand = (op: TalkOp): CommandRun => (state, args) => runTalkOp(state, op, args[0] ?? "");
+
+export const COMMANDS: CommandDef[] = [
+  {
+    name: "/помощь", aliases: ["/help", "/h", "/?"], args: [{ name: "команда", kind: "command", optional: true }], group: "Общее",
+    help: "список команд или подробности об одной",
+    run: (state, args) => {
+      if (!args[0]) { addLog(state, "system", fmtHelp(state)); return; }
+      const def = findCommand(args[0].startsWith("/") ? args[0] : `/${args[0]}`);
+      addLog(state, "system", def ? fmtCommandHelp(def) : `Нет команды «${args[0]}». /помощь`);
+    },
+  },
+  {
+    name: "/настройки", aliases: ["/settings"], args: [], group: "Общее",
+    help: "износ, сложность и вселенная",
+    run: state => addLog(state, "system", `Износ: ${state.wear === "ON" ? "✅ ВКЛ" : "❌ ВЫКЛ"}\nСложность: ${DIFFICULTIES[state.difficulty].name} — ${fmtDeathRules(state)}\nВселенная: ${universeTitle(state)}${state.customWorld ? `\n${fmtCustomWorld(state.customWorld)}` : ""}`),
+  },
+  {
+    name: "/статы", aliases: ["/stats", "/st"], args: [], group: "Персонаж",
+    help: "характеристики с учётом снаряжения и черты",
+    run: state => {
+      const traits = heroModifiers(state);
+      addLog(state, "system", `${fmtStats(state.stats, effectiveStats(state))}${traits.length ? `\nЧерты: ${describeModifiers(traits)}` : ""}`);
+    },
+  },
+  {
+    name: "/экип", aliases: ["/gear", "/eq"], args: [], group: "Персонаж",
+    help: "надетое снаряжение и его прочность",
+    run: state => {
+      const eq = state.equipped;
+      const acc = eq.accessories.length ? eq.accessories.map(a => `${a.rarity} ${a.name}`).join(", ") : "—";
+      addLog(state, "system", `Оружие: ${eq.weapon1?.rarity ?? ""} ${eq.weapon1?.name ?? "—"}${fmtDurability(state, eq.weapon1)}\nБроня: ${eq.armor?.rarity ?? ""} ${eq.armor?.name ?? "—"}${fmtDurability(state, eq.armor)}\nАксессуары: ${acc}`);
+    },
+  },
+  {
+    name: "/инвентарь", aliases: ["/инв", "/inv", "/i"], args: [], group: "Персонаж",
+    help: "рюкзак: слоты, вес и предметы по номерам",
+    run: state => {
+      const cap = capacity(state);
+      const head = `🎒 слоты ${usedSlots(state)}/${cap.slots} | вес ${carriedWeight(state).toFixed(1)}/${cap.weight} кг${isOverloaded(state) ? " | ⚖️ перегруз (🎯-2)" : ""}`;
+      if (!state.backpack.length) addLog(state, "system", `${head}\nРюкзак пуст.`);
+      else addLog(state, "system", [head, ...state.backpack.map((it, i) => `${i + 1}. ${it.rarity} ${it.name}${it.qty !== undefined ? ` x${it.qty}` : ""} (${it.weight}кг, слоты ${it.slots})${fmtGear(it) ? ` — ${fmtGear(it)}` : ""}`)].join("\n"));
+    },
+  },
+  {
+    name: "/умения", aliases: ["/skills"], args: [], group: "Персонаж",
+    help: "известные умения",
+    run: state => {
+      const list = knownAbilities(state);
+      addLog(state, "system", list.length ? ["Умения:", ...list.map((a, i) => `${i + 1}. ${a.icon} ${a.name} — ${a.mp} MP: ${a.desc}`)].join("\n") : "Умений пока нет.");
+    },
+  },
+  {
+    name: "/квесты", aliases: ["/quests", "/q"], args: [{ name: "задание", kind: "quest", optional: true }], group: "Персонаж",
+    help: "задания; с названием — этапы и награда",
+    run: (state, args) => {
+      if (!args[0]) { addLog(state, "system", fmtQuests(state)); return; }
+      const q = findQuest(state, args[0]);
+      addLog(state, "system", q ? fmtQuest(state, q) : `Нет задания «${args[0]}».`);
+    },
+  },
+  { name: "/отряд", aliases: ["/party", "/p"], args: [], group: "Персонаж", help: "участники отряда, лидер и голоса", run: state => addLog(state, "system", fmtParty(state)) },
+  {
+    name: "/умение", aliases: ["/skill", "/cast"], args: [{ name: "умение", kind: "ability" }], phases: PLAY, group: "Бой",
+    help: "применить умение (номер из /умения или название)",
+    run: (state, args, rng) => {
+      const ab = findAbility(state, args[0]);
+      if (!ab) addLog(state, "system", `Нет умения «${args[0]}». Список — /умения`);
+      else abilityRound(state, ab.id, rng);
+    },
+  },
+  { name: "/бежать", aliases: ["/flee", "/run"], args: [], phases: PLAY, group: "Бой", help: "попытаться выйти из боя", run: (state, _args, rng) => flee(state, rng) },
+  { name: "/надеть", aliases: ["/equip", "/wear"], args: [{ name: "предмет", kind: "item" }], phases: PLAY, group: "Предметы", help: "надеть предмет из рюкзака", run: inventoryCommand("equip") },
+  { name: "/снять", aliases: ["/unequip", "/remove"], args: [{ name: "оружие|броня|предмет", kind: "worn" }], phases: PLAY, group: "Предметы", help: "снять снаряжение в рюкзак", run: inventoryCommand("unequip") },
+  { name: "/выбросить", aliases: ["/drop"], args: [{ name: "предмет", kind: "item" }, { name: "кол-во", kind: "count", optional: true }], phases: PLAY, group: "Предметы", help: "выбросить предмет", run: inventoryCommand("drop") },
+  { name: "/использовать", aliases: ["/use"], args: [{ name: "предмет", kind: "item" }], phases: PLAY, group: "Предметы", help: "выпить зелье или применить расходник", run: inventoryCommand("use") },
+  {
+    name: "/ремонт", aliases: ["/repair"], args: [{ name: "оружие|броня", kind: "slot", optional: true }], phases: PLAY, group: "Предметы",
+    help: "починить снаряжение (без аргумента — всё)",
+    run: (state, args) => repair(state, /^оруж/i.test(args[0] ?? "") ? "weapon" : /^брон/i.test(args[0] ?? "") ? "armor" : "all"),
+  },
+  { name: "/карта", aliases: ["/map", "/m"], args: [], phases: PLAY, group: "Путь", help: "соседние места, время в пути и риск засады", run: state => addLog(state, "system", fmtMap(state)) },
+  { name: "/идти", aliases: ["/go", "/travel"], args: [{ name: "место", kind: "place" }], phases: PLAY, group: "Путь", help: "отправиться в соседнее место (номер из /карта или название)", run: (state, args, rng) => travel(state, args[0], rng) },
+  {
+    name: "/тело", aliases: ["/corpse"], args: [], phases: PLAY, group: "Путь",
+    help: "забрать вещи с места гибели",
+    run: state => {
+      const c = corpseLeft(state);
+      if (!recoverCorpse(state)) addLog(state, "system", c ? `⚰️ Ваше тело с вещами: ${c.location}, до конца дня ${c.expires}. Доберитесь туда — /карта` : "Забирать нечего: тела с вещами нет.");
+    },
+  },
+  { name: "/сюжет", aliases: ["/story"], args: [], phases: PLAY, group: "Путь", help: "где сейчас сюжет канона (режим A); на месте главы — вернуться в её сцену", run: state => resumeStory(state) },
+  { name: "/отдых", aliases: ["/rest"], args: [], phases: PLAY, group: "Время", help: "передохнуть 2 ч", run: restCommand("rest") },
+  { name: "/сон", aliases: ["/sleep"], args: [], phases: PLAY, group: "Время", help: "спать до утра", run: restCommand("sleep") },
+  { name: "/ждать", aliases: ["/wait"], args: [], phases: PLAY, group: "Время", help: "ждать утра", run: restCommand("wait") },
+  { name: "/лавка", aliases: ["/shop"], args: [{ name: "торговец", kind: "merchant", optional: true }], phases: PLAY, group: "Торговля", help: "открыть лавку (в безопасной точке)", run: tradeCommand("open") },
+  { name: "/купить", aliases: ["/buy"], args: [{ name: "товар", kind: "goods" }], phases: PLAY, group: "Торговля", help: "купить товар из открытой лавки", run: tradeCommand("buy") },
+  { name: "/продать", aliases: ["/sell"], args: [{ name: "предмет", kind: "item" }, { name: "кол-во", kind: "count", optional: true }], phases: PLAY, group: "Торговля", help: "продать предмет из рюкзака", run: tradeCommand("sell") },
+  { name: "/торговаться", aliases: ["/haggle"], args: [], phases: PLAY, group: "Торговля", help: "сбить цену (раз в день у каждого торговца)", run: tradeCommand("haggle") },
+  { name: "/уйти", aliases: ["/leave"], args: [], phases: PLAY, group: "Торговля", help: "закрыть лавку", run: tradeCommand("close") },
+  { name: "/говорить", aliases: ["/talk"], args: [{ name: "собеседник", kind: "npc", optional: true }], phases: PLAY, group: "Люди", help: "заговорить с кем-то в безопасной точке (без имени — кто здесь есть)", run: talkCommand("open") },
+  { name: "/прощай", aliases: ["/bye"], args: [], phases: PLAY, group: "Люди", help: "закончить разговор", run: talkCommand("close") },
+  { name: "/репутация", aliases: ["/rep", "/фракции"], args: [], group: "Люди", help: "отношение фракций и знакомых", run: state => addLog(state, "system", fmtReputation(state)) },
+];
+
+/** Command by its name or any alias, case-insensitive. */
+export function findCommand(word: string) {
+  const w = word.toLowerCase();
+  return COMMANDS.find(c => c.name === w || c.aliases.includes(w));
+}
+
+export const commandAvailable = (state: GameState, def: CommandDef) => !def.phases || def.phases.includes(state.phase);
+
+export const commandUsage = (def: CommandDef) => [def.name, ...def.args.map(a => (a.optional ? `[${a.name}]` : `<${a.name}>`))].join(" ");
+
+export function fmtCommandHelp(def: CommandDef) {
+  return `${commandUsage(def)} — ${def.help}${def.aliases.length ? `\nСинонимы: ${def.aliases.join(" ")}` : ""}${def.phases ? "\nДоступна во время игры." : ""}`;
+}
+
+/** Help generated from the registry, grouped, with the commands that work right now. */
+export function fmtHelp(state: GameState) {
+  const groups = [...new Set(COMMANDS.map(c => c.group))];
+  const lines = groups.map(g => `${g}: ${COMMANDS.filter(c => c.group === g && commandAvailable(state, c)).map(commandUsage).join(" · ")}`).filter(l => !l.endsWith(": "));
+  return [...lines, "Предмет, умение или место — номер из списка или название. Подробнее: /помощь <команда>"].join("\n");
+}
+
+/**
+ * Splits the words after the command by its schema: a trailing number goes to
+ * a `count` argument, everything else is the free-text argument.
+ */
+/** Splits the words after a command into its arguments; a trailing number is the count when the command takes one. */
+export function parseArgs(def: CommandDef, words: string[]): string[] {
+  const hasCount = def.args.some(a => a.kind === "count");
+  const rest = [...words];
+  const n = hasCount && rest.length > 1 && /^\d+$/.test(rest[rest.length - 1]) ? rest.pop() : undefined;
+  const text = rest.join(" ");
+  return n ? [text, n] : text ? [text] : [];
+}
+
+/** Handles a slash command in place. Returns false when the input is not a command. */
+export function runCommand(state: GameState, input: string, rng: Rng) {
+  const cmd = input.trim();
+  if (!cmd.startsWith("/")) return false;
+
+  addLog(state, "player", cmd);
+  const [name, ...words] = cmd.split(/\s+/);
+  const def = findCommand(name);
+  if (!def) { addLog(state, "system", `Неизвестная команда ${name}. /помощь`); return true; }
+  if (!commandAvailable(state, def)) { addLog(state, "system", `Команда ${def.name} доступна после создания персонажа.`); return true; }
+
+  const args = parseArgs(def, words);
+  const missing = def.args.find((a, i) => !a.optional && !args[i]);
+  if (missing) { addLog(state, "system", `Укажите ${missing.name}: ${commandUsage(def)}`); return true; }
+  def.run(state, args, rng);
+  return true;
+}
+
+function argOptions(state: GameState, kind: ArgKind): string[] {
+  const eq = state.equipped;
+  switch (kind) {
+    case "item": return state.backpack.map(it => it.name);
+    case "worn": return [eq.weapon1?.name, eq.armor?.name, ...eq.accessories.map(a => a.name)].filter((n): n is string => !!n);
+    case "slot": return ["оружие", "броня"];
+    case "ability": return knownAbilities(state).map(a => a.name);
+    case "quest": return state.quests.map(q => QUESTS[q.id]?.title).filter((n): n is string => !!n);
+    case "place": return routesFrom(state).map(r => r.to);
+    case "merchant": return merchantsFor(state.universe).map(m => m.name);
+    case "goods": return state.trade ? (state.shops[state.trade]?.stock ?? []).map(it => it.name) : [];
+    case "npc": return npcsHere(state).map(n => n.name);
+    case "command": return COMMANDS.filter(c => commandAvailable(state, c)).map(c => c.name.slice(1));
+    case "count": return [];
+  }
+}
+
+/**
+ * Autocomplete for the input box: command names (and aliases) while the
+ * first word is typed, then values for the command's first argument.
+ */
+export function suggestInput(state: GameState, input: string): CommandSuggestion[] {
+  if (!input.startsWith("/")) return [];
+  const space = input.search(/\s/);
+
+  if (space < 0) {
+    const w = input.toLowerCase();
+    return COMMANDS
+      .filter(c => commandAvailable(state, c))
+      .map(c => ({ c, alias: c.name.startsWith(w) ? undefined : c.aliases.find(a => a.startsWith(w)) }))
+      .filter(({ c, alias }) => c.name.startsWith(w) || alias)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ c, alias }) => ({ value: c.args.length ? `${c.name} ` : c.name, label: alias ? `${alias} → ${commandUsage(c)}` : commandUsage(c), hint: c.help }));
+  }
+
+  const def = findCommand(input.slice(0, space));
+  const arg = def?.args[0];
+  if (!def || !arg || !commandAvailable(state, def)) return [];
+  const typed = input.slice(space).trim().toLowerCase();
+  return [...new Set(argOptions(state, arg.kind))]
+    .filter(o => o.toLowerCase().includes(typed) && o.toLowerCase() !== typed)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(o => ({ value: `${def.name} ${o}`, label: o, hint: arg.name }));
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+
+import { CANON_PACK_FILES, CANON_PACKS, loadCanonPack } from "./canon";
+import { NPCS } from "./npcs";
+import { sceneGraphFor, validateDialogue, validateSceneGraph } from "./scenes";
+import type { Universe } from "./types";
+
+const UNIVERSES: Universe[] = ["CLASSIC_FANTASY", "DARK_FANTASY", "ANIME_ISEKAI", "CANON", "CUSTOM"];
+
+describe("built-in content", () => {
+  it.each(UNIVERSES)("the %s scene graph has no dangling links or unreachable scenes", universe => {
+    expect(validateSceneGraph(sceneGraphFor({ universe })).map(i => i.message)).toEqual([]);
+  });
+
+  it.each(Object.values(NPCS).map(npc => [npc.name, npc] as const))("the dialogue of %s is consistent", (_, npc) => {
+    expect(validateDialogue(npc).map(i => i.message)).toEqual([]);
+  });
+
+  it.each(Object.entries(CANON_PACK_FILES))("the canon pack %s loads", (_, raw) => {
+    const res = loadCanonPack(raw);
+    expect(res.ok ? [] : res.errors).toEqual([]);
+  });
+
+  it("installs every pack file", () => {
+    expect(CANON_PACKS).toHaveLength(Object.keys(CANON_PACK_FILES).length);
+  });
+});
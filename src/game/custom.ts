@@ -0,0 +1,110 @@
+import { CLASSES, RACES, WORLD_LEVELS, WORLD_RULES, baseCurrency, safeHub } from "./data";
+import type { SaveStorage } from "./saves";
+import type { CustomWorld, WorldLevel, WorldRule } from "./types";
+import { worldMapFor } from "./world";
+
+const MAX_TITLE = 40;
+const MAX_CURRENCY = 24;
+
+/** Where the builder starts: the generic custom universe with everyone allowed and no rules. */
+export const DEFAULT_CUSTOM_WORLD: CustomWorld = {
+  title: "",
+  currency: baseCurrency({ universe: "CUSTOM" }),
+  hub: safeHub({ universe: "CUSTOM" }),
+  races: RACES.map(r => r.id),
+  classes: CLASSES.map(c => c.id),
+  level: "FANTASY",
+  rules: [],
+};
+
+export type CustomWorldResult = { ok: true; world: CustomWorld } | { ok: false; errors: string[] };
+
+type Raw = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Raw => !!v && typeof v === "object" && !Array.isArray(v);
+const isLevel = (v: unknown): v is WorldLevel => typeof v === "string" && Object.keys(WORLD_LEVELS).includes(v);
+const isRule = (v: unknown): v is WorldRule => typeof v === "string" && Object.keys(WORLD_RULES).includes(v);
+
+/**
+ * Checks a built universe, whether it comes from the builder, an action or a
+ * stored preset. Every problem names its field, e.g. `hub: нужна непустая строка`.
+ */
+export function loadCustomWorld(raw: unknown): CustomWorldResult {
+  if (!isObj(raw)) return { ok: false, errors: ["вселенная должна быть объектом"] };
+  const errors: string[] = [];
+
+  const name = (key: "title" | "currency" | "hub", max: number) => {
+    const field = raw[key];
+    const v = typeof field === "string" ? field.trim() : "";
+    if (!v) errors.push(`${key}: нужна непустая строка`);
+    else if (v.length > max) errors.push(`${key}: не длиннее ${max} символов`);
+    return v;
+  };
+  const ids = (key: "races" | "classes", known: { id: string }[]) => {
+    const field = raw[key];
+    if (!Array.isArray(field)) { errors.push(`${key}: нужен массив id`); return []; }
+    const list: unknown[] = field;
+    for (const id of list) if (!known.some(k => k.id === id)) errors.push(`${key}: нет такого id "${String(id)}"`);
+    const out = known.map(k => k.id).filter(id => list.includes(id));
+    if (!out.length) errors.push(`${key}: нужен хотя бы один вариант`);
+    return out;
+  };
+
+  const title = name("title", MAX_TITLE);
+  const currency = name("currency", MAX_CURRENCY);
+  const hub = name("hub", MAX_TITLE);
+  const generic = safeHub({ universe: "CUSTOM" });
+  if (hub && hub !== generic && worldMapFor({ universe: "CUSTOM" }).locations.some(l => l.name === hub)) errors.push(`hub: «${hub}» уже есть на карте`);
+  const races = ids("races", RACES);
+  const classes = ids("classes", CLASSES);
+  const level = isLevel(raw.level) ? raw.level : null;
+  if (!level) errors.push(`level: один из ${Object.keys(WORLD_LEVELS).join(", ")}`);
+  const list: unknown[] = Array.isArray(raw.rules) ? raw.rules : [];
+  if (!Array.isArray(raw.rules)) errors.push("rules: нужен массив");
+  for (const r of list) if (!isRule(r)) errors.push(`rules: нет правила "${String(r)}"`);
+  const rules = list.filter(isRule);
+
+  if (errors.length || !level) return { ok: false, errors };
+  return { ok: true, world: { title, currency, hub, races, classes, level, rules: [...new Set(rules)] } };
+}
+
+/** One paragraph about a built universe: for the log, /настройки and the narrator. */
+export function fmtCustomWorld(w: CustomWorld) {
+  const level = WORLD_LEVELS[w.level];
+  const rules = w.rules.map(r => WORLD_RULES[r].name);
+  return `🌍 ${w.title}: ${level.name} — ${level.desc}. Валюта: ${w.currency}, безопасная точка: ${w.hub}. Рас: ${w.races.length}/${RACES.length}, классов: ${w.classes.length}/${CLASSES.length}.${rules.length ? ` Правила: ${rules.join("; ")}.` : ""}`;
+}
+
+/** A built universe kept for reuse, with the free-text rules that went with it; the title is its key. */
+export type WorldPreset = { world: CustomWorld; notes: string; savedAt: number };
+
+const PRESETS_KEY = "rpg_chat_worlds_v1";
+
+const presetTitle = (p: unknown) => (isObj(p) && isObj(p.world) ? p.world.title : undefined);
+
+function readPresets(storage: SaveStorage): unknown[] {
+  try {
+    const list = JSON.parse(storage.getItem(PRESETS_KEY) ?? "[]");
+    return Array.isArray(list) ? list : [];
+  } catch { return []; }
+}
+
+/** Saved universes, newest first; one that no longer passes the checks is left out. */
+export function listWorldPresets(storage: SaveStorage): WorldPreset[] {
+  return readPresets(storage)
+    .flatMap(p => {
+      if (!isObj(p)) return [];
+      const res = loadCustomWorld(p.world);
+      return res.ok ? [{ world: res.world, notes: typeof p.notes === "string" ? p.notes : "", savedAt: Number(p.savedAt) || 0 }] : [];
+    })
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/** Saves a preset, replacing the one with the same title. */
+export function writeWorldPreset(storage: SaveStorage, preset: WorldPreset) {
+  storage.setItem(PRESETS_KEY, JSON.stringify([...readPresets(storage).filter(p => presetTitle(p) !== preset.world.title), preset]));
+}
+
+export function deleteWorldPreset(storage: SaveStorage, title: string) {
+  storage.setItem(PRESETS_KEY, JSON.stringify(readPresets(storage).filter(p => presetTitle(p) !== title)));
+}
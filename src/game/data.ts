@@ -0,0 +1,122 @@
+import type { TraitOverride } from "./canon/types";
+import type { BackgroundDef, ClassDef, DamageIcon, GameState, Modifier, RaceDef, Stats, Universe, WorldLevel, WorldRule } from "./types";
+
+export const STAT_ICONS: Record<keyof Stats, string> = { str: "💪", dex: "🎯", end: "🛡️", int: "🧠", cha: "🗣️", luck: "🍀" };
+
+export const DAMAGE_ICONS: DamageIcon[] = ["🗡️", "🪓", "🪛", "🏹", "🔫", "💥", "🧲", "🔥", "❄️", "⚡", "🌪️", "🌍", "💧", "☀️", "🌑", "🧪"];
+export const isDamageIcon = (v: unknown): v is DamageIcon => DAMAGE_ICONS.some(d => d === v);
+
+export function baseUniverseTitle(u: Universe | null, canonTitle?: string) {
+  if (!u) return "—";
+  if (u === "CLASSIC_FANTASY") return "Классическое фэнтези";
+  if (u === "DARK_FANTASY") return "Тёмное фэнтези";
+  if (u === "ANIME_ISEKAI") return "Аниме-исэкай";
+  if (u === "CANON") return `Канон: ${canonTitle ?? "без названия"}`;
+  return "Своя вселенная";
+}
+
+/** The universe's title with the canon's or the built universe's own name. */
+export function universeTitle(state: Pick<GameState, "universe" | "canonTitle" | "customWorld">) {
+  if (state.universe === "CUSTOM" && state.customWorld) return `Своя вселенная: ${state.customWorld.title}`;
+  return baseUniverseTitle(state.universe, state.canonTitle);
+}
+
+/** What the universe lookups read: the universe and, in a canon, its installed pack or, in a custom one, the built universe. */
+export type WorldRef = Pick<GameState, "universe" | "canonPack" | "customWorld">;
+
+export function baseCurrency({ universe: u, canonPack, customWorld }: WorldRef) {
+  if (canonPack) return canonPack.currency;
+  if (customWorld) return customWorld.currency;
+  if (!u) return "¤";
+  if (u === "CLASSIC_FANTASY") return "⛁ золото";
+  if (u === "DARK_FANTASY") return "⛁ кроны";
+  if (u === "ANIME_ISEKAI") return "✦ кредиты гильдий";
+  return "¤ валюта";
+}
+
+export function safeHub({ universe: u, canonPack, customWorld }: WorldRef) {
+  if (canonPack) return canonPack.hub;
+  if (customWorld) return customWorld.hub;
+  if (!u) return "—";
+  if (u === "CLASSIC_FANTASY") return "Трактир «Три Факела»";
+  if (u === "DARK_FANTASY") return "Постоялый двор «Глухой Колокол»";
+  if (u === "ANIME_ISEKAI") return "Гильдия «Седьмой Клинок»";
+  return "Безопасная точка";
+}
+
+export const RACES: RaceDef[] = [
+  { id: "r1", name: "Человек", desc: "Гибкий старт и связи", bonuses: { cha: 1, luck: 1 }, weakness: [{ kind: "check", tag: "magic", value: -5 }], worldImpact: [{ kind: "check", tag: "talk", value: 5 }] },
+  { id: "r2", name: "Эльф", desc: "Точность и слух", bonuses: { dex: 2, int: 1 }, weakness: [{ kind: "heavyArmor", value: 10 }], worldImpact: [{ kind: "reputation", faction: "mages", value: 20 }] },
+  { id: "r3", name: "Дворф", desc: "Стойкость и ремесло", bonuses: { end: 2, str: 1 }, weakness: [{ kind: "evasion", value: -5 }], worldImpact: [{ kind: "price", scope: "repair", pct: 15 }] },
+  { id: "r4", name: "Полуорк", desc: "Сила и нажим", bonuses: { str: 3 }, weakness: [{ kind: "stat", stat: "cha", value: -1 }], worldImpact: [{ kind: "reputation", faction: "town", value: -10 }] },
+  { id: "r5", name: "Тифлинг", desc: "Тьма и сделки", bonuses: { int: 2, cha: 1 }, weakness: [{ kind: "damageTaken", icon: "☀️", pct: 20 }], worldImpact: [{ kind: "reputation", faction: "cults", value: 20 }] },
+  { id: "r6", name: "Гном", desc: "Инженерия и ловушки", bonuses: { int: 2, dex: 1 }, weakness: [{ kind: "stat", stat: "str", value: -1 }], worldImpact: [{ kind: "check", tag: "mechanism", value: 10 }] },
+  { id: "r7", name: "Халфлинг", desc: "Удача и скрытность", bonuses: { luck: 2, dex: 1 }, weakness: [{ kind: "stat", stat: "end", value: -1 }], worldImpact: [{ kind: "check", tag: "ambush", value: 10 }] },
+  { id: "r8", name: "Зверолюд", desc: "Инстинкт и рывок", bonuses: { dex: 2, end: 1 }, weakness: [{ kind: "stat", stat: "cha", value: -1 }], worldImpact: [{ kind: "check", tag: "tracking", value: 10 }] },
+  { id: "r9", name: "Астральный странник", desc: "Мана и видение", bonuses: { int: 3 }, weakness: [{ kind: "stat", stat: "end", value: -1 }], worldImpact: [{ kind: "check", tag: "magic", value: 10 }] },
+  { id: "r10", name: "Синтетик", desc: "Броня и стабильность", bonuses: { end: 2, str: 1 }, weakness: [{ kind: "mpRegen", pct: -20 }], worldImpact: [{ kind: "price", scope: "trade", pct: 10 }] },
+  { id: "r11", name: "Нежить", desc: "Проклятая стойкость", bonuses: { end: 2, int: 1 }, weakness: [{ kind: "healing", pct: -20 }], worldImpact: [{ kind: "reputation", faction: "hunters", value: -30 }] },
+  { id: "r12", name: "Драконорожденный", desc: "Стихии и сила", bonuses: { str: 2, end: 1 }, weakness: [{ kind: "damageTaken", icon: "🧪", pct: 20 }], worldImpact: [{ kind: "reputation", faction: "hunters", value: 10 }] },
+  { id: "r13", name: "Фейри", desc: "Чары и лёгкость", bonuses: { dex: 2, cha: 1 }, weakness: [{ kind: "damageTaken", icon: "🧲", pct: 20 }], worldImpact: [{ kind: "check", tag: "talk", value: 10 }] },
+  { id: "r14", name: "Пустотник", desc: "Тьма и метка", bonuses: { luck: 1, int: 2 }, weakness: [{ kind: "damageTaken", icon: "☀️", pct: 20 }], worldImpact: [{ kind: "hints" }] },
+  { id: "r15", name: "Кибер-адапт", desc: "Импланты и скорость", bonuses: { dex: 2, int: 1 }, weakness: [{ kind: "damageTaken", icon: "🧲", pct: 20 }], worldImpact: [{ kind: "check", tag: "mechanism", value: 10 }] },
+];
+
+export const CLASSES: ClassDef[] = [
+  { id: "c1", name: "Воин", desc: "Надёжный ближний бой", bonuses: { str: 2, end: 1 }, weakness: [{ kind: "stat", stat: "int", value: -1 }], worldImpact: [{ kind: "reputation", faction: "hunters", value: 15 }] },
+  { id: "c2", name: "Разбойник", desc: "Скрытность и крит", bonuses: { dex: 2, luck: 1 }, weakness: [{ kind: "stat", stat: "end", value: -1 }], worldImpact: [{ kind: "price", scope: "trade", pct: 10 }, { kind: "check", tag: "stealth", value: 10 }] },
+  { id: "c3", name: "Маг", desc: "Контроль и урон", bonuses: { int: 3 }, weakness: [{ kind: "stat", stat: "end", value: -1 }], worldImpact: [{ kind: "reputation", faction: "mages", value: 15 }, { kind: "check", tag: "magic", value: 10 }] },
+  { id: "c4", name: "Паладин", desc: "Щиты и свет", bonuses: { end: 2, cha: 1 }, weakness: [{ kind: "stat", stat: "luck", value: -1 }], worldImpact: [{ kind: "reputation", faction: "town", value: 15 }] },
+  { id: "c5", name: "Охотник", desc: "Дальний бой", bonuses: { dex: 2, end: 1 }, weakness: [{ kind: "stat", stat: "cha", value: -1 }], worldImpact: [{ kind: "check", tag: "tracking", value: 10 }] },
+  { id: "c6", name: "Берсерк", desc: "Взрывной урон", bonuses: { str: 3 }, weakness: [{ kind: "stat", stat: "cha", value: -1 }], worldImpact: [{ kind: "reputation", faction: "town", value: -10 }] },
+  { id: "c7", name: "Алхимик", desc: "Зелья и баффы", bonuses: { int: 2, luck: 1 }, weakness: [{ kind: "stat", stat: "str", value: -1 }], worldImpact: [{ kind: "healing", pct: 20 }] },
+  { id: "c8", name: "Инквизитор", desc: "Метки и контр-магия", bonuses: { cha: 2, int: 1 }, weakness: [{ kind: "stat", stat: "dex", value: -1 }], worldImpact: [{ kind: "reputation", faction: "cults", value: -30 }] },
+  { id: "c9", name: "Техник", desc: "Гаджеты и модули", bonuses: { int: 2, dex: 1 }, weakness: [{ kind: "stat", stat: "cha", value: -1 }], worldImpact: [{ kind: "check", tag: "mechanism", value: 10 }] },
+  { id: "c10", name: "Дуелянт", desc: "Контратаки", bonuses: { dex: 2, cha: 1 }, weakness: [{ kind: "stat", stat: "end", value: -1 }], worldImpact: [{ kind: "dailyCheck", value: 10 }] },
+  { id: "c11", name: "Шаман", desc: "Духи и стихии", bonuses: { int: 2, end: 1 }, weakness: [{ kind: "stat", stat: "cha", value: -1 }], worldImpact: [{ kind: "hints" }] },
+  { id: "c12", name: "Некромант", desc: "Тьма и контроль", bonuses: { int: 2, luck: 1 }, weakness: [{ kind: "damageTaken", icon: "☀️", pct: 20 }], worldImpact: [{ kind: "reputation", faction: "hunters", value: -30 }] },
+  { id: "c13", name: "Монах", desc: "Уклонение", bonuses: { dex: 2, end: 1 }, weakness: [{ kind: "stat", stat: "int", value: -1 }], worldImpact: [{ kind: "evasion", value: 5 }] },
+  { id: "c14", name: "Бард", desc: "Баффы и торг", bonuses: { cha: 3 }, weakness: [{ kind: "stat", stat: "str", value: -1 }], worldImpact: [{ kind: "reputation", faction: "town", value: 10 }, { kind: "check", tag: "talk", value: 5 }] },
+  { id: "c15", name: "Страж", desc: "Танк и стойка", bonuses: { end: 3 }, weakness: [{ kind: "stat", stat: "dex", value: -1 }], worldImpact: [{ kind: "reputation", faction: "town", value: 15 }] },
+];
+
+export const BACKGROUNDS: BackgroundDef[] = [
+  { id: "b1", name: "Сирота дорог", desc: "Выживание на трактах", bonus: { luck: 1 }, perk: [{ kind: "dailyCheck", value: 10 }] },
+  { id: "b2", name: "Ученик мастера", desc: "Ремесло и железо", bonus: { end: 1 }, perk: [{ kind: "price", scope: "repair", pct: 5 }] },
+  { id: "b3", name: "Бывший страж", desc: "Дисциплина", bonus: { str: 1 }, perk: [{ kind: "firstFightDefense", value: 1 }] },
+  { id: "b4", name: "Книжник", desc: "Знаки и тексты", bonus: { int: 1 }, perk: [{ kind: "hints" }] },
+  { id: "b5", name: "Шулер", desc: "Читаете людей", bonus: { cha: 1 }, perk: [{ kind: "price", scope: "trade", pct: 5 }] },
+  { id: "b6", name: "Трофейщик", desc: "Следы и добыча", bonus: { dex: 1 }, perk: [{ kind: "rareLoot", value: 1 }] },
+];
+
+function withOverrides<T extends { id: string; name: string; desc: string }>(list: T[], overrides: Record<string, TraitOverride> = {}): T[] {
+  return list
+    .filter(x => !overrides[x.id]?.hidden)
+    .map(x => (overrides[x.id] ? { ...x, name: overrides[x.id].name ?? x.name, desc: overrides[x.id].desc ?? x.desc } : x));
+}
+
+const enabledIn = <T extends { id: string }>(list: T[], ids?: string[]) => (ids ? list.filter(x => ids.includes(x.id)) : list);
+
+/** Races on offer: a canon renames or hides some of them, a built universe enables only its own. */
+export const racesFor = (w: WorldRef) => enabledIn(withOverrides(RACES, w.canonPack?.races), w.customWorld?.races);
+export const classesFor = (w: WorldRef) => enabledIn(withOverrides(CLASSES, w.canonPack?.classes), w.customWorld?.classes);
+
+/** Levels of a built universe; `mods` apply to every hero in it, like traits. */
+export const WORLD_LEVELS: Record<WorldLevel, { name: string; desc: string; mods: Modifier[] }> = {
+  MYTHIC: { name: "Миф", desc: "магия повсюду, механизмов почти нет", mods: [{ kind: "check", tag: "magic", value: 10 }, { kind: "mpRegen", pct: 25 }, { kind: "check", tag: "mechanism", value: -10 }] },
+  FANTASY: { name: "Фэнтези", desc: "меч и магия в равновесии", mods: [] },
+  STEAM: { name: "Паровой век", desc: "машины теснят магию", mods: [{ kind: "check", tag: "mechanism", value: 10 }, { kind: "mpRegen", pct: -25 }] },
+  CYBER: { name: "Киберпанк", desc: "импланты и сети, магия — редкий сбой", mods: [{ kind: "check", tag: "mechanism", value: 20 }, { kind: "check", tag: "magic", value: -15 }, { kind: "mpRegen", pct: -50 }] },
+};
+
+/** Rule toggles of a built universe. Those with `mods` work like traits; the others are checked where they apply. */
+export const WORLD_RULES: Record<WorldRule, { name: string; desc: string; mods?: Modifier[] }> = {
+  cityNoMagic: { name: "Магия запрещена в городах", desc: "в безопасной точке заклинания не действуют" },
+  nightHunters: { name: "Ночные охотники", desc: "ночью засады в пути и на привале вдвое чаще" },
+  scarceHealing: { name: "Скудное лечение", desc: "раны заживают хуже", mods: [{ kind: "healing", pct: -25 }] },
+};
+
+export const hasWorldRule = (w: WorldRef, rule: WorldRule) => !!w.customWorld?.rules.includes(rule);
+
+/** Extra multiplier on night ambushes from the night hunters rule. */
+export const nightHunters = (w: WorldRef) => (hasWorldRule(w, "nightHunters") ? 2 : 1);
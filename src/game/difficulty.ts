@@ -0,0 +1,118 @@
+import { openBeat } from "./canon/story";
+import { safeHub } from "./data";
+import { addItem, loseBackpack } from "./inventory";
+import { sceneGraphFor } from "./scenes";
+import type { DeathRules, Difficulty, GameState } from "./types";
+import { addLog, visitPlace } from "./util";
+
+/**
+ * A difficulty preset: enemy damage multiplier, flee chance bonus and the
+ * default death penalties. `permadeath` ends the run on the first death.
+ */
+export type DifficultyDef = { name: string; desc: string; enemyDamage: number; flee: number; permadeath: boolean; rules: DeathRules };
+
+export const DIFFICULTIES: Record<Difficulty, DifficultyDef> = {
+  STORY: {
+    name: "📖 Сюжет",
+    desc: "Враги бьют слабее, сбежать легче, смерть ничего не отнимает.",
+    enemyDamage: 0.75,
+    flee: 20,
+    permadeath: false,
+    rules: { xpLoss: 0, moneyLoss: 0, backpack: "keep" },
+  },
+  STANDARD: {
+    name: "⚔️ Обычная",
+    desc: "После гибели теряется часть опыта и денег, рюкзак остаётся на теле — за ним можно вернуться.",
+    enemyDamage: 1,
+    flee: 0,
+    permadeath: false,
+    rules: { xpLoss: 25, moneyLoss: 20, backpack: "corpse" },
+  },
+  HARDCORE: {
+    name: "💀 Хардкор",
+    desc: "Враги бьют сильнее, а смерть окончательна: герой отправляется на кладбище.",
+    enemyDamage: 1.2,
+    flee: -10,
+    permadeath: true,
+    rules: { xpLoss: 0, moneyLoss: 0, backpack: "lose" },
+  },
+};
+
+export const XP_LOSS_OPTIONS = [0, 10, 25, 50];
+export const MONEY_LOSS_OPTIONS = [0, 10, 20, 50];
+export const BACKPACK_LABELS: Record<DeathRules["backpack"], string> = { keep: "остаётся с вами", corpse: "остаётся на теле", lose: "пропадает" };
+
+/** Days the body lies where the hero fell before scavengers take everything. */
+export const CORPSE_DAYS = 3;
+
+export function fmtDeathRules(state: GameState) {
+  const def = DIFFICULTIES[state.difficulty];
+  if (def.permadeath) return "смерть окончательна";
+  const r = state.deathRules;
+  return `опыт −${r.xpLoss}%, деньги −${r.moneyLoss}%, рюкзак ${BACKPACK_LABELS[r.backpack]}`;
+}
+
+/** The body with the backpack, while it can still be found. */
+export const corpseLeft = (state: GameState) => (state.corpse && state.day <= state.corpse.expires ? state.corpse : undefined);
+
+/** Picks the backpack up from the body if the hero stands where it lies. */
+export function recoverCorpse(s: GameState) {
+  const c = s.corpse;
+  if (!c || c.location !== s.location || s.enemy) return false;
+  if (!corpseLeft(s)) {
+    delete s.corpse;
+    addLog(s, "system", "⚰️ На месте гибели — лишь примятая трава. Вещи давно растащили.");
+    return true;
+  }
+  const left = c.items.filter(it => !addItem(s, it, "снято с тела"));
+  addLog(s, "system", `⚰️ Вы находите своё тело и забираете вещи${left.length ? `; не поместилось: ${left.map(it => it.name).join(", ")}` : ""}.`);
+  if (left.length) c.items = left;
+  else delete s.corpse;
+  return true;
+}
+
+/**
+ * Death by the difficulty's rules: on hardcore the run is over, otherwise
+ * the hero pays the penalties and wakes up at the safe hub.
+ */
+export function die(s: GameState, cause: string) {
+  const def = DIFFICULTIES[s.difficulty];
+  const place = s.location;
+  s.deaths += 1;
+  s.effects = [];
+  delete s.enemy;
+  delete s.pack;
+  delete s.trade;
+  delete s.talk;
+  delete s.flags.firstFightOfDay;
+
+  if (def.permadeath) {
+    s.fate = { cause, location: place, day: s.day };
+    s.phase = "DEAD";
+    addLog(s, "system", `☠️ Вы пали в бою с «${cause}». ${place}, день ${s.day}. Хардкор не прощает: история героя окончена.`);
+    return;
+  }
+
+  const r = s.deathRules;
+  const xp = Math.floor((s.xp * r.xpLoss) / 100);
+  const money = Math.floor((s.money * r.moneyLoss) / 100);
+  s.xp -= xp;
+  s.money -= money;
+  const lost = [xp && `⭐ −${xp} XP`, money && `💰 −${money}`].filter(Boolean);
+  addLog(s, "system", `☠️ Вы пали в бою с «${cause}». Возврат в безопасную точку.${lost.length ? ` Цена смерти: ${lost.join(", ")}.` : ""}`);
+
+  if (r.backpack === "corpse" && s.backpack.length) {
+    if (corpseLeft(s)) addLog(s, "system", "⚰️ Прежнее тело с вещами потеряно навсегда.");
+    s.corpse = { location: place, items: structuredClone(s.backpack), expires: s.day + CORPSE_DAYS - 1 };
+    loseBackpack(s, `осталось на теле — ${place}`);
+    addLog(s, "system", `⚰️ Рюкзак остался на теле: ${place}. Вернитесь за ним до конца дня ${s.corpse.expires}.`);
+  } else if (r.backpack === "lose" && s.backpack.length) {
+    loseBackpack(s, "потеряно при гибели");
+    addLog(s, "system", "Рюкзак потерян.");
+  }
+
+  s.hpCur = s.hpMax;
+  visitPlace(s, safeHub(s));
+  s.node = sceneGraphFor(s).start;
+  openBeat(s);
+}
@@ -0,0 +1,135 @@
+import type { DamageIcon, Effect, EffectIcon, Rng } from "./types";
+import { chanceCheck, clamp } from "./util";
+
+type EffectDef = {
+  name: string;
+  turns: number;
+  /** "stack" adds a stack (up to maxStacks) and refreshes duration; "refresh" only resets duration and power. */
+  stacking: "stack" | "refresh";
+  maxStacks?: number;
+  /** Damage per tick and stack (negative heals), or the shield's absorb pool. */
+  power?: number;
+  /** Accuracy change for the one carrying the effect. */
+  hit?: number;
+  /** Damage multipliers for the one carrying the effect. */
+  dealt?: number;
+  taken?: number;
+  mpDrain?: number;
+  /** Effects this one prevents from being applied. */
+  blocks?: EffectIcon[];
+};
+
+export const EFFECTS: Record<EffectIcon, EffectDef> = {
+  "🩸": { name: "Кровотечение", turns: 3, stacking: "stack", maxStacks: 3, power: 2 },
+  "☠️": { name: "Яд", turns: 4, stacking: "stack", maxStacks: 3, power: 2 },
+  "🔥": { name: "Горение", turns: 2, stacking: "refresh", power: 4 },
+  "❄️": { name: "Заморозка", turns: 1, stacking: "refresh", hit: -25 },
+  "⚡": { name: "Шок", turns: 2, stacking: "refresh", hit: -10 },
+  "🌪️": { name: "Сбит с ног", turns: 1, stacking: "refresh", hit: -15 },
+  "🧿": { name: "Проклятие", turns: 3, stacking: "refresh", dealt: 0.8 },
+  "💚": { name: "Регенерация", turns: 3, stacking: "refresh", power: -3 },
+  "🛡️": { name: "Щит", turns: 3, stacking: "refresh", power: 6 },
+  "✨": { name: "Благословение", turns: 3, stacking: "refresh", hit: 10 },
+  "👁️": { name: "Метка", turns: 3, stacking: "refresh", taken: 1.2 },
+  "🕳️": { name: "Истощение", turns: 3, stacking: "refresh", mpDrain: 2 },
+  "🧯": { name: "Огнеупорность", turns: 3, stacking: "refresh", blocks: ["🔥"] },
+};
+
+/** Chance (%) that a hit of this damage type applies the effect. */
+const ON_HIT: Partial<Record<DamageIcon, { icon: EffectIcon; chance: number }>> = {
+  "🗡️": { icon: "🩸", chance: 20 },
+  "🪓": { icon: "🩸", chance: 15 },
+  "🏹": { icon: "🩸", chance: 10 },
+  "🔥": { icon: "🔥", chance: 25 },
+  "❄️": { icon: "❄️", chance: 20 },
+  "⚡": { icon: "⚡", chance: 20 },
+  "🌪️": { icon: "🌪️", chance: 15 },
+  "🧪": { icon: "☠️", chance: 25 },
+  "🌑": { icon: "🧿", chance: 15 },
+};
+
+/** Anything that can carry effects: the hero (GameState) or an Enemy. */
+export type Combatant = { hpCur: number; hpMax: number; mpCur?: number; effects?: Effect[] };
+
+export const isEffectIcon = (v: unknown): v is EffectIcon => typeof v === "string" && v in EFFECTS;
+
+export function fmtEffect(e: Effect) {
+  return `${e.icon} ${e.name}${(e.stacks ?? 1) > 1 ? ` x${e.stacks}` : ""} (${e.turnsLeft})`;
+}
+
+export function applyEffect(target: Combatant, icon: EffectIcon): string | null {
+  const def = EFFECTS[icon];
+  const list = (target.effects ??= []);
+  if (list.some(e => EFFECTS[e.icon].blocks?.includes(icon))) return null;
+
+  const cur = list.find(e => e.icon === icon);
+  if (!cur) {
+    list.push({ icon, name: def.name, turnsLeft: def.turns, stacks: 1, power: def.power });
+    return `${icon} ${def.name}`;
+  }
+  cur.turnsLeft = def.turns;
+  if (def.stacking === "stack") cur.stacks = Math.min(def.maxStacks ?? 1, (cur.stacks ?? 1) + 1);
+  else cur.power = def.power;
+  return `${icon} ${def.name}${(cur.stacks ?? 1) > 1 ? ` x${cur.stacks}` : " (обновлено)"}`;
+}
+
+export function cureEffects(target: Combatant, icons: EffectIcon[]) {
+  const before = target.effects?.length ?? 0;
+  target.effects = (target.effects ?? []).filter(e => !icons.includes(e.icon));
+  return before - target.effects.length;
+}
+
+/** Rolls the on-hit effect of the first damage type that has one. */
+export function rollOnHitEffect(rng: Rng, icons: DamageIcon[]): EffectIcon | null {
+  const on = icons.map(i => ON_HIT[i]).find(Boolean);
+  return on && chanceCheck(rng) <= on.chance ? on.icon : null;
+}
+
+export function hitModifier(c: Combatant) {
+  return (c.effects ?? []).reduce((acc, e) => acc + (EFFECTS[e.icon].hit ?? 0), 0);
+}
+
+export function damageDealtMultiplier(c: Combatant) {
+  return (c.effects ?? []).reduce((acc, e) => acc * (EFFECTS[e.icon].dealt ?? 1), 1);
+}
+
+export function damageTakenMultiplier(c: Combatant) {
+  return (c.effects ?? []).reduce((acc, e) => acc * (EFFECTS[e.icon].taken ?? 1), 1);
+}
+
+/** Lets an active 🛡️ soak up damage first; returns what gets through. */
+export function absorbWithShield(c: Combatant, dmg: number) {
+  const shield = c.effects?.find(e => e.icon === "🛡️");
+  if (!shield || !shield.power) return dmg;
+  const soaked = Math.min(shield.power, dmg);
+  shield.power -= soaked;
+  if (!shield.power) c.effects = c.effects!.filter(e => e !== shield);
+  return dmg - soaked;
+}
+
+/**
+ * One tick (combat round or hour): damage/heal over time, MP drain, then
+ * durations run down. Returns log lines; `minHp` keeps out-of-combat ticks from killing,
+ * `healMult` scales healing over time (trait modifiers).
+ */
+export function tickEffects(c: Combatant, who: string, minHp = 0, healMult = 1): string[] {
+  const lines: string[] = [];
+  for (const e of c.effects ?? []) {
+    const def = EFFECTS[e.icon];
+    if (def.power && e.icon !== "🛡️") {
+      const raw = def.power * (e.stacks ?? 1);
+      const amount = raw < 0 ? Math.round(raw * healMult) : raw;
+      c.hpCur = clamp(c.hpCur - amount, minHp, c.hpMax);
+      lines.push(`${e.icon} ${def.name} (${who}): ${amount > 0 ? `−${amount}` : `+${-amount}`} HP → ❤️ ${c.hpCur}/${c.hpMax}`);
+    }
+    if (def.mpDrain && c.mpCur !== undefined) {
+      c.mpCur = Math.max(0, c.mpCur - def.mpDrain);
+      lines.push(`${e.icon} ${def.name} (${who}): −${def.mpDrain} MP`);
+    }
+    e.turnsLeft -= 1;
+  }
+  const expired = (c.effects ?? []).filter(e => e.turnsLeft <= 0);
+  if (expired.length) lines.push(`Прошло (${who}): ${expired.map(e => `${e.icon} ${e.name}`).join(", ")}`);
+  c.effects = (c.effects ?? []).filter(e => e.turnsLeft > 0);
+  return lines;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import { actionBlocker } from "./actions";
+import { reduce, type GameAction } from "./engine";
+import { record, replay, startRecording } from "./replay";
+import { memberView } from "./party";
+import { buildScene } from "./scene";
+import { makeInitialState } from "./state";
+import type { GameState } from "./types";
+
+const CREATION: GameAction[] = [
+  { type: "SET_UNIVERSE", universe: "CLASSIC_FANTASY" },
+  { type: "SET_SEX", sex: "Ж" },
+  { type: "SET_NAME", name: "Ася" },
+  { type: "CHOOSE_RACE", id: "r1" },
+  { type: "CHOOSE_CLASS", id: "c1" },
+  { type: "CHOOSE_BG", id: "b1" },
+];
+
+/** Applies actions the way the server does: each one must be allowed where it is taken. */
+function play(state: GameState, actions: GameAction[]) {
+  return actions.reduce((s, a) => {
+    expect(actionBlocker(s, a)).toBe("");
+    return reduce(s, a);
+  }, state);
+}
+
+/** Takes the first choice of every scene until a fight starts: the notice board, then the road. */
+function walkIntoFight(state: GameState) {
+  let s = state;
+  for (let i = 0; i < 30 && !s.enemy; i++) s = play(s, [{ type: "CHOICE", id: "1" }]);
+  return s;
+}
+
+describe("character creation", () => {
+  it("goes through every phase and starts the game with a kitted hero", () => {
+    const phases: string[] = [];
+    let s = makeInitialState(1);
+    for (const a of CREATION) {
+      s = play(s, [a]);
+      phases.push(s.phase);
+    }
+
+    expect(phases).toEqual(["CHAR_SEX", "CHAR_NAME", "CHAR_RACE", "CHAR_CLASS", "CHAR_BG", "PLAY"]);
+    expect(s.name).toBe("Ася");
+    expect(s.race?.id).toBe("r1");
+    expect(s.cls?.id).toBe("c1");
+    expect(s.hpCur).toBe(s.hpMax);
+    expect(s.equipped.weapon1).toBeDefined();
+    expect(s.node).toBe("HUB");
+  });
+
+  it("does not change the state it was given", () => {
+    const s = makeInitialState(1);
+    const before = JSON.stringify(s);
+    play(s, CREATION);
+    expect(JSON.stringify(s)).toBe(before);
+  });
+
+  it("refuses creation steps out of order", () => {
+    expect(actionBlocker(makeInitialState(1), { type: "CHOOSE_RACE", id: "r1" })).toMatch(/недоступно/);
+  });
+});
+
+describe("a full fight", () => {
+  it("starts on the road and ends in a victory with rewards", () => {
+    let s = walkIntoFight(play(makeInitialState(1), CREATION));
+    expect(s.enemy).toBeDefined();
+    expect(buildScene(s).choices.map(c => c.label)).toContain("Атака оружием");
+
+    const { xp, money } = s;
+    for (let i = 0; i < 60 && s.enemy; i++) s = play(s, [{ type: "CHOICE", id: "1" }]);
+
+    expect(s.enemy).toBeUndefined();
+    expect(s.phase).toBe("PLAY");
+    expect(s.hpCur).toBeGreaterThan(0);
+    expect(s.xp).toBeGreaterThan(xp);
+    expect(s.money).toBeGreaterThan(money);
+    expect(s.log.some(l => l.text.includes("🏁 Победа"))).toBe(true);
+  });
+
+  it("replays to the same state byte for byte", () => {
+    let rec = startRecording(makeInitialState(1));
+    for (const a of CREATION) rec = record(rec, a);
+    for (let i = 0; i < 40; i++) rec = record(rec, { type: "CHOICE", id: "1" });
+    expect(JSON.stringify(replay(rec.session))).toBe(JSON.stringify(rec.state));
+  });
+});
+
+describe("a party fight", () => {
+  it("shares XP and money between the members", () => {
+    let s = play(makeInitialState(1), [...CREATION, { type: "JOIN", member: "2", sex: "М", name: "Борис", race: "r1", cls: "c1", bg: "b1" }]);
+    for (let i = 0; i < 30 && !s.enemy; i++) s = play(s, [{ type: "ACT", member: "1", action: { type: "CHOICE", id: "1" } }]);
+    expect(s.enemy).toBeDefined();
+
+    const before = ["1", "2"].map(id => memberView(s, id));
+    for (let i = 0; i < 80 && s.enemy; i++) s = play(s, [{ type: "ACT", member: s.party!.turn ?? "1", action: { type: "CHOICE", id: "1" } }]);
+    expect(s.enemy).toBeUndefined();
+
+    const after = ["1", "2"].map(id => memberView(s, id));
+    for (const [i, hero] of after.entries()) {
+      expect(hero.level * 1000 + hero.xp).toBeGreaterThan(before[i].level * 1000 + before[i].xp);
+      expect(hero.money).toBeGreaterThan(before[i].money);
+    }
+    expect(s.log.some(l => l.text.includes("поровну на 2"))).toBe(true);
+  });
+});
@@ -0,0 +1,365 @@
+import { starterAbilities } from "./abilities";
+import { isGroupAction, joinBlocker, partyBlocker } from "./actions";
+import { canonPackById, openBeat } from "./canon";
+import { abilityRound, combatRound, enemyTurn, flee } from "./combat";
+import { inventoryStep, runCommand } from "./commands";
+import { fmtCustomWorld } from "./custom";
+import type { InventoryOp } from "./inventory";
+import { BACKGROUNDS, baseUniverseTitle, classesFor, racesFor, safeHub } from "./data";
+import { DIFFICULTIES, fmtDeathRules } from "./difficulty";
+import { HEALING_POTION, STARTER_DAGGER, STARTER_TUNIC } from "./items";
+import { statModifiers } from "./modifiers";
+import { applyNarration, localNarrate, narratorSnapshot, type NarratorResult } from "./narrator";
+import { PARTY_MODE_LABELS, activate, addMember, castVote, partyMember, removeMember, settleParty, takeSheet } from "./party";
+import { runTalkOp, type TalkOp } from "./npcs";
+import { applyLevelUp, maxHp, maxMp } from "./progression";
+import { trackQuests } from "./quests";
+import { rest, type RestMode } from "./rest";
+import { stateRng } from "./rng";
+import { runDialogueChoice, runSceneChoice } from "./scene";
+import { sceneGraphFor } from "./scenes";
+import { runTradeOp, type TradeOp } from "./shop";
+import { makeInitialState } from "./state";
+import type { BackgroundDef, CanonMode, ChoiceId, CustomWorld, DeathRules, Difficulty, GameState, PartyMode, Rng, Stats, Universe, WearMode } from "./types";
+import { maybeWeather, nextHour } from "./time";
+import { addLog, applyBonuses, fmtClock, visitPlace } from "./util";
+import { repair, type RepairTarget } from "./wear";
+import { travel } from "./world";
+
+export type GameAction =
+  | { type: "SET_WEAR"; wear: WearMode }
+  /** Picks a difficulty preset; `rules` overrides single death penalties of it. */
+  | { type: "SET_DIFFICULTY"; difficulty: Difficulty; rules?: Partial<DeathRules> }
+  | { type: "SET_UNIVERSE"; universe: Universe }
+  /** `pack` is the id of an installed canon world (CANON_PACKS); without it the canon is only a title for the narrator. */
+  | { type: "SET_CANON"; title: string; mode: CanonMode; pack?: string }
+  /** The universe from the builder (see loadCustomWorld) and the free-text rules that went with it. */
+  | { type: "SET_CUSTOM_RULES"; text: string; world: CustomWorld }
+  | { type: "SET_SEX"; sex: string }
+  | { type: "SET_NAME"; name: string }
+  | { type: "CHOOSE_RACE"; id: string }
+  | { type: "CHOOSE_CLASS"; id: string }
+  | { type: "CHOOSE_BG"; id: string }
+  | { type: "CHOICE"; id: ChoiceId; text?: string }
+  /** Free-text action already narrated by an external narrator; the result is re-validated here. */
+  | { type: "NARRATE"; text: string; result: NarratorResult }
+  | { type: "COMMAND"; input: string }
+  | { type: "INVENTORY"; op: InventoryOp; ref: string; qty?: number }
+  | { type: "REPAIR"; target: RepairTarget }
+  | { type: "ABILITY"; id: string }
+  /** Tries to break away from the current fight. */
+  | { type: "FLEE" }
+  /** Short rest, sleep until morning or wait until morning. */
+  | { type: "REST"; mode: RestMode }
+  /** Walks to a neighbouring place on the world map (`to` is a name or a /карта number). */
+  | { type: "TRAVEL"; to: string }
+  /** Hub merchants: `ref` is the merchant for "open", the goods for "buy", a backpack item for "sell". */
+  | { type: "TRADE"; op: TradeOp; ref?: string; qty?: number }
+  /** Hub NPCs: `ref` is who to talk to for "open" (a list without it); the lines themselves are CHOICE 1–3. */
+  | { type: "TALK"; op: TalkOp; ref?: string }
+  /** Spends the level-up points: every stat point must be allocated, abilities are optional. */
+  | { type: "LEVEL_UP"; alloc: Partial<Stats>; abilities?: string[] }
+  /** A new hero joins mid-game under the id the server gave them; the first one turns the solo hero into the party leader. */
+  | { type: "JOIN"; member: string; sex: string; name: string; race: string; cls: string; bg: string }
+  /** A party member's action, taken with their sheet in the hero fields; scene choices become votes in vote mode. */
+  | { type: "ACT"; member: string; action: GameAction }
+  /** Party settings (the leader's call) and leaving it; taken inside ACT by the member it concerns. */
+  | { type: "PARTY"; op: "mode"; mode: PartyMode }
+  | { type: "PARTY"; op: "leader"; member: string }
+  | { type: "PARTY"; op: "leave" };
+
+/**
+ * Pure game step: returns a new state and never touches the input one.
+ * All randomness is drawn from the seeded `state.rng`, so the same state and
+ * action always give the same result.
+ */
+export function reduce(state: GameState, action: GameAction): GameState {
+  const s = structuredClone(state);
+  const rng = stateRng(s);
+
+  switch (action.type) {
+    case "SET_WEAR":
+      s.wear = action.wear;
+      addLog(s, "player", `A) Износ: ${action.wear === "ON" ? "✅ ВКЛ" : "❌ ВЫКЛ"}`);
+      return s;
+
+    case "SET_DIFFICULTY":
+      if (s.phase !== "SETTINGS") return s;
+      s.difficulty = action.difficulty;
+      s.deathRules = { ...DIFFICULTIES[action.difficulty].rules, ...action.rules };
+      addLog(s, "player", `B) Сложность: ${DIFFICULTIES[action.difficulty].name} (${fmtDeathRules(s)})`);
+      return s;
+
+    case "SET_UNIVERSE":
+      s.universe = action.universe;
+      addLog(s, "player", `C) Вселенная: ${baseUniverseTitle(action.universe)}`);
+      if (action.universe === "CANON") s.phase = "CANON_MODE";
+      else if (action.universe === "CUSTOM") s.phase = "CUSTOM_RULES";
+      else s.phase = "CHAR_SEX";
+      return s;
+
+    case "SET_CANON": {
+      const pack = action.pack ? canonPackById(action.pack) : undefined;
+      if (action.pack && !pack) return s;
+      s.canonTitle = action.title.trim() || pack?.title || "Без названия";
+      s.canonMode = action.mode;
+      if (pack) {
+        s.canonPack = structuredClone(pack);
+        if (action.mode === "A_STORYLIKE") s.storyBeat = 0;
+      }
+      s.phase = "CHAR_SEX";
+      addLog(s, "player", `Канон: ${s.canonTitle} | Режим: ${action.mode === "A_STORYLIKE" ? "A" : "B"}`);
+      if (pack) addLog(s, "system", `📚 Мир из набора: ${pack.title}. ${action.mode === "A_STORYLIKE" && pack.story.length ? `Сюжет — ${pack.story.length} глав(ы), следите за /сюжет.` : "Из канона взяты мир и стиль; сюжет — ваш."}`);
+      return s;
+    }
+
+    case "SET_CUSTOM_RULES":
+      s.customRules = action.text.trim();
+      s.customWorld = structuredClone(action.world);
+      s.phase = "CHAR_SEX";
+      addLog(s, "player", `Правила мира: ${s.customRules}`);
+      addLog(s, "system", fmtCustomWorld(s.customWorld));
+      return s;
+
+    case "SET_SEX":
+      s.sex = action.sex;
+      s.phase = "CHAR_NAME";
+      addLog(s, "player", `Пол: ${action.sex}`);
+      return s;
+
+    case "SET_NAME":
+      s.name = action.name.trim() || "Безымянный";
+      s.phase = "CHAR_RACE";
+      addLog(s, "player", `Имя: ${s.name}`);
+      return s;
+
+    case "CHOOSE_RACE": {
+      const r = racesFor(s).find(x => x.id === action.id);
+      if (!r) return s;
+      s.race = r;
+      s.phase = "CHAR_CLASS";
+      addLog(s, "player", `Раса: ${r.name}`);
+      return s;
+    }
+
+    case "CHOOSE_CLASS": {
+      const c = classesFor(s).find(x => x.id === action.id);
+      if (!c) return s;
+      s.cls = c;
+      s.phase = "CHAR_BG";
+      addLog(s, "player", `Класс: ${c.name}`);
+      return s;
+    }
+
+    case "CHOOSE_BG":
+      chooseBg(s, action.id);
+      return s;
+
+    case "CHOICE":
+      handleChoice(s, action.id, action.text, rng);
+      trackQuests(s, rng);
+      return s;
+
+    case "NARRATE":
+      handleChoice(s, "4", action.text, rng, action.result);
+      trackQuests(s, rng);
+      return s;
+
+    case "COMMAND":
+      runCommand(s, action.input, rng);
+      trackQuests(s, rng);
+      return s;
+
+    case "INVENTORY":
+      if (s.phase === "PLAY") inventoryStep(s, action.op, action.ref, rng, action.qty);
+      return s;
+
+    case "REPAIR":
+      if (s.phase === "PLAY") repair(s, action.target);
+      return s;
+
+    case "TRADE":
+      if (s.phase === "PLAY") runTradeOp(s, action.op, action.ref ?? "", rng, action.qty);
+      return s;
+
+    case "TALK":
+      if (s.phase === "PLAY") runTalkOp(s, action.op, action.ref ?? "");
+      return s;
+
+    case "REST":
+      if (s.phase === "PLAY") rest(s, action.mode, rng);
+      trackQuests(s, rng);
+      return s;
+
+    case "TRAVEL":
+      if (s.phase === "PLAY") travel(s, action.to, rng);
+      trackQuests(s, rng);
+      return s;
+
+    case "ABILITY":
+      if (s.phase === "PLAY") abilityRound(s, action.id, rng);
+      trackQuests(s, rng);
+      return s;
+
+    case "FLEE":
+      if (s.phase === "PLAY") flee(s, rng);
+      return s;
+
+    case "LEVEL_UP":
+      applyLevelUp(s, action.alloc, action.abilities);
+      return s;
+
+    case "JOIN":
+      joinParty(s, action);
+      return s;
+
+    case "ACT":
+      return actAs(s, action.member, action.action);
+
+    case "PARTY":
+      if (s.phase === "PLAY") partyOp(s, action);
+      return s;
+  }
+}
+
+/** The hero-sheet part of character creation, shared by the solo hero and everyone who joins later. */
+function makeHero(s: GameState, bg: BackgroundDef) {
+  s.bg = bg;
+
+  let base: Stats = { str: 3, dex: 3, end: 3, int: 3, cha: 3, luck: 3 };
+  base = applyBonuses(base, s.race?.bonuses);
+  base = applyBonuses(base, s.cls?.bonuses);
+  base = applyBonuses(base, bg.bonus);
+  s.stats = applyBonuses(base, statModifiers(s));
+
+  s.hpMax = maxHp(s.stats, s.level);
+  s.hpCur = s.hpMax;
+  s.mpMax = maxMp(s.stats, s.level);
+  s.mpCur = s.mpMax;
+  s.abilities = starterAbilities(s.cls?.id ?? "");
+
+  // starter gear minimal
+  s.money = 40;
+  s.equipped.weapon1 = { ...STARTER_DAGGER };
+  s.equipped.armor = { ...STARTER_TUNIC };
+  s.backpack = [{ ...HEALING_POTION, qty: 2 }];
+
+  s.lootJournal = [
+    `[${fmtClock(s)}] + ⚪ Кинжал путника — старт`,
+    `[${fmtClock(s)}] + ⚪ Кожаная куртка — старт`,
+    `[${fmtClock(s)}] + ⚪ Зелье лечения x2 — старт`,
+  ];
+}
+
+function chooseBg(s: GameState, id: string) {
+  const bg = BACKGROUNDS.find(x => x.id === id);
+  if (!bg) return;
+  makeHero(s, bg);
+  visitPlace(s, safeHub(s));
+  s.node = sceneGraphFor(s).start;
+
+  s.phase = "PLAY";
+  addLog(s, "player", `Предыстория: ${bg.name}`);
+  addLog(s, "system", "Персонаж создан. Игра началась.");
+  openBeat(s);
+}
+
+function handleChoice(s: GameState, id: ChoiceId, customText: string | undefined, rng: Rng, narration?: NarratorResult) {
+  if (s.phase !== "PLAY") return;
+
+  if (id === "4" && !customText && !s.enemy) {
+    addLog(s, "system", "Введите свой вариант текстом.");
+    return;
+  }
+
+  addLog(s, "player", customText ? `4) ◦ ${customText}` : `${id})`);
+  // any move in the scene walks away from the counter
+  delete s.trade;
+
+  if (s.talk && !s.enemy && id !== "4") {
+    runDialogueChoice(s, id, rng);
+    return;
+  }
+
+  nextHour(s);
+  maybeWeather(s, rng);
+
+  if (id === "4" && customText) {
+    // without an external narrator the built-in rules narrate, so headless runs stay deterministic
+    const inCombat = !!s.enemy;
+    applyNarration(s, narration ?? localNarrate(narratorSnapshot(s), customText));
+    if (inCombat) enemyTurn(s, false, rng);
+    return;
+  }
+
+  if (s.enemy) {
+    combatRound(s, id, rng);
+    return;
+  }
+
+  runSceneChoice(s, id, rng);
+}
+
+function joinParty(s: GameState, a: Extract<GameAction, { type: "JOIN" }>) {
+  const blocked = joinBlocker(s, a);
+  if (blocked) { addLog(s, "system", blocked); return; }
+  const race = racesFor(s).find(x => x.id === a.race)!;
+  const cls = classesFor(s).find(x => x.id === a.cls)!;
+  const bg = BACKGROUNDS.find(x => x.id === a.bg)!;
+  const name = a.name.trim() || "Безымянный";
+
+  addMember(s, { id: a.member, name }, { ...takeSheet(makeInitialState(0)), sex: a.sex, name, race, cls });
+  makeHero(s, bg);
+  addLog(s, "system", `🤝 К отряду присоединяется ${name}: ${race.name}, ${cls.name}, ${bg.name}.`);
+}
+
+/**
+ * Runs a member's action with their sheet in the hero fields. In vote mode
+ * a scene choice is only a vote until the party settles on one; the winning
+ * option is then taken by the member who voted for it first.
+ */
+function actAs(s: GameState, member: string, action: GameAction): GameState {
+  const blocked = partyBlocker(s, member, action);
+  if (blocked) { addLog(s, "system", blocked); return s; }
+  activate(s, member);
+
+  let next = s;
+  const vote = sceneVote(s, action);
+  if (vote) {
+    const win = castVote(s, { member, ...vote });
+    if (win) {
+      activate(s, win.member);
+      next = reduce(s, win.result && win.text ? { type: "NARRATE", text: win.text, result: win.result } : { type: "CHOICE", id: win.id, text: win.text });
+    }
+  } else {
+    if (s.party && isGroupAction(action)) s.party.votes = [];
+    next = reduce(s, action);
+  }
+  settleParty(next);
+  return next;
+}
+
+/** A scene choice put to the vote, or null when the action is taken right away. */
+function sceneVote(s: GameState, action: GameAction) {
+  if (s.party?.mode !== "vote" || s.enemy || s.phase !== "PLAY") return null;
+  if (action.type === "NARRATE") return { id: "4" as const, text: action.text, result: action.result };
+  if (action.type !== "CHOICE" || (action.id === "4" && !action.text)) return null;
+  return { id: action.id, text: action.text };
+}
+
+function partyOp(s: GameState, a: Extract<GameAction, { type: "PARTY" }>) {
+  const p = s.party;
+  const me = p && partyMember(s, p.active);
+  if (!p || !me) { addLog(s, "system", "Вы путешествуете в одиночку."); return; }
+  if (a.op === "mode") {
+    p.mode = a.mode;
+    p.votes = [];
+    addLog(s, "player", `Отряд: ${PARTY_MODE_LABELS[a.mode]}`);
+  } else if (a.op === "leader") {
+    p.leader = a.member;
+    addLog(s, "player", `👑 Лидер отряда: ${partyMember(s, a.member)?.name}`);
+  } else {
+    addLog(s, "player", `👋 ${me.name} покидает отряд.`);
+    removeMember(s, me.id);
+  }
+}
@@ -0,0 +1,67 @@
+import { FACTION_LABELS, traitReputation } from "./modifiers";
+import type { Enemy, FactionId, GameState } from "./types";
+import { addLog, clamp } from "./util";
+
+export type FactionDef = { id: FactionId; icon: string; name: string; desc: string };
+
+export const FACTIONS: FactionDef[] = [
+  { id: "town", icon: "🏘️", name: "Горожане", desc: "торговцы, трактирщики и стража безопасной точки" },
+  { id: "mages", icon: "🔮", name: "Маги", desc: "учёные круги и их дознаватели" },
+  { id: "cults", icon: "🕯️", name: "Культы", desc: "те, кто шепчет по углам и собирается за старой дорогой" },
+  { id: "hunters", icon: "🏹", name: "Охотники", desc: "охотники на нечисть и всех, кто с ней водится" },
+];
+
+/**
+ * Standing bands, from the lowest. `price` is the percent off (or on, when
+ * negative) at merchants of the faction; the bands are shared with NPC attitude.
+ */
+export const STANDING_TIERS = [
+  { min: -100, label: "вражда", price: -15 },
+  { min: -49, label: "недоверие", price: -5 },
+  { min: -14, label: "нейтрально", price: 0 },
+  { min: 15, label: "симпатия", price: 5 },
+  { min: 50, label: "почтение", price: 10 },
+];
+
+/** At or below this standing a faction counts as hostile: its fighters hunt the hero, its people turn away. */
+export const HOSTILE = -15;
+/** At or below this one nobody of the faction will deal with the hero at all. */
+export const SHUNNED = -50;
+
+const MAX_STANDING = 100;
+
+/** Earned standing plus the hero's traits, e.g. 🔮 +20 for an elf. */
+export const factionStanding = (state: GameState, faction: FactionId) =>
+  clamp((state.reputation[faction] ?? 0) + traitReputation(state, faction), -MAX_STANDING, MAX_STANDING);
+
+export const standingTier = (value: number) => [...STANDING_TIERS].reverse().find(t => value >= t.min) ?? STANDING_TIERS[0];
+
+/** Percent discount at the faction's merchants. */
+export const factionPrice = (state: GameState, faction: FactionId) => standingTier(factionStanding(state, faction)).price;
+
+export const factionDef = (id: FactionId) => FACTIONS.find(f => f.id === id)!;
+
+export function changeReputation(state: GameState, faction: FactionId, delta: number) {
+  if (!delta) return;
+  const before = standingTier(factionStanding(state, faction));
+  state.reputation[faction] = clamp((state.reputation[faction] ?? 0) + delta, -MAX_STANDING, MAX_STANDING);
+  const after = standingTier(factionStanding(state, faction));
+  const f = factionDef(faction);
+  addLog(state, "system", `${f.icon} Репутация: ${FACTION_LABELS[faction]} ${delta > 0 ? "+" : ""}${delta}${after !== before ? ` → ${after.label}` : ""}`);
+}
+
+/** Every faction fighter killed costs some standing with their own. */
+export function factionKills(state: GameState, enemies: Enemy[]) {
+  for (const f of FACTIONS) {
+    const n = enemies.filter(e => e.faction === f.id).length;
+    if (n) changeReputation(state, f.id, -5 * n);
+  }
+}
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+/** One faction line for /репутация: band and standing. */
+export function fmtStanding(state: GameState, f: FactionDef) {
+  const v = factionStanding(state, f.id);
+  return `${f.icon} ${f.name}: ${standingTier(v).label} (${signed(v)})`;
+}
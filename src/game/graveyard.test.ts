@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { buryHero, clearGraveyard, graveEntry, permadeathBlocker } from "./graveyard";
+import type { SaveStorage } from "./saves";
+import { makeInitialState } from "./state";
+import type { GameState } from "./types";
+
+function memoryStorage(): SaveStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: k => items.get(k) ?? null,
+    setItem: (k, v) => { items.set(k, v); },
+    removeItem: k => { items.delete(k); },
+  };
+}
+
+const hero = (run: string, difficulty: GameState["difficulty"] = "HARDCORE"): GameState => ({ ...makeInitialState(1, run), phase: "PLAY", difficulty, name: "Ася" });
+const dead = (s: GameState): GameState => ({ ...s, phase: "DEAD", fate: { cause: "Волк", location: "Лес", day: 3 } });
+
+describe("permadeath", () => {
+  it("refuses a save from before the death once the hero is buried", () => {
+    const storage = memoryStorage();
+    const before = hero("run-1");
+    expect(permadeathBlocker(storage, before)).toBe("");
+
+    buryHero(storage, graveEntry(dead(before), 1)!);
+    expect(permadeathBlocker(storage, before)).toMatch(/уже пал/);
+  });
+
+  it("keeps the run fallen after the hall of fame is cleared", () => {
+    const storage = memoryStorage();
+    buryHero(storage, graveEntry(dead(hero("run-1")), 1)!);
+    clearGraveyard(storage);
+    expect(permadeathBlocker(storage, hero("run-1"))).toMatch(/уже пал/);
+  });
+
+  it("lets other runs and other difficulties load", () => {
+    const storage = memoryStorage();
+    buryHero(storage, graveEntry(dead(hero("run-1")), 1)!);
+    expect(permadeathBlocker(storage, hero("run-2"))).toBe("");
+    expect(permadeathBlocker(storage, hero("run-1", "STANDARD"))).toBe("");
+  });
+});
@@ -0,0 +1,82 @@
+import { universeTitle } from "./data";
+import { DIFFICULTIES } from "./difficulty";
+import type { SaveStorage } from "./saves";
+import type { GameState } from "./types";
+
+/** A fallen hardcore hero, kept in the browser across runs. */
+export type GraveEntry = {
+  id: string;
+  name: string;
+  race: string;
+  cls: string;
+  level: number;
+  universe: string;
+  difficulty: string;
+  cause: string;
+  location: string;
+  day: number;
+  diedAt: number;
+};
+
+const GRAVEYARD_KEY = "rpg_chat_graveyard_v1";
+/** Runs whose hardcore hero died; unlike the hall of fame, never trimmed or cleared. */
+const FALLEN_RUNS_KEY = "rpg_chat_fallen_runs_v1";
+/** Only the best are remembered. */
+const MAX_GRAVES = 50;
+
+export function listGraves(storage: SaveStorage): GraveEntry[] {
+  try {
+    const list = JSON.parse(storage.getItem(GRAVEYARD_KEY) ?? "[]");
+    return Array.isArray(list) ? list : [];
+  } catch { return []; }
+}
+
+/** Hall of fame order: higher level first, then the longer life. */
+const byGlory = (a: GraveEntry, b: GraveEntry) => b.level - a.level || b.day - a.day;
+
+function fallenRuns(storage: SaveStorage): string[] {
+  try {
+    const list = JSON.parse(storage.getItem(FALLEN_RUNS_KEY) ?? "[]");
+    return Array.isArray(list) ? list : [];
+  } catch { return []; }
+}
+
+/** Builds the headstone for a dead hero; the id is the run, so burying twice is harmless. */
+export function graveEntry(state: GameState, diedAt: number): GraveEntry | null {
+  if (state.phase !== "DEAD" || !state.fate) return null;
+  return {
+    id: state.run,
+    name: state.name ?? "Безымянный",
+    race: state.race?.name ?? "—",
+    cls: state.cls?.name ?? "—",
+    level: state.level,
+    universe: universeTitle(state),
+    difficulty: DIFFICULTIES[state.difficulty].name,
+    cause: state.fate.cause,
+    location: state.fate.location,
+    day: state.fate.day,
+    diedAt,
+  };
+}
+
+/** Puts the hero in the hall of fame and marks the run as over for good. */
+export function buryHero(storage: SaveStorage, entry: GraveEntry) {
+  const runs = fallenRuns(storage);
+  if (!runs.includes(entry.id)) storage.setItem(FALLEN_RUNS_KEY, JSON.stringify([...runs, entry.id]));
+  const list = listGraves(storage);
+  if (list.some(g => g.id === entry.id)) return list;
+  const next = [...list, entry].sort(byGlory).slice(0, MAX_GRAVES);
+  storage.setItem(GRAVEYARD_KEY, JSON.stringify(next));
+  return next;
+}
+
+/** Clears the hall of fame; the fallen runs stay fallen. */
+export function clearGraveyard(storage: SaveStorage) {
+  storage.removeItem(GRAVEYARD_KEY);
+}
+
+/** Why a save cannot be loaded: the hardcore hero of its run has already died in this browser. Empty when it can. */
+export function permadeathBlocker(storage: SaveStorage, state: GameState) {
+  if (!DIFFICULTIES[state.difficulty].permadeath || state.phase === "DEAD") return "";
+  return fallenRuns(storage).includes(state.run) ? `${state.name ?? "Герой"} этого забега уже пал — в режиме «${DIFFICULTIES[state.difficulty].name}» смерть окончательна` : "";
+}
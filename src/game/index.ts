@@ -0,0 +1,37 @@
+export * from "./types";
+export * from "./data";
+export * from "./util";
+export * from "./time";
+export * from "./effects";
+export * from "./modifiers";
+export * from "./state";
+export * from "./migrations";
+export * from "./saves";
+export * from "./graveyard";
+export * from "./abilities";
+export * from "./bestiary";
+export * from "./canon";
+export * from "./custom";
+export * from "./combat";
+export * from "./difficulty";
+export * from "./factions";
+export * from "./npcs";
+export * from "./party";
+export * from "./progression";
+export * from "./rest";
+export * from "./quests";
+export * from "./scene";
+export * from "./scenes";
+export * from "./shop";
+export * from "./inventory";
+export * from "./items";
+export * from "./loot";
+export * from "./wear";
+export * from "./world";
+export * from "./commands";
+export * from "./input";
+export * from "./engine";
+export * from "./actions";
+export * from "./rng";
+export * from "./replay";
+export * from "./narrator";
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import { startCombat } from "./combat";
+import { CHOICE_MODE, routeInput, type InputMode, type InputRoute } from "./input";
+import { HEALING_POTION, STARTER_DAGGER } from "./items";
+import { makeInitialState } from "./state";
+import type { GameState } from "./types";
+
+const playing: GameState = { ...makeInitialState(1), phase: "PLAY", backpack: [{ ...STARTER_DAGGER }, { ...HEALING_POTION, qty: 3 }] };
+
+function fighting() {
+  const s = structuredClone(playing);
+  startCombat(s, () => 0.5);
+  return s;
+}
+
+/** Everything one line dispatches: an engine action and a text for the narrator both count. */
+const outcomes = (r: InputRoute) => [r.action, r.narrate].filter(x => x !== undefined);
+
+/** Feeds several lines one after another, the way the input box does. */
+function type(state: GameState, lines: string[]) {
+  let mode: InputMode = CHOICE_MODE;
+  return lines.map(line => {
+    const route = routeInput(state, mode, line);
+    mode = route.mode;
+    return route;
+  });
+}
+
+describe("choice mode", () => {
+  it.each(["1", "2", "3"])("turns %s into one scene choice", id => {
+    const r = routeInput(playing, CHOICE_MODE, ` ${id} `);
+    expect(outcomes(r)).toEqual([{ type: "CHOICE", id }]);
+    expect(r.mode).toEqual(CHOICE_MODE);
+  });
+
+  it("sends a slash command as one COMMAND", () => {
+    expect(outcomes(routeInput(playing, CHOICE_MODE, "/инв"))).toEqual([{ type: "COMMAND", input: "/инвентарь" }]);
+  });
+
+  it("takes any other text as one free-text action", () => {
+    expect(outcomes(routeInput(playing, CHOICE_MODE, "4 осмотреть подвал"))).toEqual(["осмотреть подвал"]);
+    expect(outcomes(routeInput(playing, CHOICE_MODE, "осмотреть подвал"))).toEqual(["осмотреть подвал"]);
+  });
+
+  it("ignores an empty line", () => {
+    expect(outcomes(routeInput(playing, CHOICE_MODE, "   "))).toEqual([]);
+  });
+
+  it("takes a lone 4 in a fight as the cautious move", () => {
+    expect(outcomes(routeInput(fighting(), CHOICE_MODE, "4"))).toEqual([{ type: "CHOICE", id: "4" }]);
+  });
+});
+
+describe("custom mode", () => {
+  it("asks for the text after a lone 4, then narrates it once", () => {
+    const [ask, text] = type(playing, ["4", "поджечь амбар"]);
+    expect(outcomes(ask)).toEqual([]);
+    expect(ask.mode).toEqual({ kind: "custom" });
+    expect(outcomes(text)).toEqual(["поджечь амбар"]);
+    expect(text.mode).toEqual(CHOICE_MODE);
+  });
+
+  it("does nothing on cancel", () => {
+    const [, cancel] = type(playing, ["4", "отмена"]);
+    expect(outcomes(cancel)).toEqual([]);
+    expect(cancel.mode).toEqual(CHOICE_MODE);
+  });
+});
+
+describe("command args mode", () => {
+  it("asks for the missing argument, then runs the command once with it", () => {
+    const [ask, arg] = type(playing, ["/идти", "Лес"]);
+    expect(outcomes(ask)).toEqual([]);
+    expect(ask.mode).toMatchObject({ kind: "args", command: "/идти" });
+    expect(outcomes(arg)).toEqual([{ type: "COMMAND", input: "/идти Лес" }]);
+    expect(arg.mode).toEqual(CHOICE_MODE);
+  });
+
+  it("runs a command given with its argument at once", () => {
+    expect(outcomes(routeInput(playing, CHOICE_MODE, "/go Лес"))).toEqual([{ type: "COMMAND", input: "/идти Лес" }]);
+  });
+});
+
+describe("confirm mode", () => {
+  it("runs the confirmed command once", () => {
+    const [ask, yes] = type(playing, ["/выбросить Кинжал", "да"]);
+    expect(outcomes(ask)).toEqual([]);
+    expect(ask.mode.kind).toBe("confirm");
+    expect(outcomes(yes)).toEqual([{ type: "COMMAND", input: "/выбросить Кинжал путника" }]);
+  });
+
+  it("names the item and the count it asks about", () => {
+    const ask = routeInput(playing, CHOICE_MODE, "/выбросить 2 2");
+    expect(ask.notice).toBe("Выбросить «Зелье лечения» x2? да / нет");
+    expect(ask.mode).toMatchObject({ action: { type: "COMMAND", input: "/выбросить Зелье лечения 2" } });
+  });
+
+  it("refuses a count above the stack without asking", () => {
+    const r = routeInput(playing, CHOICE_MODE, "/выбросить Зелье 5");
+    expect(outcomes(r)).toEqual([]);
+    expect(r.mode).toEqual(CHOICE_MODE);
+    expect(r.notice).toMatch(/только 3/);
+  });
+
+  it("checks the backpack again when the answer comes", () => {
+    const ask = routeInput(playing, CHOICE_MODE, "/выбросить Зелье 3");
+    const used: GameState = { ...playing, backpack: [{ ...STARTER_DAGGER }, { ...HEALING_POTION, qty: 1 }] };
+    const yes = routeInput(used, ask.mode, "да");
+    expect(outcomes(yes)).toEqual([]);
+    expect(yes.notice).toMatch(/только 1/);
+
+    const gone = routeInput({ ...playing, backpack: [] }, routeInput(playing, CHOICE_MODE, "/выбросить Кинжал").mode, "да");
+    expect(outcomes(gone)).toEqual([]);
+    expect(gone.notice).toMatch(/Нет предмета/);
+  });
+
+  it("drops the command on any other answer", () => {
+    const [, no] = type(playing, ["/выбросить Кинжал", "нет"]);
+    expect(outcomes(no)).toEqual([]);
+    expect(no.mode).toEqual(CHOICE_MODE);
+  });
+
+  it("asks for the argument before confirming", () => {
+    const [ask, arg, yes] = type(playing, ["/drop", "Кинжал", "y"]);
+    expect(ask.mode.kind).toBe("args");
+    expect(outcomes(arg)).toEqual([]);
+    expect(arg.mode.kind).toBe("confirm");
+    expect(outcomes(yes)).toEqual([{ type: "COMMAND", input: "/выбросить Кинжал путника" }]);
+  });
+});
+
+describe("character creation", () => {
+  it("takes the typed name as one SET_NAME", () => {
+    const naming: GameState = { ...makeInitialState(1), phase: "CHAR_NAME" };
+    expect(outcomes(routeInput(naming, CHOICE_MODE, "Ася"))).toEqual([{ type: "SET_NAME", name: "Ася" }]);
+  });
+
+  it("leaves the custom universe to the builder", () => {
+    const building: GameState = { ...makeInitialState(1), phase: "CUSTOM_RULES" };
+    expect(outcomes(routeInput(building, CHOICE_MODE, "магия запрещена"))).toEqual([]);
+  });
+
+  it("points at the buttons when a phase has no text input", () => {
+    const r = routeInput(makeInitialState(1), CHOICE_MODE, "1");
+    expect(outcomes(r)).toEqual([]);
+    expect(r.notice).toBeTruthy();
+  });
+});
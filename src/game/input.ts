@@ -0,0 +1,115 @@
+import { commandUsage, findCommand, parseArgs } from "./commands";
+import type { GameAction } from "./engine";
+import { findItem } from "./inventory";
+import type { GameState } from "./types";
+
+/**
+ * What the next line typed into the input box means: a scene choice or
+ * command, the free-text action after "4", the missing argument of the
+ * last command, or a yes/no answer to a pending confirmation.
+ */
+export type InputMode =
+  | { kind: "choice" }
+  | { kind: "custom" }
+  | { kind: "args"; command: string; prompt: string }
+  | { kind: "confirm"; action: GameAction; prompt: string };
+
+/**
+ * The outcome of one line: at most one engine `action`, or `narrate` — a
+ * free-text action for the narrator, which dispatches exactly one action
+ * itself. `notice` is a hint for the input box, not a log entry.
+ */
+export type InputRoute = { mode: InputMode; action?: GameAction; narrate?: string; notice?: string };
+
+export const CHOICE_MODE: InputMode = { kind: "choice" };
+
+/** What a confirmation asks about, or why there is nothing to confirm. */
+type Confirm = { input: string; prompt: string } | { error: string };
+
+/**
+ * Resolves the item and count of a drop against the backpack as it is now.
+ * The command is rewritten with the item's full name so that the answer
+ * cannot land on another item after the backpack shifts.
+ */
+function confirmDrop(state: GameState, [ref = "", count]: string[]): Confirm {
+  const idx = findItem(state, ref);
+  if (idx < 0) return { error: `Нет предмета «${ref}».` };
+  const it = state.backpack[idx];
+  const qty = count ? Number(count) : 1;
+  if (qty < 1 || qty > (it.qty ?? 1)) return { error: `«${it.name}»: в рюкзаке только ${it.qty ?? 1}.` };
+  const n = it.qty === undefined ? "" : ` ${qty}`;
+  return { input: `/выбросить ${it.name}${n}`, prompt: `Выбросить «${it.name}»${n && ` x${qty}`}? да / нет` };
+}
+
+/** Commands that throw something away ask first, and check again on the answer. */
+const CONFIRM: Record<string, (state: GameState, args: string[]) => Confirm> = {
+  "/выбросить": confirmDrop,
+};
+
+const YES = /^(да|д|yes|y|ок|ok)$/i;
+const CANCEL = /^(отмена|cancel)$/i;
+
+export function modePrompt(mode: InputMode) {
+  if (mode.kind === "custom") return "Опишите своё действие (или «отмена»).";
+  if (mode.kind === "args" || mode.kind === "confirm") return mode.prompt;
+  return "";
+}
+
+/** Splits a command line into its definition and arguments, if the command exists. */
+function splitCommand(text: string) {
+  const [word, ...words] = text.split(/\s+/);
+  const def = findCommand(word);
+  return def && { def, words, args: parseArgs(def, words) };
+}
+
+function confirmAnswer(state: GameState, action: GameAction): InputRoute {
+  const cmd = action.type === "COMMAND" ? splitCommand(action.input) : undefined;
+  const check = cmd && CONFIRM[cmd.def.name]?.(state, cmd.args);
+  if (check && "error" in check) return { mode: CHOICE_MODE, notice: check.error };
+  return { mode: CHOICE_MODE, action };
+}
+
+function routeCommand(state: GameState, text: string): InputRoute {
+  const cmd = splitCommand(text);
+  if (!cmd) return { mode: CHOICE_MODE, action: { type: "COMMAND", input: text } };
+  const { def, words, args } = cmd;
+
+  const missing = def.args.find(a => !a.optional);
+  if (missing && !words.length) {
+    const prompt = `Укажите ${missing.name}: ${commandUsage(def)}`;
+    return { mode: { kind: "args", command: def.name, prompt }, notice: prompt };
+  }
+  const ask = CONFIRM[def.name]?.(state, args);
+  if (ask && "error" in ask) return { mode: CHOICE_MODE, notice: ask.error };
+  if (ask) return { mode: { kind: "confirm", action: { type: "COMMAND", input: ask.input }, prompt: ask.prompt }, notice: ask.prompt };
+  return { mode: CHOICE_MODE, action: { type: "COMMAND", input: [def.name, ...words].join(" ") } };
+}
+
+function routePlay(state: GameState, mode: InputMode, text: string): InputRoute {
+  if (mode.kind === "confirm") {
+    return YES.test(text) ? confirmAnswer(state, mode.action) : { mode: CHOICE_MODE, notice: "Отменено." };
+  }
+  if (text.startsWith("/")) return routeCommand(state, text);
+  if (CANCEL.test(text) && mode.kind !== "choice") return { mode: CHOICE_MODE, notice: "Отменено." };
+  if (mode.kind === "args") return routeCommand(state, `${mode.command} ${text}`);
+  if (mode.kind === "custom") return { mode: CHOICE_MODE, narrate: text };
+
+  if (text === "1" || text === "2" || text === "3") return { mode: CHOICE_MODE, action: { type: "CHOICE", id: text } };
+  if (text === "4") {
+    // in a fight "4" alone is a cautious move; elsewhere it opens the free-text mode
+    if (state.enemy) return { mode: CHOICE_MODE, action: { type: "CHOICE", id: "4" } };
+    return { mode: { kind: "custom" }, notice: modePrompt({ kind: "custom" }) };
+  }
+  const custom = /^4[).:]?\s+(.+)$/.exec(text);
+  return { mode: CHOICE_MODE, narrate: custom ? custom[1] : text };
+}
+
+/** Routes one line of input to exactly one outcome; empty input does nothing. */
+export function routeInput(state: GameState, mode: InputMode, raw: string): InputRoute {
+  const text = raw.trim();
+  if (!text) return { mode };
+  if (state.phase === "PLAY") return routePlay(state, mode, text);
+  if (state.phase === "CHAR_NAME") return { mode: CHOICE_MODE, action: { type: "SET_NAME", name: text } };
+  if (text.startsWith("/")) return { mode: CHOICE_MODE, action: { type: "COMMAND", input: text } };
+  return { mode: CHOICE_MODE, notice: "Сейчас выберите вариант кнопками выше." };
+}
@@ -0,0 +1,184 @@
+import { applyEffect, cureEffects } from "./effects";
+import { healingMultiplier, mpRegenMultiplier } from "./modifiers";
+import type { BackpackItem, GameState, Item, Stats } from "./types";
+import { addLog, applyBonuses, clamp, fmtClock, sumWeight } from "./util";
+
+/** Stackable items share one slot per this many units. */
+export const STACK_SIZE = 5;
+export const MAX_ACCESSORIES = 2;
+
+const OVERLOAD_PENALTY: Partial<Stats> = { dex: 2 };
+
+export type InventoryOp = "equip" | "unequip" | "drop" | "use";
+export type InventoryResult = { ok: boolean; text: string };
+
+const stackable = (it: Item) => it.qty !== undefined;
+const itemSlots = (it: Item) => (stackable(it) ? it.slots * Math.ceil((it.qty ?? 0) / STACK_SIZE) : it.slots);
+const label = (it: Item) => `${it.rarity} ${it.name}${it.level ? ` (ур. ${it.level})` : ""}${stackable(it) ? ` x${it.qty}` : ""}`;
+
+export function usedSlots(state: GameState) { return state.backpack.reduce((acc, it) => acc + itemSlots(it), 0); }
+
+/** Base stats with the bonuses and penalties of the weapon, armor and accessories worn. */
+function gearStats(state: GameState): Stats {
+  let s = applyBonuses(state.stats, state.equipped.weapon1?.bonuses, state.equipped.weapon1?.penalties);
+  s = applyBonuses(s, state.equipped.armor?.bonuses, state.equipped.armor?.penalties);
+  for (const acc of state.equipped.accessories) s = applyBonuses(s, acc.bonuses, acc.penalties);
+  return s;
+}
+
+/** Worn gear counts towards what the hero can carry; the overload penalty cannot, as it comes from this limit. */
+export function capacity(state: GameState) {
+  const st = gearStats(state);
+  return { slots: 6 + st.str + Math.floor(st.end / 2), weight: 10 + st.str * 3 + st.end * 2 };
+}
+
+export function carriedWeight(state: GameState) {
+  const eq = state.equipped;
+  return sumWeight(state.backpack) + (eq.weapon1?.weight ?? 0) + (eq.armor?.weight ?? 0) + sumWeight(eq.accessories);
+}
+
+export function isOverloaded(state: GameState) { return carriedWeight(state) > capacity(state).weight; }
+
+/** Base stats with gear affixes, accessories and the overload penalty applied. */
+export function effectiveStats(state: GameState): Stats {
+  const s = gearStats(state);
+  return isOverloaded(state) ? applyBonuses(s, undefined, OVERLOAD_PENALTY) : s;
+}
+
+/** Every item gained or lost goes through here into the loot journal. */
+function journal(state: GameState, sign: "+" | "−", text: string, source: string) {
+  state.lootJournal = [...state.lootJournal, `[${fmtClock(state)}] ${sign} ${text} — ${source}`];
+}
+
+function fits(state: GameState, item: Item, freed = 0) {
+  const stack = stackable(item) ? state.backpack.find(it => it.id === item.id && stackable(it)) : undefined;
+  const extra = stack ? itemSlots({ ...stack, qty: (stack.qty ?? 0) + (item.qty ?? 1) }) - itemSlots(stack) : itemSlots(item);
+  return usedSlots(state) - freed + extra <= capacity(state).slots;
+}
+
+/** Puts an item into the backpack, stacking by id. Returns false when there is no room. */
+export function addItem(state: GameState, item: BackpackItem, source: string) {
+  if (!fits(state, item)) {
+    addLog(state, "system", `🎒 Рюкзак полон: «${item.name}» остаётся на месте.`);
+    return false;
+  }
+  const stack = stackable(item) ? state.backpack.find(it => it.id === item.id && stackable(it)) : undefined;
+  if (stack) stack.qty = (stack.qty ?? 0) + (item.qty ?? 1);
+  else state.backpack.push(structuredClone(item));
+  journal(state, "+", label(item), source);
+  return true;
+}
+
+/** Resolves "2" (position in /инвентарь) or a full/partial item name to a backpack index. */
+export function findItem(state: GameState, ref: string) {
+  const q = ref.trim().toLowerCase();
+  if (/^\d+$/.test(q)) {
+    const n = Number(q) - 1;
+    return n >= 0 && n < state.backpack.length ? n : -1;
+  }
+  const exact = state.backpack.findIndex(it => it.name.toLowerCase() === q);
+  return exact >= 0 ? exact : state.backpack.findIndex(it => it.name.toLowerCase().includes(q));
+}
+
+function takeFromBackpack(state: GameState, idx: number, qty = 1): BackpackItem {
+  const it = state.backpack[idx];
+  if (!stackable(it)) return state.backpack.splice(idx, 1)[0];
+  const n = clamp(qty, 1, it.qty ?? 1);
+  it.qty = (it.qty ?? 1) - n;
+  if (!it.qty) state.backpack.splice(idx, 1);
+  return { ...it, qty: n };
+}
+
+/** Removes an item (or part of a stack) for good and records the loss. */
+export function loseItem(state: GameState, idx: number, source: string, qty = 1): BackpackItem {
+  const item = takeFromBackpack(state, idx, qty);
+  journal(state, "−", label(item), source);
+  return item;
+}
+
+/** Death: the whole backpack is gone, item by item into the journal. */
+export function loseBackpack(state: GameState, source: string) {
+  for (const it of state.backpack) journal(state, "−", label(it), source);
+  state.backpack = [];
+}
+
+export function equipItem(state: GameState, ref: string): InventoryResult {
+  const idx = findItem(state, ref);
+  if (idx < 0) return { ok: false, text: `Нет предмета «${ref}».` };
+  const it = state.backpack[idx];
+  const eq = state.equipped;
+
+  if (it.type === "accessory") {
+    if (eq.accessories.length >= MAX_ACCESSORIES) return { ok: false, text: `Аксессуаров уже ${MAX_ACCESSORIES} — сначала снимите один.` };
+    eq.accessories.push(takeFromBackpack(state, idx));
+    return { ok: true, text: `🧤 Надето: ${label(it)} (аксессуар)` };
+  }
+  if (it.type !== "weapon" && it.type !== "armor") return { ok: false, text: `«${it.name}» не надеть — это не снаряжение.` };
+
+  const old = it.type === "weapon" ? eq.weapon1 : eq.armor;
+  if (old && !fits(state, old, itemSlots(it))) return { ok: false, text: `Рюкзак полон: некуда убрать ${label(old)}.` };
+
+  const item = takeFromBackpack(state, idx);
+  if (it.type === "weapon") eq.weapon1 = item;
+  else eq.armor = item;
+  if (old) state.backpack.push(old);
+  return { ok: true, text: `🧤 Надето: ${label(item)}${old ? ` | В рюкзак: ${label(old)}` : ""}` };
+}
+
+/** `ref` is "оружие", "броня" or an accessory name. */
+export function unequipItem(state: GameState, ref: string): InventoryResult {
+  const q = ref.trim().toLowerCase();
+  const eq = state.equipped;
+  let item: Item | undefined;
+  let detach = () => {};
+
+  if (/^оруж/.test(q) || (eq.weapon1 && eq.weapon1.name.toLowerCase().includes(q))) { item = eq.weapon1; detach = () => { delete eq.weapon1; }; }
+  else if (/^брон/.test(q) || (eq.armor && eq.armor.name.toLowerCase().includes(q))) { item = eq.armor; detach = () => { delete eq.armor; }; }
+  else {
+    const i = eq.accessories.findIndex(a => a.name.toLowerCase().includes(q));
+    if (i >= 0) { item = eq.accessories[i]; detach = () => { eq.accessories.splice(i, 1); }; }
+  }
+
+  if (!item) return { ok: false, text: `Не надето: «${ref}».` };
+  if (!fits(state, item)) return { ok: false, text: `Рюкзак полон: некуда снять ${label(item)}.` };
+  detach();
+  state.backpack.push(item);
+  return { ok: true, text: `Снято: ${label(item)} → рюкзак` };
+}
+
+export function dropItem(state: GameState, ref: string, qty = 1): InventoryResult {
+  const idx = findItem(state, ref);
+  if (idx < 0) return { ok: false, text: `Нет предмета «${ref}».` };
+  if (state.backpack[idx].type === "quest") return { ok: false, text: `«${state.backpack[idx].name}» нужен для задания — его нельзя выбросить.` };
+  const item = loseItem(state, idx, "выброшено", qty);
+  return { ok: true, text: `🗑 Выброшено: ${label(item)}` };
+}
+
+export function consumeItem(state: GameState, ref: string): InventoryResult {
+  const idx = findItem(state, ref);
+  if (idx < 0) return { ok: false, text: `Нет предмета «${ref}».` };
+  const it = state.backpack[idx];
+  if (it.type !== "consumable" || !it.use) return { ok: false, text: `«${it.name}» нельзя использовать.` };
+
+  const parts: string[] = [];
+  const hp = Math.round((it.use.hp ?? 0) * healingMultiplier(state));
+  const mp = Math.round((it.use.mp ?? 0) * mpRegenMultiplier(state));
+  if (hp) { state.hpCur = clamp(state.hpCur + hp, 0, state.hpMax); parts.push(`+${hp} HP → ❤️ ${state.hpCur}/${state.hpMax}`); }
+  if (mp) { state.mpCur = clamp(state.mpCur + mp, 0, state.mpMax); parts.push(`+${mp} MP → 🔷 ${state.mpCur}/${state.mpMax}`); }
+  if (it.use.cure?.length) parts.push(cureEffects(state, it.use.cure) ? `снято ${it.use.cure.join("")}` : `${it.use.cure.join("")} нечего снимать`);
+  if (it.use.effect) parts.push(applyEffect(state, it.use.effect) ?? `${it.use.effect} не действует`);
+  loseItem(state, idx, "использовано");
+  return { ok: true, text: `✦ ${it.name}: ${parts.join(", ") || "без эффекта"}` };
+}
+
+/** First consumable that restores HP, used by the "Расходник" combat choice. */
+export function firstHealingItem(state: GameState) {
+  return state.backpack.findIndex(it => it.type === "consumable" && (it.use?.hp ?? 0) > 0 && (it.qty ?? 1) > 0);
+}
+
+export function runInventoryOp(state: GameState, op: InventoryOp, ref: string, qty?: number): InventoryResult {
+  if (op === "equip") return equipItem(state, ref);
+  if (op === "unequip") return unequipItem(state, ref);
+  if (op === "drop") return dropItem(state, ref, qty);
+  return consumeItem(state, ref);
+}
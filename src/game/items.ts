@@ -0,0 +1,17 @@
+import type { Armor, BackpackItem, Weapon } from "./types";
+
+export const STARTER_DAGGER: Weapon = { id: "w_dagger", rarity: "⚪", name: "Кинжал путника", type: "weapon", weight: 0.8, slots: 1, dmgMin: 6, dmgMax: 10, dmgIcons: ["🪛"], reqDex: 3 };
+export const STARTER_TUNIC: Armor = { id: "a_tunic", rarity: "⚪", name: "Кожаная куртка", type: "armor", weight: 4.5, slots: 2, defense: 2 };
+export const BANDAGE: BackpackItem = { id: "c_bandage", rarity: "⚪", name: "Бинт", type: "consumable", weight: 0.1, slots: 1, qty: 1, use: { hp: 3, cure: ["🩸"] } };
+export const ANTIDOTE: BackpackItem = { id: "c_antidote", rarity: "🟢", name: "Противоядие", type: "consumable", weight: 0.2, slots: 1, qty: 1, use: { cure: ["☠️"] } };
+export const REGEN_TONIC: BackpackItem = { id: "c_regen", rarity: "🟢", name: "Тоник регенерации", type: "consumable", weight: 0.3, slots: 1, qty: 1, use: { effect: "💚" } };
+export const HEALING_POTION: BackpackItem = { id: "c_potion", rarity: "⚪", name: "Зелье лечения", type: "consumable", weight: 0.3, slots: 1, qty: 1, use: { hp: 14 } };
+
+// quest items
+export const OILED_BUNDLE: BackpackItem = { id: "q_bundle", rarity: "🟢", name: "Промасленный свёрток", type: "quest", weight: 0.5, slots: 1 };
+
+// materials dropped by the bestiary
+export const WOLF_PELT: BackpackItem = { id: "m_pelt", rarity: "⚪", name: "Шкура зверя", type: "material", weight: 1.2, slots: 1, qty: 1 };
+export const SLIME_CORE: BackpackItem = { id: "m_slime", rarity: "🟢", name: "Ядро слизня", type: "material", weight: 0.2, slots: 1, qty: 1 };
+export const GHOST_DUST: BackpackItem = { id: "m_ghost", rarity: "🔵", name: "Призрачная пыль", type: "material", weight: 0.1, slots: 1, qty: 1 };
+export const BANDIT_TOKEN: BackpackItem = { id: "m_token", rarity: "⚪", name: "Жетон банды", type: "material", weight: 0.1, slots: 1, qty: 1 };
@@ -0,0 +1,127 @@
+import { ANTIDOTE, BANDAGE, HEALING_POTION, REGEN_TONIC } from "./items";
+import { rareLootBonus } from "./modifiers";
+import type { BackpackItem, DamageIcon, GameState, ItemType, Rarity, Rng, Stats } from "./types";
+import { fmtBonus, rollRange } from "./util";
+
+export const RARITIES: Rarity[] = ["⚪", "🟢", "🔵", "🟣", "🟠", "🔴"];
+const BASE_WEIGHTS = [600, 250, 100, 35, 12, 3];
+/** Affix count per rarity tier. */
+const AFFIXES_BY_TIER = [0, 1, 1, 2, 2, 3];
+
+/** Chance (%) that a defeated enemy leaves a generated item besides its own drops. */
+export const GEAR_DROP_CHANCE = 35;
+
+type GearBase = Pick<BackpackItem, "name" | "type" | "weight" | "slots" | "dmgMin" | "dmgMax" | "dmgIcons" | "reqStr" | "reqDex" | "defense" | "penalties">;
+
+const BASES: GearBase[] = [
+  { name: "Меч", type: "weapon", weight: 1.5, slots: 2, dmgMin: 6, dmgMax: 10, dmgIcons: ["🗡️"], reqStr: 3 },
+  { name: "Секира", type: "weapon", weight: 2.5, slots: 2, dmgMin: 7, dmgMax: 12, dmgIcons: ["🪓"], reqStr: 4 },
+  { name: "Кинжал", type: "weapon", weight: 0.8, slots: 1, dmgMin: 4, dmgMax: 8, dmgIcons: ["🪛"], reqDex: 3 },
+  { name: "Лук", type: "weapon", weight: 1.2, slots: 2, dmgMin: 5, dmgMax: 9, dmgIcons: ["🏹"], reqDex: 4 },
+  { name: "Булава", type: "weapon", weight: 2.2, slots: 2, dmgMin: 6, dmgMax: 10, dmgIcons: ["💥"], reqStr: 3 },
+  { name: "Кожаный доспех", type: "armor", weight: 4.5, slots: 2, defense: 2 },
+  { name: "Кольчуга", type: "armor", weight: 8, slots: 3, defense: 4, penalties: { dex: 1 } },
+  { name: "Мантия", type: "armor", weight: 2, slots: 1, defense: 1 },
+  { name: "Латы", type: "armor", weight: 11, slots: 3, defense: 6, penalties: { dex: 2 } },
+  { name: "Кольцо", type: "accessory", weight: 0.1, slots: 1 },
+  { name: "Амулет", type: "accessory", weight: 0.2, slots: 1 },
+];
+
+/** Suffix in the genitive ("Меч пламени"); `for` limits it to some item types. */
+type Affix = { name: string; for?: BackpackItem["type"][]; icon?: DamageIcon; dmg?: number; defense?: number; bonus?: keyof Stats; penalty?: keyof Stats };
+
+const AFFIXES: Affix[] = [
+  { name: "пламени", for: ["weapon"], icon: "🔥", dmg: 1 },
+  { name: "стужи", for: ["weapon"], icon: "❄️", dmg: 1 },
+  { name: "грозы", for: ["weapon"], icon: "⚡", dmg: 1 },
+  { name: "яда", for: ["weapon"], icon: "🧪", dmg: 1 },
+  { name: "тьмы", for: ["weapon"], icon: "🌑", dmg: 1 },
+  { name: "света", for: ["weapon"], icon: "☀️", dmg: 1 },
+  { name: "остроты", for: ["weapon"], dmg: 3 },
+  { name: "защиты", for: ["armor"], defense: 2 },
+  { name: "силы", bonus: "str" },
+  { name: "ловкости", bonus: "dex" },
+  { name: "стойкости", bonus: "end" },
+  { name: "разума", bonus: "int" },
+  { name: "обаяния", bonus: "cha" },
+  { name: "удачи", bonus: "luck" },
+  { name: "берсерка", bonus: "str", penalty: "int" },
+  { name: "тени", bonus: "dex", penalty: "end" },
+];
+
+const CONSUMABLES = [HEALING_POTION, BANDAGE, ANTIDOTE, REGEN_TONIC];
+
+const pick = <T>(rng: Rng, list: T[]) => list[Math.floor(rng() * list.length)];
+
+/**
+ * Rarity weights ⚪→🔴. Each point of 🍀 above 3 makes every tier 10% more
+ * likely than the one below; «Трофейщик» counts as two extra points.
+ */
+export function rarityWeights(state: GameState): number[] {
+  const luck = state.stats.luck - 3 + rareLootBonus(state) * 2;
+  const step = Math.max(0.5, 1 + luck * 0.1);
+  return BASE_WEIGHTS.map((w, i) => w * Math.pow(step, i));
+}
+
+export function rollRarity(state: GameState, rng: Rng): Rarity {
+  const weights = rarityWeights(state);
+  let n = rng() * weights.reduce((a, b) => a + b, 0);
+  return RARITIES.find((_, i) => (n -= weights[i]) < 0) ?? "⚪";
+}
+
+function addStat(stats: Partial<Stats> | undefined, k: keyof Stats, v: number) {
+  return { ...stats, [k]: (stats?.[k] ?? 0) + v };
+}
+
+/** A random weapon, armor or accessory (or only the given types) of the given rarity and item level. */
+export function generateGear(rarity: Rarity, level: number, rng: Rng, types?: ItemType[]): BackpackItem {
+  const tier = RARITIES.indexOf(rarity);
+  const base = pick(rng, types ? BASES.filter(b => types.includes(b.type)) : BASES);
+  const up = level - 1;
+  const item: BackpackItem = {
+    ...structuredClone(base),
+    id: `g_${Math.floor(rng() * 2 ** 32).toString(36)}`,
+    rarity,
+    level,
+  };
+  if (item.type === "weapon") {
+    item.dmgMin = Math.round((base.dmgMin! + up) * (1 + tier * 0.1));
+    item.dmgMax = Math.round((base.dmgMax! + up) * (1 + tier * 0.1));
+  }
+  if (item.type === "armor") item.defense = base.defense! + Math.floor(up / 2) + Math.floor(tier / 2);
+  if (item.type === "accessory") item.bonuses = addStat(undefined, pick(rng, ["str", "dex", "end", "int", "cha", "luck"] as (keyof Stats)[]), 1);
+
+  const pool = AFFIXES.filter(a => !a.for || a.for.includes(item.type));
+  const names: string[] = [];
+  for (let i = 0; i < AFFIXES_BY_TIER[tier] && pool.length; i++) {
+    const a = pool.splice(Math.floor(rng() * pool.length), 1)[0];
+    names.push(a.name);
+    const power = tier >= 4 ? 2 : 1;
+    if (a.icon && !item.dmgIcons?.includes(a.icon)) item.dmgIcons = [...(item.dmgIcons ?? []), a.icon];
+    if (a.dmg) { item.dmgMin! += a.dmg * power; item.dmgMax! += a.dmg * power; }
+    if (a.defense) item.defense = (item.defense ?? 0) + a.defense * power;
+    if (a.bonus) item.bonuses = addStat(item.bonuses, a.bonus, power + (a.penalty ? 1 : 0));
+    if (a.penalty) item.penalties = addStat(item.penalties, a.penalty, 1);
+  }
+  if (names.length) item.name = `${base.name} ${names.join(" и ")}`;
+  return item;
+}
+
+export const rollConsumable = (rng: Rng): BackpackItem => ({ ...pick(rng, CONSUMABLES), qty: 1 });
+
+/** One loot roll: mostly gear, sometimes a consumable; rarity depends on 🍀 and perks. */
+export function rollLoot(state: GameState, level: number, rng: Rng): BackpackItem {
+  if (rollRange(rng, 1, 100) <= 20) return rollConsumable(rng);
+  return generateGear(rollRarity(state, rng), Math.max(1, level), rng);
+}
+
+/** Short stat line for gear: damage, defense, affix bonuses and penalties, item level. */
+export function fmtGear(it: BackpackItem) {
+  const parts: string[] = [];
+  if (it.dmgMin !== undefined) parts.push(`${(it.dmgIcons ?? []).join("")} ${it.dmgMin}–${it.dmgMax}`);
+  if (it.defense) parts.push(`🧱${it.defense}`);
+  if (it.bonuses) parts.push(fmtBonus(it.bonuses));
+  if (it.penalties) parts.push(fmtBonus(it.penalties).replace(/\+/g, "−"));
+  if (it.level) parts.push(`ур. ${it.level}`);
+  return parts.join(" | ");
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+
+import { CLASSES } from "./data";
+import { reduce } from "./engine";
+import { STATE_VERSION, migrateState } from "./migrations";
+import { makeInitialState } from "./state";
+
+describe("migrateState", () => {
+  it("re-reads the trait definitions of an older hero", () => {
+    const hero = reduce(reduce(makeInitialState(1), { type: "CHOOSE_RACE", id: "r10" }), { type: "CHOOSE_CLASS", id: "c10" });
+    const { daily: _, ...old } = { ...hero, version: 4, race: { ...hero.race, worldImpact: [{ kind: "note", text: "тех-торг" }] }, cls: { ...hero.cls, worldImpact: [{ kind: "note", text: "дуэли" }] } };
+
+    const res = migrateState(JSON.parse(JSON.stringify(old)));
+    expect(res.ok && res.migrated).toBe(true);
+    expect(res.ok && res.state.version).toBe(STATE_VERSION);
+    expect(res.ok && res.state.race?.worldImpact).toEqual([{ kind: "price", scope: "trade", pct: 10 }]);
+    expect(res.ok && res.state.cls).toEqual(CLASSES.find(c => c.id === "c10"));
+  });
+
+  it("gives every save of an old run the same run id", () => {
+    const { run: _, ...state } = makeInitialState(7);
+    const a = migrateState({ ...state, version: 9 });
+    const b = migrateState({ ...state, version: 9, day: 5 });
+    expect(a.ok && a.state.run).toBe("legacy-7");
+    expect(b.ok && b.state.run).toBe("legacy-7");
+  });
+});
@@ -0,0 +1,149 @@
+import { starterAbilities } from "./abilities";
+import { loadCanonPack } from "./canon/load";
+import { loadCustomWorld } from "./custom";
+import { BACKGROUNDS, CLASSES, RACES } from "./data";
+import type { GameState } from "./types";
+
+export const STATE_VERSION = 11;
+
+type RawState = Record<string, unknown>;
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isObj = (v: unknown): v is RawState => !!v && typeof v === "object" && !Array.isArray(v);
+const oneOf = (list: string[], v: unknown) => typeof v === "string" && list.includes(v);
+const idOf = (v: unknown) => (isObj(v) ? v.id : undefined);
+const listOf = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+
+/**
+ * MIGRATIONS[n] upgrades a version-n state to version n+1. Every bump of
+ * STATE_VERSION must add a step here so old saves keep loading.
+ */
+const MIGRATIONS: Record<number, (s: RawState) => RawState> = {
+  // 1 → 2: seeded rng stored in the state
+  1: s => ({ ...s, rng: { seed: (Number(s.day) * 7919 + Number(s.hour) * 104729) >>> 0, cursor: 0 } }),
+  // 2 → 3: scene graph ids and scene flags
+  2: s => ({ ...s, node: typeof s.node === "string" ? s.node : "HUB", flags: {} }),
+  // 3 → 4: consumables describe their own effect instead of a hard-coded potion id
+  3: s => ({ ...s, backpack: listOf(s.backpack).map(it => (isObj(it) && it.id === "c_potion" ? { ...it, use: { hp: 14 } } : it)) }),
+  // 4 → 5: trait texts became structured modifiers; re-read the definitions by id
+  4: s => ({
+    ...s,
+    race: RACES.find(r => r.id === idOf(s.race)) ?? s.race,
+    cls: CLASSES.find(c => c.id === idOf(s.cls)) ?? s.cls,
+    bg: BACKGROUNDS.find(b => b.id === idOf(s.bg)) ?? s.bg,
+    daily: {},
+  }),
+  // 5 → 6: level-up points and class abilities; existing heroes get their tree roots
+  5: s => {
+    const cls = idOf(s.cls);
+    return { ...s, statPoints: 0, abilityPoints: 0, abilities: typeof cls === "string" && cls ? starterAbilities(cls) : [] };
+  },
+  // 6 → 7: hub merchants
+  6: s => ({ ...s, shops: {} }),
+  // 7 → 8: quests
+  7: s => ({ ...s, quests: [] }),
+  // 8 → 9: world map; the breadcrumb starts from where the hero stands
+  8: s => ({ ...s, path: s.location && s.location !== "—" ? [s.location] : [] }),
+  // 9 → 10: difficulty modes; old saves keep the old rules (backpack lost, nothing else).
+  // Every save of an old run gets the same run id from its dice, so a permadeath sticks to all of them.
+  9: s => ({
+    ...s,
+    difficulty: "STANDARD",
+    deathRules: { xpLoss: 0, moneyLoss: 0, backpack: "lose" },
+    deaths: 0,
+    run: `legacy-${String(isObj(s.rng) ? s.rng.seed : 0)}`,
+  }),
+  // 10 → 11: factions and NPCs; trait notes such as "уважение магов" became reputation, so re-read the definitions
+  10: s => ({ ...rereadTraits(s), reputation: {}, npcs: {} }),
+};
+
+function traitsById(s: RawState): RawState {
+  return { ...s, race: RACES.find(r => r.id === idOf(s.race)) ?? s.race, cls: CLASSES.find(c => c.id === idOf(s.cls)) ?? s.cls };
+}
+
+/** The hero's and every party member's race and class, re-read from the current definitions. */
+function rereadTraits(s: RawState): RawState {
+  const party = s.party;
+  if (!isObj(party)) return traitsById(s);
+  return { ...traitsById(s), party: { ...party, members: listOf(party.members).map(m => (isObj(m) && isObj(m.sheet) ? { ...m, sheet: traitsById(m.sheet) } : m)) } };
+}
+
+const PHASES = ["SETTINGS", "CANON_MODE", "CUSTOM_RULES", "CHAR_SEX", "CHAR_NAME", "CHAR_RACE", "CHAR_CLASS", "CHAR_BG", "PLAY", "LEVEL_UP", "DEAD"];
+const DIFFICULTY_IDS = ["STORY", "STANDARD", "HARDCORE"];
+const BACKPACK_RULES = ["keep", "corpse", "lose"];
+const STAT_KEYS = ["str", "dex", "end", "int", "cha", "luck"];
+
+/** Structural check of a state at the current version; returns human-readable problems. */
+export function validateState(s: unknown): string[] {
+  if (!isObj(s)) return ["сохранение не является объектом"];
+  const errors: string[] = [];
+  if (s.version !== STATE_VERSION) errors.push(`version: ожидалась ${STATE_VERSION}, получено ${String(s.version)}`);
+  if (typeof s.run !== "string" || !s.run) errors.push("run: нужна непустая строка");
+  if (!oneOf(PHASES, s.phase)) errors.push(`phase: неизвестная фаза ${String(s.phase)}`);
+  if (s.wear !== "ON" && s.wear !== "OFF") errors.push("wear: ожидалось ON или OFF");
+  if (!oneOf(DIFFICULTY_IDS, s.difficulty)) errors.push(`difficulty: неизвестная сложность ${String(s.difficulty)}`);
+  if (!isObj(s.deathRules) || !isNum(s.deathRules.xpLoss) || !isNum(s.deathRules.moneyLoss) || !oneOf(BACKPACK_RULES, s.deathRules.backpack)) {
+    errors.push("deathRules: нужны xpLoss, moneyLoss и backpack");
+  }
+  if (!isObj(s.rng) || !isNum(s.rng.seed) || !isNum(s.rng.cursor)) errors.push("rng: нужны числа seed и cursor");
+  else if (s.rng.sealed !== undefined && typeof s.rng.sealed !== "string") errors.push("rng.sealed: ожидалась строка");
+  for (const k of ["day", "hour", "level", "xp", "xpToNext", "hpCur", "hpMax", "mpCur", "mpMax", "money", "statPoints", "abilityPoints", "deaths"]) {
+    if (!isNum(s[k])) errors.push(`${k}: ожидалось число`);
+  }
+  for (const k of ["weather", "location", "journalPath", "node"]) {
+    if (typeof s[k] !== "string") errors.push(`${k}: ожидалась строка`);
+  }
+  if (!isObj(s.flags)) errors.push("flags: ожидался объект");
+  if (!isObj(s.daily)) errors.push("daily: ожидался объект");
+  if (!isObj(s.shops)) errors.push("shops: ожидался объект");
+  if (!isObj(s.reputation) || !Object.values(s.reputation).every(isNum)) errors.push("reputation: ожидались числа по фракциям");
+  if (!isObj(s.npcs) || !Object.values(s.npcs).every(isNum)) errors.push("npcs: ожидались числа по NPC");
+  if (s.canonPack !== undefined) {
+    const pack = loadCanonPack(s.canonPack);
+    if (!pack.ok) errors.push(...pack.errors.map(e => `canonPack.${e}`));
+  }
+  if (s.storyBeat !== undefined && !isNum(s.storyBeat)) errors.push("storyBeat: ожидалось число");
+  if (s.customWorld !== undefined) {
+    const world = loadCustomWorld(s.customWorld);
+    if (!world.ok) errors.push(...world.errors.map(e => `customWorld.${e}`));
+  }
+  if (s.talk !== undefined && (!isObj(s.talk) || typeof s.talk.npc !== "string" || typeof s.talk.node !== "string")) errors.push("talk: нужны npc и node");
+  if (s.corpse !== undefined && (!isObj(s.corpse) || typeof s.corpse.location !== "string" || !Array.isArray(s.corpse.items) || !isNum(s.corpse.expires))) {
+    errors.push("corpse: нужны location, items и expires");
+  }
+  if (s.party !== undefined && (!isObj(s.party) || !Array.isArray(s.party.members) || !s.party.members.every((m: unknown) => isObj(m) && typeof m.id === "string" && typeof m.name === "string")
+    || typeof s.party.active !== "string" || typeof s.party.leader !== "string" || !Array.isArray(s.party.votes) || (s.party.mode !== "leader" && s.party.mode !== "vote"))) {
+    errors.push("party: нужны members, active, leader, mode и votes");
+  }
+  const stats = s.stats;
+  if (!isObj(stats) || !STAT_KEYS.every(k => isNum(stats[k]))) errors.push("stats: нужны числа str/dex/end/int/cha/luck");
+  if (!isObj(s.equipped) || !Array.isArray(s.equipped.accessories)) errors.push("equipped: нужен список accessories");
+  for (const k of ["backpack", "effects", "lootJournal", "log", "abilities", "quests", "path"]) {
+    if (!Array.isArray(s[k])) errors.push(`${k}: ожидался массив`);
+  }
+  if (Array.isArray(s.backpack) && !s.backpack.every((it: unknown) => isObj(it) && typeof it.id === "string" && typeof it.name === "string" && isNum(it.weight))) {
+    errors.push("backpack: у предметов нужны id, name и weight");
+  }
+  if (Array.isArray(s.log) && !s.log.every((m: unknown) => isObj(m) && (m.role === "system" || m.role === "player") && typeof m.text === "string")) {
+    errors.push("log: записи должны быть { role, text }");
+  }
+  return errors;
+}
+
+export type MigrationResult = { ok: true; state: GameState; migrated: boolean } | { ok: false; errors: string[] };
+
+/** Upgrades any known older version step by step, then validates the result. */
+export function migrateState(raw: unknown): MigrationResult {
+  if (!isObj(raw) || !isNum(raw.version)) return { ok: false, errors: ["нет поля version"] };
+  if (raw.version > STATE_VERSION) return { ok: false, errors: [`версия ${raw.version} новее игры (${STATE_VERSION})`] };
+
+  let s: RawState = raw;
+  for (let version = raw.version; version < STATE_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) return { ok: false, errors: [`нет миграции с версии ${version}`] };
+    s = { ...step(s), version: version + 1 };
+  }
+
+  const errors = validateState(s);
+  return errors.length ? { ok: false, errors } : { ok: true, state: s as GameState, migrated: raw.version !== STATE_VERSION };
+}
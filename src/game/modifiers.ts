@@ -0,0 +1,107 @@
+import { WORLD_LEVELS, WORLD_RULES } from "./data";
+import type { CheckTag, DamageIcon, FactionId, GameState, Modifier, Stats } from "./types";
+
+const STAT_DATIVE: Record<keyof Stats, string> = { str: "Силе", dex: "Ловкости", end: "Выносливости", int: "Интеллекту", cha: "Харизме", luck: "Удаче" };
+
+export const CHECK_TAG_LABELS: Record<CheckTag, string> = {
+  talk: "переговоры",
+  magic: "магия",
+  stealth: "скрытность",
+  ambush: "засады",
+  tracking: "следы",
+  mechanism: "механизмы",
+};
+
+export const FACTION_LABELS: Record<FactionId, string> = {
+  town: "горожане",
+  mages: "маги",
+  cults: "культы",
+  hunters: "охотники",
+};
+
+const signed = (n: number) => (n >= 0 ? `+${n}` : `${n}`);
+
+/** Player-facing text for one modifier. */
+export function describeModifier(m: Modifier): string {
+  switch (m.kind) {
+    case "stat": return `${signed(m.value)} к ${STAT_DATIVE[m.stat]}`;
+    case "check": return `${signed(m.value)}% к проверкам: ${CHECK_TAG_LABELS[m.tag]}`;
+    case "dailyCheck": return `Раз в день: ${signed(m.value)} к следующей проверке`;
+    case "damageTaken": return `${m.icon} ${m.pct >= 0 ? "больнее" : "слабее"} (${signed(m.pct)}%)`;
+    case "evasion": return `${signed(m.value)}% к уклонению`;
+    case "heavyArmor": return `${signed(m.value)}% штраф от тяжёлой брони`;
+    case "healing": return `лечение ${signed(m.pct)}%`;
+    case "mpRegen": return `реген MP ${signed(m.pct)}%`;
+    case "price": return `${signed(m.pct)}% к торгу${m.scope === "repair" ? " за ремонт" : ""}`;
+    case "firstFightDefense": return `${signed(m.value)} 🧱ЗАЩ в первом бою дня`;
+    case "rareLoot": return `${signed(m.value)} шанс на редкий лут`;
+    case "hints": return "подсказки шансов в сценах";
+    case "reputation": return `${signed(m.value)} к репутации: ${FACTION_LABELS[m.faction]}`;
+  }
+}
+
+export const describeModifiers = (mods: Modifier[]) => mods.map(describeModifier).join(", ");
+
+/** Every trait modifier the hero currently has: race, class and background. */
+export function heroModifiers(state: GameState): Modifier[] {
+  return [...(state.race?.weakness ?? []), ...(state.race?.worldImpact ?? []), ...(state.cls?.weakness ?? []), ...(state.cls?.worldImpact ?? []), ...(state.bg?.perk ?? [])];
+}
+
+/** Modifiers a built universe puts on every hero: its level and rule toggles. */
+export function worldModifiers(state: Pick<GameState, "customWorld">): Modifier[] {
+  const w = state.customWorld;
+  return w ? [...WORLD_LEVELS[w.level].mods, ...w.rules.flatMap(r => WORLD_RULES[r].mods ?? [])] : [];
+}
+
+function ofKind<K extends Modifier["kind"]>(state: GameState, kind: K): Extract<Modifier, { kind: K }>[] {
+  return [...heroModifiers(state), ...worldModifiers(state)].filter((m): m is Extract<Modifier, { kind: K }> => m.kind === kind);
+}
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+/** Flat stat penalties and bonuses from traits, applied once at character creation. */
+export function statModifiers(state: GameState): Partial<Stats> {
+  const out: Partial<Stats> = {};
+  for (const m of ofKind(state, "stat")) out[m.stat] = (out[m.stat] ?? 0) + m.value;
+  return out;
+}
+
+export const checkBonus = (state: GameState, tag: CheckTag | undefined) => (tag ? sum(ofKind(state, "check").filter(m => m.tag === tag).map(m => m.value)) : 0);
+
+/**
+ * Spends the once-a-day check bonus if it is available today.
+ * Returns the bonus, or 0 when the hero has no such perk or already used it.
+ */
+export function takeDailyCheck(state: GameState): number {
+  const bonus = sum(ofKind(state, "dailyCheck").map(m => m.value));
+  if (!bonus || state.daily.dailyCheck === state.day) return 0;
+  state.daily.dailyCheck = state.day;
+  return bonus;
+}
+
+/** Multiplier on incoming damage that carries any of the given icons. */
+export function traitDamageTaken(state: GameState, icons: DamageIcon[]): number {
+  const pct = sum(ofKind(state, "damageTaken").filter(m => icons.includes(m.icon)).map(m => m.pct));
+  return 1 + pct / 100;
+}
+
+export const evasionBonus = (state: GameState) => sum(ofKind(state, "evasion").map(m => m.value));
+export const heavyArmorPenalty = (state: GameState) => sum(ofKind(state, "heavyArmor").map(m => m.value));
+export const healingMultiplier = (state: GameState) => 1 + sum(ofKind(state, "healing").map(m => m.pct)) / 100;
+export const mpRegenMultiplier = (state: GameState) => 1 + sum(ofKind(state, "mpRegen").map(m => m.pct)) / 100;
+export const priceDiscount = (state: GameState, scope: "trade" | "repair") => sum(ofKind(state, "price").filter(m => m.scope === scope).map(m => m.pct)) / 100;
+export const rareLootBonus = (state: GameState) => sum(ofKind(state, "rareLoot").map(m => m.value));
+export const traitReputation = (state: GameState, faction: FactionId) => sum(ofKind(state, "reputation").filter(m => m.faction === faction).map(m => m.value));
+export const hasHints = (state: GameState) => ofKind(state, "hints").length > 0;
+
+/**
+ * Marks the start of a fight. The first fight of each day gets the
+ * background's defense bonus; later fights that day do not.
+ */
+export function beginFight(state: GameState) {
+  const first = state.daily.firstFight !== state.day;
+  state.daily.firstFight = state.day;
+  state.flags.firstFightOfDay = first;
+}
+
+export const firstFightDefense = (state: GameState) => (state.flags.firstFightOfDay ? sum(ofKind(state, "firstFightDefense").map(m => m.value)) : 0);
@@ -0,0 +1,75 @@
+import { applyEffect } from "../effects";
+import { addItem, loseItem } from "../inventory";
+import { sceneGraphFor } from "../scenes";
+import type { GameState, Item } from "../types";
+import { addLog, clamp } from "../util";
+import type { NarratorResult } from "./types";
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-zа-яё0-9]+/gi, "_").replace(/^_|_$/g, "");
+
+/**
+ * Applies a narrator result after checking it against the rules: deltas are
+ * clamped, and anything the world cannot allow is rejected and reported in the log.
+ */
+export function applyNarration(s: GameState, result: NarratorResult) {
+  const c = result.changes;
+  const rejected: string[] = [];
+  addLog(s, "system", result.narration);
+
+  if (c.hp) {
+    const cap = Math.max(3, Math.floor(s.hpMax / 4));
+    s.hpCur = clamp(s.hpCur + clamp(c.hp, -cap, cap), 1, s.hpMax);
+  }
+
+  if (c.money) {
+    const delta = clamp(c.money, -s.money, 20 + s.level * 10);
+    if (delta !== c.money) rejected.push(`деньги ${c.money} → ${delta}`);
+    s.money += delta;
+  }
+
+  for (const it of (c.addItems ?? []).slice(0, 2)) {
+    if (it.type === "weapon" || it.type === "armor" || it.type === "accessory") {
+      rejected.push(`${it.name}: снаряжение так не появляется`);
+      continue;
+    }
+    const item: Item = { id: `n_${slug(it.name)}`, rarity: "⚪", name: it.name, type: it.type, weight: 0.5, slots: 1, qty: clamp(it.qty ?? 1, 1, 3) };
+    addItem(s, item, "рассказ");
+  }
+
+  for (const ref of c.removeItems ?? []) {
+    const idx = s.backpack.findIndex(it => it.id === ref || it.name === ref);
+    if (idx < 0) { rejected.push(`нет предмета «${ref}»`); continue; }
+    if (s.backpack[idx].type === "quest") { rejected.push(`«${s.backpack[idx].name}» нужен для задания`); continue; }
+    loseItem(s, idx, "рассказ");
+  }
+
+  if (c.node && c.node !== s.node) {
+    if (s.enemy) rejected.push("нельзя сменить сцену в бою");
+    else if (!sceneGraphFor(s).scenes[c.node]) rejected.push(`неизвестная сцена «${c.node}»`);
+    else s.node = c.node;
+  }
+
+  if (c.enemy) {
+    if (s.enemy) rejected.push("бой уже идёт");
+    else {
+      const hp = clamp(c.enemy.hp, 5, 15 + s.level * 10);
+      const dmgMax = clamp(c.enemy.dmgMax, 1, 4 + s.level * 2);
+      const dmgMin = clamp(c.enemy.dmgMin, 1, dmgMax);
+      s.enemy = { name: c.enemy.name, hpCur: hp, hpMax: hp, evasion: 5, defense: 1, attackIcons: [c.enemy.icon ?? "💥"], dmgMin, dmgMax };
+    }
+  }
+
+  if (c.enemyHp) {
+    if (!s.enemy) rejected.push("урон врагу вне боя");
+    else s.enemy.hpCur = clamp(s.enemy.hpCur + clamp(c.enemyHp, -5, 0), 0, s.enemy.hpMax);
+  }
+
+  for (const e of (c.effects ?? []).slice(0, 2)) {
+    const target = e.target === "enemy" ? s.enemy : s;
+    if (!target) { rejected.push(`${e.icon}: врага нет`); continue; }
+    const applied = applyEffect(target, e.icon);
+    if (applied) addLog(s, "system", `${e.target === "enemy" ? "На враге" : "На вас"}: ${applied}`);
+  }
+
+  if (rejected.length) addLog(s, "system", `⚠️ Мир не принял: ${rejected.join("; ")}`);
+}
@@ -0,0 +1,58 @@
+import { parseNarratorResult } from "./parse";
+import type { Narrator } from "./types";
+
+export type HttpNarratorOptions = {
+  /** Base URL of an OpenAI-compatible API, e.g. "http://localhost:8787/v1". */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+};
+
+const SYSTEM_PROMPT =
+  "Ты ведущий текстовой RPG. Отвечай ТОЛЬКО JSON-объектом вида " +
+  '{"narration": string, "changes": {"hp"?: number, "money"?: number, "addItems"?: [{"name": string, "type": "consumable"|"material"|"quest", "qty"?: number}], ' +
+  '"removeItems"?: string[], "node"?: string, "enemy"?: {"name": string, "hp": number, "dmgMin": number, "dmgMax": number}, "enemyHp"?: number, ' +
+  '"effects"?: [{"icon": "🩸"|"☠️"|"🔥"|"❄️"|"⚡"|"🌪️"|"🧿"|"💚"|"🛡️"|"✨"|"👁️"|"🕳️"|"🧯", "target": "hero"|"enemy"}]}}. ' +
+  "narration — 1–3 предложения на русском, в тоне вселенной. changes — только то, что прямо следует из действия игрока; " +
+  "числа — изменения (дельты), а не итоговые значения. Соблюдай правила мира (customRules), стиль канона (canonStyle) и его режим: " +
+  "в режиме A держись текущей главы storyBeat, в режиме B из канона берутся только мир и стиль.";
+
+/** Narrator backed by any OpenAI-compatible /chat/completions endpoint. */
+export function createHttpNarrator(opts: HttpNarratorOptions): Narrator {
+  const doFetch = opts.fetch ?? fetch;
+  const url = `${opts.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    async narrate(snapshot, text) {
+      const ctrl = new AbortController();
+      const timer = setTimeout(() => ctrl.abort(), opts.timeoutMs ?? 20000);
+      try {
+        const res = await doFetch(url, {
+          method: "POST",
+          signal: ctrl.signal,
+          headers: { "Content-Type": "application/json", ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}) },
+          body: JSON.stringify({
+            model: opts.model,
+            temperature: 0.8,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: JSON.stringify({ state: snapshot, action: text }) },
+            ],
+          }),
+        });
+        if (!res.ok) throw new Error(`Narrator HTTP ${res.status}`);
+
+        const body = await res.json();
+        const content = body?.choices?.[0]?.message?.content;
+        const result = typeof content === "string" ? parseNarratorResult(JSON.parse(content)) : null;
+        if (!result) throw new Error("Narrator returned an invalid result");
+        return result;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./snapshot";
+export * from "./parse";
+export * from "./apply";
+export * from "./local";
+export * from "./http";
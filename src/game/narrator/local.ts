@@ -0,0 +1,65 @@
+import type { Narrator, NarratorResult, NarratorSnapshot } from "./types";
+
+// stable string hash, so the same text always picks the same variant
+function hash(text: string) {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  return h >>> 0;
+}
+
+const pick = <T>(list: T[], h: number) => list[h % list.length];
+
+/** Deterministic rule-based narrator: keyword rules, no network and no randomness. */
+export function localNarrate(snap: NarratorSnapshot, text: string): NarratorResult {
+  const t = text.toLowerCase();
+  const h = hash(t);
+
+  if (snap.enemy) {
+    if (/брос|швыр|кида/.test(t)) {
+      return { narration: `Вы швыряете всё, что под рукой, в противника («${snap.enemy.name}»). Удар приходится вскользь.`, changes: { enemyHp: -(2 + (h % 3)) } };
+    }
+    if (/подж|огн|факел/.test(t)) {
+      return { narration: "Вы тычете огнём в противника — ткань и шерсть занимаются мгновенно.", changes: { effects: [{ icon: "🔥", target: "enemy" }] } };
+    }
+    if (/закры|щит|прикры/.test(t)) {
+      return { narration: "Вы уходите в глухую защиту, подставляя под удары всё, что может их выдержать.", changes: { effects: [{ icon: "🛡️", target: "hero" }] } };
+    }
+    if (/уклон|отскоч|финт|обход/.test(t)) {
+      return { narration: pick(["Вы смещаетесь в сторону, выискивая брешь в обороне.", "Короткий финт — противник на миг теряет вас из виду."], h), changes: {} };
+    }
+    return { narration: `Вы пытаетесь: «${text}». ${snap.enemy.name} не даёт расслабиться.`, changes: {} };
+  }
+
+  if (/напад|атак|драк|вызыва|задира/.test(t)) {
+    return { narration: "Ваш вызов не остаётся без ответа: из толпы выходит задира, разминая кулаки.", changes: { enemy: { name: "Задира", hp: 18, dmgMin: 3, dmgMax: 6, icon: "💥" } } };
+  }
+  if (/обыск|ищ|осматр|шар|обшар/.test(t)) {
+    const found = h % 3;
+    return {
+      narration: found ? `Вы внимательно осматриваетесь. В щели между досками блестит монета — и не одна.` : "Вы тщательно всё осматриваете, но находите лишь пыль и паутину.",
+      changes: found ? { money: found } : {},
+    };
+  }
+  if (/моли|благослов/.test(t)) {
+    return { narration: "Вы шепчете короткую молитву. На душе становится светлее.", changes: { effects: [{ icon: "✨", target: "hero" }] } };
+  }
+  if (/отдох|передохн|перевяз|присест/.test(t)) {
+    return { narration: "Вы переводите дух и перетягиваете ремни. Дыхание выравнивается.", changes: { hp: 3 } };
+  }
+  if (/верн|назад|уйти|уход/.test(t)) {
+    return { narration: `Вы решаете не испытывать судьбу и возвращаетесь к безопасному месту.`, changes: { node: "HUB" } };
+  }
+
+  return {
+    narration: pick([
+      `Вы делаете задуманное: «${text}». Мир вокруг (${snap.location}) отвечает тишиной и ${snap.weather.toLowerCase()}.`,
+      `«${text}» — вы решаетесь. Ничего не рушится, но люди вокруг запоминают ваш поступок.`,
+      `Попытка «${text}» занимает время. ${snap.weather}, и день в ${snap.location} тянется дальше.`,
+    ], h),
+    changes: {},
+  };
+}
+
+export function createLocalNarrator(): Narrator {
+  return { narrate: async (snap, text) => localNarrate(snap, text) };
+}
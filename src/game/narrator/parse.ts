@@ -0,0 +1,46 @@
+import { isDamageIcon } from "../data";
+import { isEffectIcon } from "../effects";
+import type { ItemType } from "../types";
+import type { NarratorResult, ProposedChanges } from "./types";
+
+const ITEM_TYPES: ItemType[] = ["weapon", "armor", "accessory", "consumable", "material", "quest"];
+
+const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? Math.round(v) : undefined);
+const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim().slice(0, 80) : undefined);
+
+/**
+ * Coerces untrusted narrator output (model JSON, request bodies) into a NarratorResult.
+ * Fields of the wrong shape are dropped rather than failing the whole result.
+ */
+export function parseNarratorResult(raw: unknown): NarratorResult | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.narration !== "string" || !obj.narration.trim()) return null;
+
+  const c = (obj.changes && typeof obj.changes === "object" ? obj.changes : {}) as Record<string, unknown>;
+  const changes: ProposedChanges = {};
+  if (num(c.hp) !== undefined) changes.hp = num(c.hp);
+  if (num(c.money) !== undefined) changes.money = num(c.money);
+  if (num(c.enemyHp) !== undefined) changes.enemyHp = num(c.enemyHp);
+  if (str(c.node)) changes.node = str(c.node);
+
+  if (Array.isArray(c.addItems)) {
+    changes.addItems = c.addItems.flatMap(it => {
+      const name = str(it?.name);
+      const type = ITEM_TYPES.find(t => t === it?.type);
+      return name && type ? [{ name, type, qty: num(it?.qty) }] : [];
+    });
+  }
+  if (Array.isArray(c.effects)) {
+    changes.effects = c.effects.flatMap(e => (isEffectIcon(e?.icon) && (e.target === "hero" || e.target === "enemy") ? [{ icon: e.icon, target: e.target }] : []));
+  }
+  if (Array.isArray(c.removeItems)) changes.removeItems = c.removeItems.flatMap(v => (str(v) ? [str(v)!] : []));
+
+  const e = c.enemy as Record<string, unknown> | undefined;
+  const ename = str(e?.name);
+  if (e && ename && num(e.hp) !== undefined && num(e.dmgMin) !== undefined && num(e.dmgMax) !== undefined) {
+    changes.enemy = { name: ename, hp: num(e.hp)!, dmgMin: num(e.dmgMin)!, dmgMax: num(e.dmgMax)!, icon: isDamageIcon(e.icon) ? e.icon : undefined };
+  }
+
+  return { narration: obj.narration.trim().slice(0, 2000), changes };
+}
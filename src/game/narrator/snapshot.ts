@@ -0,0 +1,39 @@
+import { currentBeat } from "../canon/story";
+import { fmtCustomWorld } from "../custom";
+import { universeTitle } from "../data";
+import { currentTalk, fmtAttitude } from "../npcs";
+import type { GameState } from "../types";
+import type { NarratorSnapshot } from "./types";
+
+export function narratorSnapshot(state: GameState, logSize = 8): NarratorSnapshot {
+  const talk = currentTalk(state);
+  const beat = currentBeat(state);
+  return {
+    universe: universeTitle(state),
+    canonTitle: state.canonTitle,
+    canonMode: state.canonMode,
+    canonStyle: state.canonPack?.style,
+    storyBeat: beat?.title,
+    customRules: [state.customWorld && fmtCustomWorld(state.customWorld), state.customRules].filter(Boolean).join("\n") || undefined,
+    location: state.location,
+    scene: state.node,
+    day: state.day,
+    hour: state.hour,
+    weather: state.weather,
+    hero: {
+      name: state.name ?? "Путник",
+      race: state.race?.name,
+      cls: state.cls?.name,
+      level: state.level,
+      hpCur: state.hpCur,
+      hpMax: state.hpMax,
+      money: state.money,
+      items: state.backpack.map(it => `${it.name}${it.qty !== undefined ? ` x${it.qty}` : ""}`),
+      effects: state.effects.map(e => `${e.icon} ${e.name}`),
+    },
+    enemy: state.enemy && { name: state.enemy.name, hpCur: state.enemy.hpCur, hpMax: state.enemy.hpMax, effects: (state.enemy.effects ?? []).map(e => `${e.icon} ${e.name}`) },
+    party: state.party && state.party.members.filter(m => m.sheet).map(m => `${m.name} (❤️ ${m.sheet!.hpCur}/${m.sheet!.hpMax})`),
+    talk: talk && { npc: talk.npc.name, attitude: fmtAttitude(state, talk.npc) },
+    recentLog: state.log.slice(-logSize),
+  };
+}
@@ -0,0 +1,43 @@
+import type { CanonMode, DamageIcon, EffectIcon, ItemType, LogEntry } from "../types";
+
+/** Compact, serialisable view of the state a narrator is allowed to see. */
+export type NarratorSnapshot = {
+  universe: string;
+  canonTitle?: string;
+  canonMode?: CanonMode;
+  /** Tone and rules of an installed canon world. */
+  canonStyle?: string;
+  /** The canon's current chapter in mode A; the narrator keeps to it. */
+  storyBeat?: string;
+  customRules?: string;
+  location: string;
+  scene: string;
+  day: number;
+  hour: number;
+  weather: string;
+  hero: { name: string; race?: string; cls?: string; level: number; hpCur: number; hpMax: number; money: number; items: string[]; effects: string[] };
+  enemy?: { name: string; hpCur: number; hpMax: number; effects: string[] };
+  /** The hero's companions when a party plays; the hero is the member acting now. */
+  party?: string[];
+  /** Who the hero is talking to and how they feel about the hero. */
+  talk?: { npc: string; attitude: string };
+  recentLog: LogEntry[];
+};
+
+/** Everything here is a proposal: the engine clamps or rejects it before applying. */
+export type ProposedChanges = {
+  hp?: number;
+  money?: number;
+  addItems?: Array<{ name: string; type: ItemType; qty?: number }>;
+  removeItems?: string[];
+  node?: string;
+  enemy?: { name: string; hp: number; dmgMin: number; dmgMax: number; icon?: DamageIcon };
+  enemyHp?: number;
+  effects?: Array<{ icon: EffectIcon; target: "hero" | "enemy" }>;
+};
+
+export type NarratorResult = { narration: string; changes: ProposedChanges };
+
+export interface Narrator {
+  narrate(snapshot: NarratorSnapshot, text: string): Promise<NarratorResult>;
+}
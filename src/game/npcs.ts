@@ -0,0 +1,259 @@
+import { safeHub } from "./data";
+import { FACTIONS, SHUNNED, factionStanding, fmtStanding, standingTier } from "./factions";
+import { GHOST_DUST, HEALING_POTION, REGEN_TONIC } from "./items";
+import type { SceneCheck, SceneCondition, SceneEffect } from "./scenes";
+import { atHub } from "./shop";
+import type { FactionId, GameState } from "./types";
+import { addLog, clamp } from "./util";
+
+/** Like a scene outcome, but `goto` names a dialogue node and `end` closes the conversation. */
+export type DialogueOutcome = { text?: string; effects?: SceneEffect[]; goto?: string; end?: boolean };
+
+/** A line the hero can say; a `check` is helped or hurt by the NPC's attitude. */
+export type DialogueOption = { label: string; icon?: string; if?: SceneCondition[]; check?: SceneCheck; success?: DialogueOutcome; fail?: DialogueOutcome };
+
+/** Up to three options, like a scene; "4" is always the player's own words. */
+export type DialogueNode = { text: string; choices: DialogueOption[] };
+
+/**
+ * An NPC at the safe hub. `disposition` is the attitude a stranger meets;
+ * `likes` moves it by the hero's race or class id, and half of the standing
+ * with the NPC's faction is added on top.
+ */
+export type NpcDef = { id: string; name: string; faction: FactionId; desc: string; disposition: number; likes?: Record<string, number>; start: string; nodes: Record<string, DialogueNode> };
+
+const TALK_CHECK: SceneCheck = { label: "Убеждение", chance: 45, stat: "cha", perPoint: 5, tag: "talk" };
+const BYE: DialogueOption = { label: "Попрощаться", icon: "👋", success: { text: "Вы киваете на прощание и отходите.", end: true } };
+
+export const NPCS: Record<string, NpcDef> = {
+  whisperer: {
+    id: "whisperer",
+    name: "Тот, кто шепчет",
+    faction: "cults",
+    desc: "капюшон, монета в пальцах и слишком много знакомых",
+    disposition: 0,
+    likes: { r5: 20, r14: 10, c4: -10, c8: -30 },
+    start: "START",
+    nodes: {
+      START: {
+        text: "Капюшон чуть приподнимается. «{name}… Садись, раз пришёл. Только говори тише».",
+        choices: [
+          {
+            label: "Расспросить про “странный след”",
+            if: [{ kind: "flag", flag: "lead_cache", is: false }],
+            check: { ...TALK_CHECK, label: "Разговор", chance: 50 },
+            success: {
+              text: "✅ Наводка на тайник у старой дороги. «Сочтёмся, — шепчет он. — На дороге развелось лишнего народу».",
+              effects: [{ kind: "flag", flag: "lead_cache" }, { kind: "quest", id: "whisper_debt" }, { kind: "journal", text: "Получена наводка на тайник" }],
+            },
+            fail: { text: "❌ Собеседник ушёл, не попрощавшись.", effects: [{ kind: "journal", text: "Срыв разговора" }, { kind: "attitude", npc: "whisperer", delta: -5 }], end: true },
+          },
+          { label: "«Кто вы такой?»", success: { goto: "WHO" } },
+          BYE,
+        ],
+      },
+      WHO: {
+        text: "«Тот, кто слышит. Этого хватит». Монета замирает в пальцах.",
+        choices: [
+          {
+            label: "Надавить: «Мне нужны имена»",
+            if: [{ kind: "flag", flag: "whisper_names", is: false }],
+            check: { ...TALK_CHECK, chance: 40 },
+            success: {
+              text: "«Маги с холма платят за призрачную пыль. Охотники — за головы тех, кто её собирает. Выбирай, кому продавать».",
+              effects: [{ kind: "flag", flag: "whisper_names" }, { kind: "attitude", npc: "whisperer", delta: 5 }, { kind: "journal", text: "Шептун: пыль нужна магам и охотникам" }],
+            },
+            fail: { text: "«Имена стоят дороже, чем у тебя есть». Он отворачивается к стене.", effects: [{ kind: "attitude", npc: "whisperer", delta: -10 }], end: true },
+          },
+          { label: "«Я знаю, кому вы служите»", icon: "🕯️", if: [{ kind: "reputation", faction: "cults", min: 15 }], success: { goto: "CIRCLE" } },
+          { label: "Сменить тему", success: { goto: "START" } },
+        ],
+      },
+      CIRCLE: {
+        text: "Он долго смотрит на вас. «Значит, свои. Круг собирается за старой дорогой, когда гаснут огни. Приходи — или забудь, что слышал».",
+        choices: [
+          {
+            label: "Пообещать прийти",
+            if: [{ kind: "flag", flag: "circle_sworn", is: false }],
+            success: {
+              text: "Шептун кивает и вкладывает вам в ладонь тёплую склянку. «Охотники это почуют. Не попадайся им».",
+              effects: [{ kind: "flag", flag: "circle_sworn" }, { kind: "reputation", faction: "cults", delta: 15 }, { kind: "reputation", faction: "hunters", delta: -15 }, { kind: "item", item: HEALING_POTION }],
+              end: true,
+            },
+          },
+          { label: "«Я не из ваших»", success: { text: "«Жаль». Монета снова начинает свой бег по пальцам.", effects: [{ kind: "attitude", npc: "whisperer", delta: -5 }], goto: "START" } },
+        ],
+      },
+    },
+  },
+
+  magister: {
+    id: "magister",
+    name: "Магистр Ильвар",
+    faction: "mages",
+    desc: "седой маг над толстой книгой; ценит тех, кто приносит интересное",
+    disposition: -5,
+    likes: { c3: 15, r9: 10, c11: 5, c6: -15, r4: -10 },
+    start: "START",
+    nodes: {
+      START: {
+        text: "Седой маг отрывается от книги. «Если вы не принесли ничего интересного — не отнимайте моё время».",
+        choices: [
+          { label: "Спросить о магии", success: { goto: "LORE" } },
+          {
+            label: "Предложить призрачную пыль",
+            icon: "🔵",
+            if: [{ kind: "item", itemId: GHOST_DUST.id }],
+            success: { text: "Ильвар пересыпает пыль на весы и довольно хмыкает. «Это я возьму. И запомню, кто принёс».", effects: [{ kind: "takeItem", itemId: GHOST_DUST.id }, { kind: "money", delta: 20 }, { kind: "reputation", faction: "mages", delta: 10 }] },
+          },
+          BYE,
+        ],
+      },
+      LORE: {
+        text: "«Магия — это долг, который мир рано или поздно взыскивает». Ильвар постукивает пальцем по странице.",
+        choices: [
+          {
+            label: "Попросить урок",
+            if: [{ kind: "flag", flag: "magister_lesson", is: false }],
+            check: TALK_CHECK,
+            success: {
+              text: "Маг показывает, как держать дыхание ровным, пока внутри собирается сила, и отдаёт вам склянку. «Практикуйтесь».",
+              effects: [{ kind: "flag", flag: "magister_lesson" }, { kind: "item", item: REGEN_TONIC }, { kind: "attitude", npc: "magister", delta: 5 }],
+            },
+            fail: { text: "«Приходите, когда научитесь слушать».", effects: [{ kind: "attitude", npc: "magister", delta: -5 }], goto: "START" },
+          },
+          {
+            label: "Спросить про шептуна в углу",
+            if: [{ kind: "attitude", npc: "magister", min: 15 }],
+            success: { text: "«Культ. Мелкая рыба, но сеть у них большая. Держитесь от их круга подальше — или хотя бы не попадайтесь охотникам»." },
+          },
+          { label: "Назад", success: { goto: "START" } },
+        ],
+      },
+    },
+  },
+
+  hunter: {
+    id: "hunter",
+    name: "Охотница Кира",
+    faction: "hunters",
+    desc: "арбалет за спиной, серебро на поясе и тяжёлый взгляд",
+    disposition: 0,
+    likes: { c5: 15, c8: 15, c4: 10, r5: -10, r11: -25, c12: -25 },
+    start: "START",
+    nodes: {
+      START: {
+        text: "Женщина с арбалетом за спиной не убирает руку с пояса. «Говори, зачем пришёл. И держись на свету».",
+        choices: [
+          { label: "Предложить помощь в охоте", if: [{ kind: "attitude", npc: "hunter", min: -14 }], success: { goto: "WORK" } },
+          {
+            label: "Примирительно поднять руки",
+            icon: "🙌",
+            if: [{ kind: "attitude", npc: "hunter", max: -15 }],
+            check: { ...TALK_CHECK, chance: 35 },
+            success: { text: "Кира медленно убирает руку с арбалета. «Один шанс. Не больше».", effects: [{ kind: "attitude", npc: "hunter", delta: 15 }] },
+            fail: { text: "«Я таких, как ты, чую за версту». Щёлкает арбалет!", effects: [{ kind: "combat", enemies: ["hunter"] }] },
+          },
+          BYE,
+        ],
+      },
+      WORK: {
+        text: "«Помощь? Нам нужны глаза на дорогах и пыль, что остаётся от мертвецов. Она не должна попасть к магам — и уж тем более к культу».",
+        choices: [
+          {
+            label: "Вызваться в дозор",
+            if: [{ kind: "flag", flag: "hunter_help", is: false }],
+            check: TALK_CHECK,
+            success: { text: "«Ладно. Скажу своим, что ты не из этих».", effects: [{ kind: "flag", flag: "hunter_help" }, { kind: "reputation", faction: "hunters", delta: 10 }] },
+            fail: { text: "«Обойдёмся». Кира отворачивается к огню.", effects: [{ kind: "attitude", npc: "hunter", delta: -5 }], goto: "START" },
+          },
+          {
+            label: "Отдать призрачную пыль",
+            icon: "🔵",
+            if: [{ kind: "item", itemId: GHOST_DUST.id }],
+            success: { text: "«Меньше пыли — меньше мертвецов». Кира бросает вам несколько монет.", effects: [{ kind: "takeItem", itemId: GHOST_DUST.id }, { kind: "money", delta: 15 }, { kind: "reputation", faction: "hunters", delta: 5 }] },
+          },
+          { label: "Назад", success: { goto: "START" } },
+        ],
+      },
+    },
+  },
+};
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+/** How the NPC feels about the hero now, from −100 to 100. */
+export function attitude(state: GameState, npc: NpcDef) {
+  const likes = npc.likes ?? {};
+  const traits = (likes[state.race?.id ?? ""] ?? 0) + (likes[state.cls?.id ?? ""] ?? 0);
+  return clamp(npc.disposition + (state.npcs[npc.id] ?? 0) + traits + Math.round(factionStanding(state, npc.faction) / 2), -100, 100);
+}
+
+/** Percent added to dialogue checks: a fifth of the attitude. */
+export const attitudeBonus = (state: GameState, npc: NpcDef) => Math.round(attitude(state, npc) / 5);
+
+export const fmtAttitude = (state: GameState, npc: NpcDef) => `${standingTier(attitude(state, npc)).label} ${signed(attitude(state, npc))}`;
+
+export function changeAttitude(state: GameState, id: string, delta: number) {
+  const npc = NPCS[id];
+  if (!npc || !delta) return;
+  state.npcs[id] = (state.npcs[id] ?? 0) + delta;
+  addLog(state, "system", `🗣️ ${npc.name}: отношение ${signed(delta)} → ${fmtAttitude(state, npc)}`);
+}
+
+/** Everybody to talk to right here; for now they all sit at the safe hub. */
+export const npcsHere = (state: GameState) => (atHub(state) ? Object.values(NPCS) : []);
+
+/** The conversation in progress with its NPC and node, if there is one. */
+export function currentTalk(state: GameState) {
+  const npc = state.talk && NPCS[state.talk.npc];
+  const node = npc?.nodes[state.talk!.node];
+  return npc && node ? { npc, node } : undefined;
+}
+
+function findNpc(state: GameState, ref: string) {
+  const list = npcsHere(state);
+  const q = ref.trim().toLowerCase();
+  if (/^\d+$/.test(q)) return list[Number(q) - 1];
+  return list.find(n => n.id === q || n.name.toLowerCase().includes(q));
+}
+
+/** Opens a conversation unless the NPC will not talk to the hero at all. */
+export function startTalk(state: GameState, id: string) {
+  const npc = NPCS[id];
+  if (!npc) return;
+  if (attitude(state, npc) <= SHUNNED) {
+    addLog(state, "system", `🗣️ ${npc.name} отворачивается: с вами здесь не разговаривают (${fmtAttitude(state, npc)}).`);
+    return;
+  }
+  delete state.trade;
+  state.talk = { npc: id, node: npc.start };
+  addLog(state, "system", `🗣️ Разговор: ${npc.name} — ${npc.desc} (${fmtAttitude(state, npc)})`);
+}
+
+export type TalkOp = "open" | "close";
+
+/** Opens a conversation with an NPC here (a list without `ref`) or closes the current one. */
+export function runTalkOp(state: GameState, op: TalkOp, ref: string) {
+  if (op === "close") {
+    const talk = currentTalk(state);
+    if (talk) addLog(state, "system", `👋 Вы прощаетесь: ${talk.npc.name}.`);
+    delete state.talk;
+    return;
+  }
+  if (state.enemy) { addLog(state, "system", "Не время для разговоров."); return; }
+  const here = npcsHere(state);
+  if (!here.length) { addLog(state, "system", `Поговорить не с кем. Люди — в безопасной точке (${safeHub(state)}).`); return; }
+  const npc = ref.trim() ? findNpc(state, ref) : undefined;
+  if (!npc) {
+    addLog(state, "system", `Здесь можно поговорить: ${here.map((n, i) => `${i + 1}. ${n.name} (${fmtAttitude(state, n)})`).join(", ")}`);
+    return;
+  }
+  startTalk(state, npc.id);
+}
+
+/** /репутация: standing with every faction, then the attitude of everybody the hero can talk to. */
+export function fmtReputation(state: GameState) {
+  const people = Object.values(NPCS).map(n => `${n.name} (${FACTIONS.find(f => f.id === n.faction)?.icon}) — ${fmtAttitude(state, n)}`);
+  return ["Репутация:", ...FACTIONS.map(f => fmtStanding(state, f)), `Люди: ${people.join(", ")}`].join("\n");
+}
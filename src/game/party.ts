@@ -0,0 +1,215 @@
+import type { GameAction } from "./engine";
+import type { GameState, HeroKey, HeroSheet, Party, PartyMember, PartyMode, PartyVote } from "./types";
+import { addLog } from "./util";
+
+const HERO_FIELDS: Record<HeroKey, true> = {
+  sex: true, name: true, race: true, cls: true, bg: true, daily: true,
+  level: true, xp: true, xpToNext: true, statPoints: true, abilityPoints: true, abilities: true,
+  hpCur: true, hpMax: true, mpCur: true, mpMax: true, stats: true, equipped: true, backpack: true, money: true,
+  effects: true, lootJournal: true, deaths: true, corpse: true,
+};
+export const HERO_KEYS = Object.keys(HERO_FIELDS) as HeroKey[];
+
+/** The founder of a party keeps this id; the server maps its seats to member ids. */
+export const HOST_MEMBER = "1";
+export const MAX_PARTY = 4;
+
+export const PARTY_MODE_LABELS: Record<PartyMode, string> = { leader: "👑 решает лидер", vote: "🗳 голосование" };
+
+export function takeSheet(s: GameState): HeroSheet {
+  const sheet = {} as Record<HeroKey, unknown>;
+  for (const k of HERO_KEYS) sheet[k] = s[k];
+  return sheet as HeroSheet;
+}
+
+function putSheet(s: GameState, sheet: HeroSheet) {
+  const target = s as Record<HeroKey, unknown>;
+  for (const k of HERO_KEYS) {
+    if (sheet[k] === undefined) delete target[k];
+    else target[k] = sheet[k];
+  }
+}
+
+export const partyMember = (state: GameState, id: string) => state.party?.members.find(m => m.id === id);
+
+/** The state as one member sees it: their own sheet in the hero fields. Does not copy more than it has to. */
+export function memberView(state: GameState, id: string): GameState {
+  const m = partyMember(state, id);
+  if (!state.party || !m?.sheet) return state;
+  const own = { ...state };
+  putSheet(own, m.sheet);
+  return own;
+}
+
+/** Makes `id` the acting member: the current hero's sheet is put away and theirs takes the hero fields. */
+export function activate(s: GameState, id: string) {
+  const p = s.party;
+  const next = partyMember(s, id);
+  if (!p || !next?.sheet || p.active === id) return;
+  const prev = partyMember(s, p.active);
+  if (prev) prev.sheet = takeSheet(s);
+  putSheet(s, next.sheet);
+  delete next.sheet;
+  p.active = id;
+}
+
+/**
+ * Runs `fn` with each member's sheet in the hero fields in turn, the acting
+ * member first; they are the acting one again afterwards. A solo hero is the
+ * only one. `fn` gets its place in that order and the number of members.
+ */
+export function eachMember(s: GameState, fn: (index: number, count: number) => void) {
+  const p = s.party;
+  if (!p) { fn(0, 1); return; }
+  const first = p.active;
+  const order = [first, ...p.members.map(m => m.id).filter(id => id !== first)];
+  order.forEach((id, i) => { activate(s, id); fn(i, order.length); });
+  activate(s, first);
+}
+
+/** Turns a solo game into a party of one with the current hero as the leader. */
+export function formParty(s: GameState): Party {
+  s.party ??= { members: [{ id: HOST_MEMBER, name: s.name ?? "Герой" }], active: HOST_MEMBER, leader: HOST_MEMBER, mode: "leader", votes: [] };
+  return s.party;
+}
+
+/** Adds a member and makes them the acting one; the current hero's sheet is put away first. */
+export function addMember(s: GameState, member: PartyMember, sheet: HeroSheet) {
+  const p = formParty(s);
+  const prev = partyMember(s, p.active);
+  if (prev) prev.sheet = takeSheet(s);
+  putSheet(s, sheet);
+  p.members.push(member);
+  p.active = member.id;
+}
+
+/**
+ * Takes a member out. The party stays even with one member left, so the
+ * seats that played in it keep mapping to the same heroes.
+ */
+export function removeMember(s: GameState, id: string) {
+  const p = s.party;
+  if (!p) return;
+  const others = p.members.filter(m => m.id !== id);
+  if (!others.length) return;
+  if (p.active === id) activate(s, others[0].id);
+  p.members = others;
+  p.votes = p.votes.filter(v => v.member !== id);
+  if (p.leader === id) p.leader = others[0].id;
+  if (p.turn === id) delete p.turn;
+}
+
+/** An id for the next member to join: one past the highest so far. */
+export const nextMemberId = (state: GameState) => String(Math.max(Number(HOST_MEMBER), ...(state.party?.members ?? []).map(m => Number(m.id) || 0)) + 1);
+
+/** How a client's action is recorded: as its member's turn once the game has a party. */
+export function asMember(state: GameState, member: string | undefined, action: GameAction): GameAction {
+  const inner = action.type === "ACT" ? action.action : action;
+  return state.party && member ? { type: "ACT", member, action: inner } : inner;
+}
+
+export const memberHp = (state: GameState, m: PartyMember) => (m.sheet ? m.sheet.hpCur : state.hpCur);
+export const standing = (state: GameState) => (state.party?.members ?? []).filter(m => memberHp(state, m) > 0);
+
+/** Turn order in a fight: 🎯 first, then 🍀, then whoever joined earlier. */
+export function initiative(state: GameState): PartyMember[] {
+  const stats = (m: PartyMember) => (m.sheet ? m.sheet.stats : state.stats);
+  return [...(state.party?.members ?? [])].sort((a, b) => stats(b).dex - stats(a).dex || stats(b).luck - stats(a).luck);
+}
+
+/** Hands the fight to the next standing member in initiative order. */
+export function passTurn(s: GameState) {
+  const p = s.party;
+  if (!p || !s.enemy) return;
+  const order = initiative(s);
+  const from = order.findIndex(m => m.id === (p.turn ?? p.active));
+  const next = [...order.slice(from + 1), ...order.slice(0, from + 1)].find(m => memberHp(s, m) > 0);
+  if (!next || next.id === p.turn) return;
+  p.turn = next.id;
+  addLog(s, "system", `⏳ Ход: ${next.name}`);
+}
+
+/**
+ * A member who drops in a fight while others still stand is only knocked
+ * out: the fight goes on without them. Returns false for the last one standing.
+ */
+export function knockOut(s: GameState, cause: string) {
+  const p = s.party;
+  if (!p || !standing(s).some(m => m.id !== p.active)) return false;
+  s.hpCur = 0;
+  s.effects = [];
+  addLog(s, "system", `💫 ${s.name} без сознания после удара «${cause}». Отряд продолжает бой.`);
+  return true;
+}
+
+/** After every party action: a fight gets its first turn, and once it is over the knocked-out come round. */
+export function settleParty(s: GameState) {
+  const p = s.party;
+  if (!p) return;
+  if (s.enemy) {
+    if (!p.turn || memberHp(s, partyMember(s, p.turn) ?? p.members[0]) <= 0) {
+      const first = initiative(s).find(m => memberHp(s, m) > 0);
+      if (first && first.id !== p.turn) {
+        p.turn = first.id;
+        addLog(s, "system", `⏳ Порядок ходов: ${initiative(s).map(m => m.name).join(" → ")}. Ходит ${first.name}.`);
+      }
+    }
+    return;
+  }
+  delete p.turn;
+  for (const m of p.members) {
+    if (memberHp(s, m) > 0) continue;
+    if (m.sheet) m.sheet.hpCur = 1;
+    else s.hpCur = 1;
+    addLog(s, "system", `💫 ${m.name} приходит в себя (❤️ 1).`);
+  }
+
+  // a shared victory can level up several members: they spend their points one after another
+  if (s.phase !== "PLAY" && s.phase !== "LEVEL_UP") return;
+  if (s.phase === "LEVEL_UP" && s.statPoints > 0) return;
+  const waiting = p.members.find(m => m.sheet && m.sheet.statPoints > 0);
+  if (!waiting) return;
+  activate(s, waiting.id);
+  s.phase = "LEVEL_UP";
+  addLog(s, "system", `🏅 Очки уровня распределяет ${waiting.name}.`);
+}
+
+export const voteLabel = (v: Pick<PartyVote, "id" | "text">) => (v.text ? `4) ${v.text}` : `${v.id})`);
+const voteKey = (v: PartyVote) => `${v.id}|${v.text ?? ""}`;
+
+/**
+ * Records a member's vote on the scene choice. The choice is settled once
+ * one option has a majority or everybody has voted; a tie goes to the
+ * leader's pick, or to the option named first. Returns the winning vote.
+ */
+export function castVote(s: GameState, vote: PartyVote): PartyVote | null {
+  const p = s.party;
+  if (!p) return vote;
+  p.votes = [...p.votes.filter(v => v.member !== vote.member), vote];
+  addLog(s, "player", `🗳 ${partyMember(s, vote.member)?.name}: ${voteLabel(vote)}`);
+
+  const tally = new Map<string, PartyVote[]>();
+  for (const v of p.votes) tally.set(voteKey(v), [...(tally.get(voteKey(v)) ?? []), v]);
+  const ranked = [...tally.values()].sort((a, b) => b.length - a.length);
+  const top = ranked[0];
+  if (top.length * 2 <= p.members.length && p.votes.length < p.members.length) return null;
+
+  const tied = ranked.filter(r => r.length === top.length);
+  const win = tied.find(r => r.some(v => v.member === p.leader)) ?? tied[0];
+  p.votes = [];
+  addLog(s, "system", `🗳 Решено: ${voteLabel(win[0])} (${win.length} из ${p.members.length})`);
+  return win[0];
+}
+
+/** The party for /отряд: who is in it, their health, the leader, how choices are made and whose turn it is. */
+export function fmtParty(state: GameState) {
+  const p = state.party;
+  if (!p) return "Вы путешествуете в одиночку. Друзья могут присоединиться по ссылке-приглашению.";
+  const lines = p.members.map(m => {
+    const v = memberView(state, m.id);
+    const marks = [m.id === p.leader && "👑", m.id === p.turn && "⏳"].filter(Boolean).join("");
+    return `${marks ? `${marks} ` : ""}${m.name} — ${v.race?.name ?? "?"}, ${v.cls?.name ?? "?"}, ур. ${v.level} | ❤️ ${v.hpCur}/${v.hpMax} 🔷 ${v.mpCur}/${v.mpMax}`;
+  });
+  const votes = p.votes.length ? `\nГолоса: ${p.votes.map(v => `${partyMember(state, v.member)?.name} — ${voteLabel(v)}`).join(", ")}` : "";
+  return [`Отряд (${PARTY_MODE_LABELS[p.mode]}):`, ...lines].join("\n") + votes;
+}
@@ -0,0 +1,77 @@
+import { abilityById, learnableAbilities } from "./abilities";
+import { STAT_ICONS } from "./data";
+import type { GameState, Stats } from "./types";
+import { addLog, clamp, computeXpToNext } from "./util";
+
+export const STAT_POINTS_PER_LEVEL = 2;
+
+const STAT_KEYS: (keyof Stats)[] = ["str", "dex", "end", "int", "cha", "luck"];
+
+export const maxHp = (stats: Stats, level: number) => 28 + stats.end * 4 + (level - 1) * 4;
+export const maxMp = (stats: Stats, level: number) => 12 + stats.int * 3 + (level - 1) * 2;
+
+/** Recomputes max HP/MP from stats and level; current values grow by the same amount. */
+export function recomputeVitals(s: GameState) {
+  const hp = maxHp(s.stats, s.level);
+  const mp = maxMp(s.stats, s.level);
+  s.hpCur = clamp(s.hpCur + hp - s.hpMax, 1, hp);
+  s.mpCur = clamp(s.mpCur + mp - s.mpMax, 0, mp);
+  s.hpMax = hp;
+  s.mpMax = mp;
+}
+
+/** Adds XP; every level reached grants stat and ability points and opens the level-up screen. */
+export function gainXp(s: GameState, amount: number) {
+  s.xp += amount;
+  let gained = 0;
+  while (s.xp >= s.xpToNext) {
+    s.xp -= s.xpToNext;
+    s.level += 1;
+    s.xpToNext = computeXpToNext(s.level);
+    gained += 1;
+  }
+  if (!gained) return;
+  s.statPoints += gained * STAT_POINTS_PER_LEVEL;
+  s.abilityPoints += gained;
+  recomputeVitals(s);
+  s.phase = "LEVEL_UP";
+  addLog(s, "system", `🏅 УРОВЕНЬ ПОВЫШЕН! LV ${s.level} | Очки характеристик: ${s.statPoints}`);
+}
+
+/**
+ * Spends the pending points: `alloc` must use all stat points exactly,
+ * abilities are optional (unused picks carry over to the next level).
+ */
+export function applyLevelUp(s: GameState, alloc: Partial<Stats>, abilities: string[] = []) {
+  if (s.phase !== "LEVEL_UP") return;
+
+  const entries = Object.entries(alloc) as [keyof Stats, number][];
+  const spent = entries.reduce((a, [, v]) => a + v, 0);
+  if (entries.some(([k, v]) => !STAT_KEYS.includes(k) || !Number.isInteger(v) || v < 0) || spent !== s.statPoints) {
+    addLog(s, "system", `Нужно распределить ровно ${s.statPoints} очк. характеристик.`);
+    return;
+  }
+  if (abilities.length > s.abilityPoints) {
+    addLog(s, "system", `Можно изучить не больше ${s.abilityPoints} умен.`);
+    return;
+  }
+  const known = [...s.abilities];
+  for (const id of abilities) {
+    if (!learnableAbilities(s, known).some(a => a.id === id)) {
+      addLog(s, "system", `Умение недоступно: ${abilityById(id)?.name ?? id}`);
+      return;
+    }
+    known.push(id);
+  }
+
+  for (const [k, v] of entries) s.stats[k] += v;
+  s.statPoints = 0;
+  s.abilityPoints -= abilities.length;
+  s.abilities = known;
+  recomputeVitals(s);
+  s.phase = "PLAY";
+
+  const parts = entries.filter(([, v]) => v).map(([k, v]) => `${STAT_ICONS[k]}+${v}`);
+  const learned = abilities.map(id => abilityById(id)!.name);
+  addLog(s, "system", `📈 Развитие: ${parts.join(", ")} | ❤️ ${s.hpMax} 🔷 ${s.mpMax}${learned.length ? ` | Новые умения: ${learned.join(", ")}` : ""}`);
+}
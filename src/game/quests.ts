@@ -0,0 +1,173 @@
+import { baseCurrency } from "./data";
+import { FACTIONS, changeReputation } from "./factions";
+import { addItem, loseItem } from "./inventory";
+import { OILED_BUNDLE } from "./items";
+import { rollLoot } from "./loot";
+import { gainXp } from "./progression";
+import type { BackpackItem, Enemy, FactionId, GameState, QuestState, Rng } from "./types";
+import { addLog } from "./util";
+
+/**
+ * What a stage waits for: reaching a scene, defeating enemies (any, or one
+ * bestiary id), holding an item, or a scene flag being set.
+ */
+export type QuestObjective =
+  | { kind: "visit"; node: string }
+  | { kind: "kill"; count: number; enemy?: string }
+  | { kind: "item"; itemId: string }
+  | { kind: "flag"; flag: string };
+
+export type QuestStage = { text: string; objective: QuestObjective };
+
+/** `loot` is the number of generated items; `reputation` is standing gained with factions. `days` is the time limit from the moment the quest is taken. */
+export type QuestReward = { xp: number; money: number; items?: BackpackItem[]; loot?: number; reputation?: Partial<Record<FactionId, number>> };
+
+export type QuestDef = { id: string; title: string; giver: string; desc: string; days?: number; stages: QuestStage[]; reward: QuestReward };
+
+export const QUESTS: Record<string, QuestDef> = {
+  trail: {
+    id: "trail",
+    title: "Странный след",
+    giver: "Доска объявлений",
+    desc: "Записка обещает награду тому, кто разузнает про “странный след” у старой дороги.",
+    days: 4,
+    stages: [
+      { text: "Расспросить того, кто шепчет, где искать след", objective: { kind: "flag", flag: "lead_cache" } },
+      { text: "Найти тайник у старой дороги", objective: { kind: "item", itemId: OILED_BUNDLE.id } },
+      { text: "Принести свёрток к доске объявлений", objective: { kind: "visit", node: "BOARD" } },
+    ],
+    reward: { xp: 120, money: 40, loot: 1, reputation: { town: 10 } },
+  },
+  whisper_debt: {
+    id: "whisper_debt",
+    title: "Должок шептуна",
+    giver: "Тот, кто шепчет",
+    desc: "Наводка не бесплатна: шептун просит проредить тех, кто караулит старую дорогу.",
+    days: 3,
+    stages: [
+      { text: "Одолеть врагов за пределами зала", objective: { kind: "kill", count: 3 } },
+      { text: "Вернуться к тому, кто шепчет", objective: { kind: "visit", node: "WHISPER" } },
+    ],
+    reward: { xp: 80, money: 30, reputation: { cults: 10 } },
+  },
+};
+
+export const activeQuests = (state: GameState) => state.quests.filter(q => q.status === "active");
+
+/** Current stage line with kill progress, e.g. "Одолеть врагов (1/3)". */
+export function questStageText(q: QuestState) {
+  const def = QUESTS[q.id];
+  const st = def?.stages[q.stage];
+  if (!st) return "";
+  return st.objective.kind === "kill" ? `${st.text} (${q.progress}/${st.objective.count})` : st.text;
+}
+
+export const fmtDeadline = (state: GameState, q: QuestState) => (q.deadline === undefined ? "" : q.deadline === state.day ? "сегодня последний день" : `до конца дня ${q.deadline}`);
+
+/** Takes a quest; does nothing if it was already taken, finished or failed. */
+export function startQuest(state: GameState, id: string) {
+  const def = QUESTS[id];
+  if (!def || state.quests.some(q => q.id === id)) return;
+  const q: QuestState = { id, status: "active", stage: 0, progress: 0 };
+  if (def.days) q.deadline = state.day + def.days - 1;
+  state.quests = [...state.quests, q];
+  addLog(state, "system", `📜 Новое задание: «${def.title}» — ${def.desc}\nЦель: ${questStageText(q)}${q.deadline !== undefined ? ` (${fmtDeadline(state, q)})` : ""}`);
+}
+
+/** Counts defeated enemies towards active "kill" stages. */
+export function countKills(state: GameState, enemies: Enemy[]) {
+  for (const q of activeQuests(state)) {
+    const obj = QUESTS[q.id]?.stages[q.stage]?.objective;
+    if (obj?.kind === "kill") q.progress += enemies.filter(e => !obj.enemy || e.id === obj.enemy).length;
+  }
+}
+
+function met(state: GameState, q: QuestState) {
+  const obj = QUESTS[q.id].stages[q.stage].objective;
+  if (obj.kind === "visit") return state.node === obj.node && !state.enemy;
+  if (obj.kind === "kill") return q.progress >= obj.count;
+  if (obj.kind === "item") return state.backpack.some(it => it.id === obj.itemId);
+  return !!state.flags[obj.flag];
+}
+
+// quest items stay with the quest: handed in on success, lost on failure
+function dropQuestItems(state: GameState, def: QuestDef, source: string) {
+  for (const { objective: obj } of def.stages) {
+    if (obj.kind !== "item") continue;
+    const idx = state.backpack.findIndex(it => it.id === obj.itemId && it.type === "quest");
+    if (idx >= 0) loseItem(state, idx, source, state.backpack[idx].qty ?? 1);
+  }
+}
+
+function complete(state: GameState, q: QuestState, rng: Rng) {
+  const def = QUESTS[q.id];
+  q.status = "done";
+  dropQuestItems(state, def, `сдано: ${def.title}`);
+  const { reward } = def;
+  state.money += reward.money;
+  addLog(state, "system", `✅ Задание выполнено: «${def.title}». ⭐ XP +${reward.xp}${reward.money ? ` | 💰 +${reward.money} ${baseCurrency(state)}` : ""}`);
+  const items = [...(reward.items ?? []).map(it => ({ ...it })), ...Array.from({ length: reward.loot ?? 0 }, () => rollLoot(state, state.level + 1, rng))];
+  for (const it of items) if (addItem(state, it, `награда: ${def.title}`)) addLog(state, "system", `🎁 Награда: ${it.rarity} ${it.name}`);
+  for (const f of FACTIONS) changeReputation(state, f.id, reward.reputation?.[f.id] ?? 0);
+  gainXp(state, reward.xp);
+}
+
+/**
+ * Moves active quests along: fails the overdue ones, then advances every
+ * quest through as many stages as are already satisfied.
+ */
+export function trackQuests(state: GameState, rng: Rng) {
+  for (const q of activeQuests(state)) {
+    const def = QUESTS[q.id];
+    if (!def) continue;
+    if (q.deadline !== undefined && state.day > q.deadline) {
+      q.status = "failed";
+      dropQuestItems(state, def, `провалено: ${def.title}`);
+      addLog(state, "system", `❌ Задание провалено: «${def.title}» — срок вышел.`);
+      continue;
+    }
+    const before = q.stage;
+    while (q.status === "active" && met(state, q)) {
+      q.stage += 1;
+      q.progress = 0;
+      if (q.stage >= def.stages.length) complete(state, q, rng);
+    }
+    if (q.status === "active" && q.stage !== before) addLog(state, "system", `📜 «${def.title}»: ${questStageText(q)}`);
+  }
+}
+
+export function fmtQuests(state: GameState) {
+  if (!state.quests.length) return "Заданий нет. Загляните на доску объявлений.";
+  const lines = activeQuests(state).map(q => {
+    const def = QUESTS[q.id];
+    const dl = fmtDeadline(state, q);
+    return `📜 ${def.title} (${def.giver}) — этап ${q.stage + 1}/${def.stages.length}: ${questStageText(q)}${dl ? ` | ⏳ ${dl}` : ""}`;
+  });
+  const done = state.quests.filter(q => q.status === "done").map(q => QUESTS[q.id]?.title ?? q.id);
+  const failed = state.quests.filter(q => q.status === "failed").map(q => QUESTS[q.id]?.title ?? q.id);
+  if (done.length) lines.push(`✅ Выполнено: ${done.join(", ")}`);
+  if (failed.length) lines.push(`❌ Провалено: ${failed.join(", ")}`);
+  return lines.join("\n") || "Активных заданий нет.";
+}
+
+/** A taken quest by (partial) title. */
+export function findQuest(state: GameState, ref: string) {
+  const q = ref.trim().toLowerCase();
+  return q ? state.quests.find(x => QUESTS[x.id]?.title.toLowerCase().includes(q)) : undefined;
+}
+
+/** One quest in full: every stage with its mark, the deadline and the reward. */
+export function fmtQuest(state: GameState, q: QuestState) {
+  const def = QUESTS[q.id];
+  const mark = (i: number) => (q.status === "done" || i < q.stage ? "✅" : i === q.stage && q.status === "active" ? "▶️" : q.status === "failed" && i === q.stage ? "❌" : "▫️");
+  const dl = q.status === "active" ? fmtDeadline(state, q) : "";
+  const { reward } = def;
+  return [
+    `📜 ${def.title} (${def.giver})${q.status === "done" ? " — выполнено" : q.status === "failed" ? " — провалено" : ""}`,
+    def.desc,
+    ...def.stages.map((st, i) => `${mark(i)} ${i === q.stage && q.status === "active" ? questStageText(q) : st.text}`),
+    ...(dl ? [`⏳ ${dl}`] : []),
+    `Награда: ⭐ ${reward.xp} XP${reward.money ? ` | 💰 ${reward.money} ${baseCurrency(state)}` : ""}${reward.loot ? ` | 🎁 трофеев: ${reward.loot}` : ""}` +
+      FACTIONS.filter(f => reward.reputation?.[f.id]).map(f => ` | ${f.icon} ${f.name} +${reward.reputation![f.id]}`).join(""),
+  ].join("\n");
+}
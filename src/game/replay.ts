@@ -0,0 +1,49 @@
+import { reduce, type GameAction } from "./engine";
+import type { GameState } from "./types";
+
+export type Session = { initial: GameState; actions: GameAction[] };
+export type Recording = { session: Session; state: GameState };
+
+export type StateChange = { path: string; before: unknown; after: unknown };
+export type ReplayStep = { index: number; action: GameAction; state: GameState; changes: StateChange[] };
+
+export function startRecording(initial: GameState): Recording {
+  return { session: { initial, actions: [] }, state: initial };
+}
+
+export function record(rec: Recording, action: GameAction): Recording {
+  return { session: { ...rec.session, actions: [...rec.session.actions, action] }, state: reduce(rec.state, action) };
+}
+
+export function replay(session: Session, upTo = session.actions.length): GameState {
+  let s = session.initial;
+  for (const a of session.actions.slice(0, upTo)) s = reduce(s, a);
+  return s;
+}
+
+export function replaySteps(session: Session): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  let s = session.initial;
+  session.actions.forEach((action, index) => {
+    const next = reduce(s, action);
+    steps.push({ index, action, state: next, changes: diffState(s, next) });
+    s = next;
+  });
+  return steps;
+}
+
+export function diffState(a: unknown, b: unknown, path = ""): StateChange[] {
+  if (Object.is(a, b)) return [];
+  const bothObjects = a !== null && b !== null && typeof a === "object" && typeof b === "object";
+  if (!bothObjects || Array.isArray(a) !== Array.isArray(b)) return [{ path: path || "(root)", before: a, after: b }];
+
+  const ao = a as Record<string, unknown>;
+  const bo = b as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(ao), ...Object.keys(bo)]));
+  const out: StateChange[] = [];
+  for (const k of keys) {
+    const sub = Array.isArray(a) ? `${path}[${k}]` : path ? `${path}.${k}` : k;
+    out.push(...diffState(ao[k], bo[k], sub));
+  }
+  return out;
+}
@@ -0,0 +1,80 @@
+import { isNight } from "./bestiary";
+import { startCombat } from "./combat";
+import { baseCurrency, nightHunters, safeHub } from "./data";
+import { atHub } from "./shop";
+import { maybeWeather, nextHour } from "./time";
+import type { GameState, Rng } from "./types";
+import { addLog, chanceCheck } from "./util";
+import { locationDef } from "./world";
+
+/** rest — a short break, sleep — until morning with the best regeneration, wait — awake until morning. */
+export type RestMode = "rest" | "sleep" | "wait";
+
+const REST_HOURS = 2;
+const MORNING = 8;
+/** From this hour on it is late enough to sleep or wait for the morning. */
+const EVENING = 18;
+const REGEN: Record<RestMode, number> = { rest: 2, sleep: 3, wait: 1 };
+const LABELS: Record<RestMode, string> = { rest: "⏳ Отдых", sleep: "🛏 Сон", wait: "🌅 Ожидание" };
+
+/** A room at the hub for the night. */
+export const ROOM_PRICE = 8;
+/** Share of the location's travel danger that applies to every hour spent camping. */
+const CAMP_DANGER = 0.5;
+const NIGHT_CAMP_DANGER = 1.5;
+
+const untilMorning = (state: GameState) => (MORNING - state.hour + 24) % 24;
+const lateEnough = (state: GameState) => state.hour >= EVENING || state.hour < MORNING;
+
+export const restHours = (state: GameState, mode: RestMode) => (mode === "rest" ? REST_HOURS : untilMorning(state));
+export const restCost = (state: GameState, mode: RestMode) => (mode === "sleep" && atHub(state) ? ROOM_PRICE : 0);
+
+/** Ambush chance (%) per hour of resting here; the hub is safe. */
+export function campDanger(state: GameState) {
+  if (state.location === safeHub(state)) return 0;
+  const danger = (locationDef(state)?.danger ?? 0) * CAMP_DANGER;
+  return Math.round(danger * (isNight(state) ? NIGHT_CAMP_DANGER * nightHunters(state) : 1));
+}
+
+/** Why this kind of rest is not possible right now, or "" when it is. */
+export function restBlocker(state: GameState, mode: RestMode) {
+  if (state.enemy) return "Не до отдыха — враг рядом.";
+  if (mode !== "rest" && !lateEnough(state)) return mode === "sleep" ? "Слишком рано для сна — можно просто отдохнуть." : "Уже светло — ждать утра незачем.";
+  const cost = restCost(state, mode);
+  if (cost > state.money) return `Комната на ночь стоит ${cost} ${baseCurrency(state)}, а у вас ${state.money}.`;
+  return "";
+}
+
+/**
+ * Lets the hours pass with boosted regeneration. Away from the hub every
+ * hour may end in an ambush, which cuts the rest short.
+ */
+export function rest(s: GameState, mode: RestMode, rng: Rng) {
+  const blocked = restBlocker(s, mode);
+  if (blocked) { addLog(s, "system", blocked); return; }
+
+  delete s.trade;
+  delete s.talk;
+  const cost = restCost(s, mode);
+  if (cost) s.money -= cost;
+  const hours = restHours(s, mode);
+  const hp = s.hpCur;
+  const mp = s.mpCur;
+
+  let slept = 0;
+  let ambushed = false;
+  while (slept < hours) {
+    const danger = campDanger(s);
+    nextHour(s, REGEN[mode]);
+    maybeWeather(s, rng);
+    slept += 1;
+    if (danger && chanceCheck(rng) <= danger) { ambushed = true; break; }
+  }
+
+  const where = cost ? ` (комната −${cost} ${baseCurrency(s)})` : "";
+  addLog(s, "system", `${LABELS[mode]} ${slept} ч${where}: ❤️ +${s.hpCur - hp} → ${s.hpCur}/${s.hpMax}, 🔷 +${s.mpCur - mp} → ${s.mpCur}/${s.mpMax}`);
+  if (ambushed) {
+    addLog(s, "system", mode === "sleep" ? "⚠️ Вас будит треск веток — лагерь окружают!" : "⚠️ Отдых прерван: из темноты выходят враги!");
+    startCombat(s, rng);
+  }
+}
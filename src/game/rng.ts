@@ -0,0 +1,23 @@
+import type { GameState, Rng } from "./types";
+
+/**
+ * Counter-based mulberry32: the value at `cursor` depends only on (seed, cursor),
+ * so a saved state resumes the exact same sequence.
+ */
+export function rngAt(seed: number, cursor: number) {
+  let t = (seed + Math.imul(cursor + 1, 0x6d2b79f5)) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/** Rng bound to `state.rng`; every draw advances the stored cursor. */
+export function stateRng(state: GameState): Rng {
+  return () => {
+    const v = rngAt(state.rng.seed, state.rng.cursor);
+    state.rng.cursor += 1;
+    return v;
+  };
+}
+
+export function randomSeed() { return Math.floor(Math.random() * 2 ** 32); }
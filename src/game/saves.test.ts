@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { record, startRecording } from "./replay";
+import { exportSave, parseSave, saveMeta } from "./saves";
+import { makeInitialState } from "./state";
+
+function exported() {
+  let rec = startRecording(makeInitialState(1));
+  rec = record(rec, { type: "SET_UNIVERSE", universe: "CLASSIC_FANTASY" });
+  rec = record(rec, { type: "SET_SEX", sex: "Ж" });
+  return JSON.parse(exportSave(saveMeta("a", "", rec.state, 1), rec));
+}
+
+describe("parseSave", () => {
+  it("keeps a valid replay session", () => {
+    const res = parseSave(JSON.stringify(exported()));
+    expect(res.ok && res.file.session?.actions).toHaveLength(2);
+  });
+
+  it("drops the session when an action is malformed", () => {
+    const file = exported();
+    file.session.actions[1] = { type: "SET_SEX" };
+    const res = parseSave(JSON.stringify(file));
+    expect(res.ok).toBe(true);
+    expect(res.ok && res.file.session).toBeUndefined();
+  });
+
+  it("drops the session when its start is not a valid state", () => {
+    const file = exported();
+    file.session.initial.phase = "NOWHERE";
+    const res = parseSave(JSON.stringify(file));
+    expect(res.ok && res.file.session).toBeUndefined();
+  });
+
+  it("refuses files that are not saves", () => {
+    expect(parseSave("[]")).toEqual({ ok: false, errors: ["это не файл сохранения игры"] });
+    expect(parseSave("{")).toEqual({ ok: false, errors: ["файл не является JSON"] });
+  });
+});
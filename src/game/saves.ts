@@ -0,0 +1,104 @@
+import { parseAction } from "./actions";
+import { universeTitle } from "./data";
+import type { GameAction } from "./engine";
+import { migrateState } from "./migrations";
+import type { Recording, Session } from "./replay";
+import type { GameState } from "./types";
+
+/** The subset of the Web Storage API the save system needs (localStorage fits). */
+export type SaveStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export type SaveMeta = {
+  id: string;
+  label: string;
+  name: string;
+  level: number;
+  universe: string;
+  day: number;
+  savedAt: number;
+};
+
+export type SaveFile = { format: "rpg-chat-save"; meta: SaveMeta; state: GameState; session?: Session };
+
+const INDEX_KEY = "rpg_chat_slots_v1";
+const slotKey = (id: string) => `rpg_chat_slot_${id}`;
+
+function readIndex(storage: SaveStorage): SaveMeta[] {
+  try {
+    const list = JSON.parse(storage.getItem(INDEX_KEY) ?? "[]");
+    return Array.isArray(list) ? list : [];
+  } catch { return []; }
+}
+
+export function listSaves(storage: SaveStorage): SaveMeta[] {
+  return readIndex(storage).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export function saveMeta(id: string, label: string, state: GameState, savedAt: number): SaveMeta {
+  return {
+    id,
+    label: label.trim() || state.name || "Без имени",
+    name: state.name ?? "—",
+    level: state.level,
+    universe: universeTitle(state),
+    day: state.day,
+    savedAt,
+  };
+}
+
+export function writeSave(storage: SaveStorage, meta: SaveMeta, rec: Recording): SaveMeta {
+  const file: SaveFile = { format: "rpg-chat-save", meta, state: rec.state, session: rec.session };
+  storage.setItem(slotKey(meta.id), JSON.stringify(file));
+  storage.setItem(INDEX_KEY, JSON.stringify([...readIndex(storage).filter(m => m.id !== meta.id), meta]));
+  return meta;
+}
+
+export function deleteSave(storage: SaveStorage, id: string) {
+  storage.removeItem(slotKey(id));
+  storage.setItem(INDEX_KEY, JSON.stringify(readIndex(storage).filter(m => m.id !== id)));
+}
+
+export type ImportResult = { ok: true; file: SaveFile; migrated: boolean } | { ok: false; errors: string[] };
+
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+/**
+ * The replay session of a save: its start must be a valid state of the
+ * current version and every action must parse, otherwise it is dropped.
+ */
+function parseSession(raw: unknown): Session | undefined {
+  if (!isObj(raw) || !Array.isArray(raw.actions)) return undefined;
+  const init = migrateState(raw.initial);
+  if (!init.ok || init.migrated) return undefined;
+  const actions = raw.actions.map(parseAction);
+  return actions.every((a): a is GameAction => a !== null) ? { initial: init.state, actions } : undefined;
+}
+
+/**
+ * Parses and validates a save from JSON (a slot or an exported file).
+ * Older state versions are migrated; the replay session is only kept when
+ * it was recorded on the current version, since older actions may replay differently.
+ */
+export function parseSave(raw: string): ImportResult {
+  let obj: unknown;
+  try { obj = JSON.parse(raw); } catch { return { ok: false, errors: ["файл не является JSON"] }; }
+  if (!isObj(obj) || obj.format !== "rpg-chat-save") return { ok: false, errors: ["это не файл сохранения игры"] };
+
+  const res = migrateState(obj.state);
+  if (!res.ok) return res;
+
+  const m = isObj(obj.meta) ? obj.meta : {};
+  const meta = saveMeta(typeof m.id === "string" ? m.id : "import", typeof m.label === "string" ? m.label : "", res.state, Number(m.savedAt) || 0);
+  const session = res.migrated ? undefined : parseSession(obj.session);
+  return { ok: true, file: { format: "rpg-chat-save", meta, state: res.state, session }, migrated: res.migrated };
+}
+
+export function readSave(storage: SaveStorage, id: string): ImportResult {
+  const raw = storage.getItem(slotKey(id));
+  return raw ? parseSave(raw) : { ok: false, errors: ["слот пуст"] };
+}
+
+export function exportSave(meta: SaveMeta, rec: Recording) {
+  const file: SaveFile = { format: "rpg-chat-save", meta, state: rec.state, session: rec.session };
+  return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,195 @@
+import { knownAbilities } from "./abilities";
+import { advanceStory, currentBeat } from "./canon/story";
+import { startCombat } from "./combat";
+import { STAT_ICONS, baseCurrency, safeHub, universeTitle } from "./data";
+import { changeReputation, factionStanding } from "./factions";
+import { addItem, effectiveStats, loseItem } from "./inventory";
+import { rollLoot } from "./loot";
+import { CHECK_TAG_LABELS, checkBonus, hasHints, takeDailyCheck } from "./modifiers";
+import { NPCS, attitude, attitudeBonus, changeAttitude, currentTalk, fmtAttitude, startTalk, type DialogueOption } from "./npcs";
+import { startQuest } from "./quests";
+import { sceneGraphFor, type SceneCheck, type SceneChoiceDef, type SceneCondition, type SceneDef, type SceneEffect, type SceneOutcome } from "./scenes";
+import { TIME_OF_DAY_LABELS, nightPenalty, timeOfDay } from "./time";
+import type { ChoiceId, Enemy, GameState, Rng, Scene } from "./types";
+import { addLog, chanceCheck, clamp, fmtMod } from "./util";
+import { locationDef } from "./world";
+
+const CHOICE_IDS: ChoiceId[] = ["1", "2", "3"];
+
+export function interpolate(state: GameState, template: string) {
+  const vars: Record<string, string> = {
+    universe: universeTitle(state),
+    hub: safeHub(state),
+    currency: baseCurrency(state),
+    weather: state.weather,
+    location: state.location,
+    place: locationDef(state)?.desc ?? "",
+    name: state.name ?? "Путник",
+    day: String(state.day),
+    hour: String(state.hour).padStart(2, "0"),
+    daytime: TIME_OF_DAY_LABELS[timeOfDay(state)],
+    money: String(state.money),
+  };
+  return template.replace(/\{(\w+)\}/g, (m, key: string) => vars[key] ?? m);
+}
+
+const within = (v: number, c: { min?: number; max?: number }) => v >= (c.min ?? -Infinity) && v <= (c.max ?? Infinity);
+
+function meets(state: GameState, c: SceneCondition) {
+  if (c.kind === "flag") return !!state.flags[c.flag] === (c.is ?? true);
+  if (c.kind === "reputation") return within(factionStanding(state, c.faction), c);
+  if (c.kind === "attitude") return !!NPCS[c.npc] && within(attitude(state, NPCS[c.npc]), c);
+  if (c.kind === "stat") return effectiveStats(state)[c.stat] >= c.min;
+  if (c.kind === "money") return state.money >= c.min;
+  if (c.kind === "item") return state.backpack.some(it => it.id === c.itemId && (it.qty ?? 1) > 0);
+  return c.from <= c.to ? state.hour >= c.from && state.hour < c.to : state.hour >= c.from || state.hour < c.to;
+}
+
+export function currentSceneDef(state: GameState): SceneDef {
+  const graph = sceneGraphFor(state);
+  return graph.scenes[state.node] ?? graph.scenes[graph.start];
+}
+
+function visibleChoices<C extends { if?: SceneCondition[] }>(state: GameState, sc: { choices: C[] }): C[] {
+  return sc.choices.filter(ch => (ch.if ?? []).every(c => meets(state, c))).slice(0, 3);
+}
+
+/** Chance of a scene check with stat and trait modifiers, plus the breakdown for the log. `attitude` is the NPC's bonus in a dialogue. */
+export function checkChance(state: GameState, check: SceneCheck, extra = 0, attitude = 0) {
+  const { stat, perPoint = 0, tag } = check;
+  const statBonus = stat ? (effectiveStats(state)[stat] - 3) * perPoint : 0;
+  const trait = checkBonus(state, tag);
+  // darkness hides the hero as well as the danger
+  const night = nightPenalty(state) * (tag === "stealth" ? 1 : -1);
+  const parts = [`база ${check.chance}`, ...(stat ? [fmtMod(STAT_ICONS[stat], statBonus)] : [])];
+  if (trait) parts.push(fmtMod(CHECK_TAG_LABELS[tag!], trait));
+  if (night) parts.push(fmtMod("🌙", night));
+  if (extra) parts.push(fmtMod("перк", extra));
+  if (attitude) parts.push(fmtMod("отношение", attitude));
+  return { chance: clamp(check.chance + statBonus + trait + night + extra + attitude, 5, 95), parts };
+}
+
+const alive = (pack: Enemy[] | undefined) => (pack ?? []).filter(e => e.hpCur > 0).length;
+
+export function buildScene(state: GameState): Scene {
+  if (state.enemy) {
+    return {
+      text:
+        `Перед вами ${state.enemy.name}${alive(state.pack) ? ` и ещё ${alive(state.pack)}` : ""} — шаги звучат слишком близко. ` +
+        `Секунда тянется, и вы чувствуете, что сейчас решает один ход. ` +
+        `В воздухе пахнет металлом и сыростью.`,
+      choices: [
+        { id: "1", icon: "⚔", label: "Атака оружием" },
+        { id: "2", icon: "🛡", label: "Осторожная стойка" },
+        { id: "3", icon: "✦", label: "Расходник / умение" },
+        { id: "4", icon: "◦", label: "Свой вариант (описать)" },
+      ],
+      abilities: knownAbilities(state).map(a => ({ id: a.id, icon: a.icon, label: `${a.name} — ${a.desc}`, mp: a.mp, ready: state.mpCur >= a.mp })),
+    };
+  }
+
+  const hints = hasHints(state);
+  const talk = currentTalk(state);
+  if (talk) {
+    const hint = (ch: DialogueOption) => (hints && ch.check ? ` 💡~${checkChance(state, ch.check, 0, attitudeBonus(state, talk.npc)).chance}%` : "");
+    return {
+      text: `🗣️ ${talk.npc.name} (${fmtAttitude(state, talk.npc)}): ${interpolate(state, talk.node.text)}`,
+      choices: [
+        ...visibleChoices(state, talk.node).map((ch, i) => ({ id: CHOICE_IDS[i], icon: ch.icon ?? "◦", label: interpolate(state, ch.label) + hint(ch) })),
+        { id: "4", icon: "◦", label: "Сказать своими словами" },
+      ],
+    };
+  }
+
+  const sc = currentSceneDef(state);
+  const hint = (ch: SceneChoiceDef) => (hints && ch.check ? ` 💡~${checkChance(state, ch.check).chance}%` : "");
+  const beat = currentBeat(state);
+  const story = beat && state.node !== beat.scene ? `\n📖 Сюжет: ${beat.title}${beat.location && beat.location !== state.location ? ` — ${beat.location}` : " — /сюжет"}` : "";
+  return {
+    text: interpolate(state, sc.textAt?.[timeOfDay(state)] ?? sc.text) + story,
+    choices: [
+      ...visibleChoices(state, sc).map((ch, i) => ({ id: CHOICE_IDS[i], icon: ch.icon ?? "◦", label: interpolate(state, ch.label) + hint(ch) })),
+      { id: "4", icon: "◦", label: "Свой вариант (описать)" },
+    ],
+  };
+}
+
+function applyEffect(s: GameState, e: SceneEffect, rng: Rng) {
+  if (e.kind === "log") addLog(s, "system", interpolate(s, e.text));
+  else if (e.kind === "journal") addLog(s, "system", `🧭 ${interpolate(s, e.text)}`);
+  else if (e.kind === "flag") s.flags[e.flag] = e.value ?? true;
+  else if (e.kind === "money") s.money = Math.max(0, s.money + e.delta);
+  else if (e.kind === "hp") s.hpCur = clamp(s.hpCur + e.delta, 0, s.hpMax);
+  else if (e.kind === "item") addItem(s, e.item, "сцена");
+  else if (e.kind === "loot") {
+    const it = rollLoot(s, s.level + (e.bonus ?? 0), rng);
+    if (addItem(s, it, "находка")) addLog(s, "system", `🎁 Находка: ${it.rarity} ${it.name}`);
+  }
+  else if (e.kind === "quest") startQuest(s, e.id);
+  else if (e.kind === "takeItem") {
+    const idx = s.backpack.findIndex(it => it.id === e.itemId);
+    if (idx >= 0) loseItem(s, idx, "отдано");
+  }
+  else if (e.kind === "reputation") changeReputation(s, e.faction, e.delta);
+  else if (e.kind === "attitude") changeAttitude(s, e.npc, e.delta);
+  else if (e.kind === "talk") startTalk(s, e.npc);
+  else if (e.kind === "beat") advanceStory(s);
+  else startCombat(s, rng, e.enemies);
+}
+
+function applyOutcome(s: GameState, out: SceneOutcome | undefined, rng: Rng) {
+  if (!out) return;
+  const from = s.node;
+  if (out.text) addLog(s, "system", interpolate(s, out.text));
+  for (const e of out.effects ?? []) applyEffect(s, e, rng);
+  // the story moving on has already picked the next scene
+  if (out.goto && !s.enemy && s.node === from) s.node = out.goto;
+}
+
+/** Resolves choice 1–3 of the current scene: check, effects, then the transition. */
+export function runSceneChoice(s: GameState, id: ChoiceId, rng: Rng) {
+  const ch = visibleChoices(s, currentSceneDef(s))[CHOICE_IDS.indexOf(id)];
+  if (!ch) {
+    addLog(s, "system", "Такого варианта здесь нет.");
+    return;
+  }
+
+  if (!ch.check) {
+    applyOutcome(s, ch.success, rng);
+    return;
+  }
+
+  const { chance, parts } = checkChance(s, ch.check, takeDailyCheck(s));
+  const roll = chanceCheck(rng);
+  const ok = roll <= chance;
+  addLog(s, "system", `${ch.check.label}. Шанс ${chance}% (${parts.join(", ")}) | Проверка ${roll}/100 → ${ok ? "✅" : "❌"}`);
+  applyOutcome(s, ok ? ch.success : ch.fail, rng);
+}
+
+/**
+ * Resolves option 1–3 of the conversation: the check (with the NPC's
+ * attitude), effects, then the next node. Talking takes no time.
+ */
+export function runDialogueChoice(s: GameState, id: ChoiceId, rng: Rng) {
+  const talk = currentTalk(s);
+  const ch = talk && visibleChoices(s, talk.node)[CHOICE_IDS.indexOf(id)];
+  if (!talk || !ch) {
+    addLog(s, "system", "Такого варианта здесь нет.");
+    return;
+  }
+
+  let ok = true;
+  if (ch.check) {
+    const { chance, parts } = checkChance(s, ch.check, takeDailyCheck(s), attitudeBonus(s, talk.npc));
+    const roll = chanceCheck(rng);
+    ok = roll <= chance;
+    addLog(s, "system", `${ch.check.label}. Шанс ${chance}% (${parts.join(", ")}) | Проверка ${roll}/100 → ${ok ? "✅" : "❌"}`);
+  }
+  const out = ok ? ch.success : ch.fail;
+  if (out?.text) addLog(s, "system", interpolate(s, out.text));
+  for (const e of out?.effects ?? []) applyEffect(s, e, rng);
+  // an effect may have started a fight or another conversation
+  if (s.talk?.npc !== talk.npc.id) return;
+  if (out?.end) delete s.talk;
+  else if (out?.goto) s.talk.node = out.goto;
+}
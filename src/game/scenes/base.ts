@@ -0,0 +1,122 @@
+import { BANDAGE, HEALING_POTION, OILED_BUNDLE } from "../items";
+import type { SceneGraph } from "./types";
+
+export const BASE_GRAPH: SceneGraph = {
+  start: "HUB",
+  entries: ["FIELD"],
+  scenes: {
+    HUB: {
+      id: "HUB",
+      text:
+        "({universe}) {weather}. Вы у входа в {hub}. " +
+        "На доске объявлений свежая записка, рядом скомканная карта с пометкой “опасно”. " +
+        "Кто-то шепчет про “странный след” в двух часах пути и обещает награду. " +
+        "Первый шаг задаст тон всей истории.",
+      textAt: {
+        evening:
+          "({universe}) {weather}, вечереет. В зале зажигают огни и пахнет ужином. " +
+          "На доске объявлений белеет свежая записка, а в углу кто-то шепчет про “странный след” и обещает награду.",
+        night:
+          "({universe}) {weather}, глубокая ночь. В зале почти пусто: догорают свечи, за стойкой зевают. " +
+          "Записка на доске едва видна в полумраке, а тот, кто шепчет, всё ещё сидит в углу — будто и не уходил.",
+      },
+      choices: [
+        { label: "Читать доску объявлений", success: { goto: "BOARD" } },
+        { label: "Поговорить с тем, кто шепчет", success: { goto: "WHISPER" } },
+        { label: "Проверить экипировку/инвентарь", success: { goto: "CHECK" } },
+      ],
+    },
+    BOARD: {
+      id: "BOARD",
+      text:
+        "Доска объявлений в {hub}. Записка обещает награду тому, кто разузнает про “странный след”. " +
+        "Пока вы читаете, за спиной кто-то слишком долго стоит без дела.",
+      choices: [
+        {
+          label: "Сорвать записку и выйти на дорогу",
+          success: { text: "Записка теперь у вас.", effects: [{ kind: "flag", flag: "board_note" }, { kind: "quest", id: "trail" }, { kind: "journal", text: "Записка с доски: странный след" }], goto: "ROAD" },
+        },
+        {
+          label: "Обернуться к тени за спиной",
+          check: { label: "Случай", chance: 75, stat: "luck", perPoint: 3 },
+          success: { text: "Тень оказывается зевакой и растворяется в толпе." },
+          fail: { text: "⚠️ Подозрительная тень хватается за нож!", effects: [{ kind: "combat", enemies: ["cutpurse"] }] },
+        },
+        { label: "Вернуться в зал", success: { goto: "HUB" } },
+      ],
+    },
+    WHISPER: {
+      id: "WHISPER",
+      text:
+        "В углу {hub} сидит тот, кто шепчет. Капюшон низко, пальцы перебирают монету. " +
+        "Он смотрит на вас так, будто уже назвал цену.",
+      choices: [
+        { label: "Подсесть и заговорить", icon: "🗣️", success: { effects: [{ kind: "talk", npc: "whisperer" }] } },
+        { label: "Отправиться к тайнику", if: [{ kind: "flag", flag: "lead_cache" }], success: { goto: "ROAD" } },
+        { label: "Вернуться в зал", success: { goto: "HUB" } },
+      ],
+    },
+    CHECK: {
+      id: "CHECK",
+      text: "Вы отходите к стене и раскладываете снаряжение. {name}, сейчас самое время убедиться, что ничего не болтается.",
+      choices: [
+        { label: "Подтянуть ремни и пересчитать карманы", success: { text: "Вы проверяете ремни и карманы. Всё на месте.", effects: [{ kind: "journal", text: "Проверка снаряжения" }] } },
+        { label: "Вернуться в зал", success: { goto: "HUB" } },
+      ],
+    },
+    ROAD: {
+      id: "ROAD",
+      text: "Старая дорога от {hub}. {weather}. Следы на обочине то исчезают, то появляются вновь — кто-то ходил здесь недавно.",
+      textAt: { night: "Старая дорога от {hub}. {weather}, ночь. Следы на обочине едва различимы, а темнота между деревьями кажется живой." },
+      choices: [
+        {
+          label: "Идти по следу",
+          check: { label: "Осторожность", chance: 60, stat: "dex", perPoint: 4, tag: "ambush" },
+          success: { text: "Вы обходите засаду стороной.", goto: "CACHE" },
+          fail: { text: "⚠️ Из кустов выходит тот, кто ждал здесь не вас.", effects: [{ kind: "combat" }] },
+        },
+        { label: "Вернуться в {hub}", success: { goto: "HUB" } },
+      ],
+    },
+    FIELD: {
+      id: "FIELD",
+      text: "{location}. {weather}. {place}",
+      textAt: {
+        morning: "{location}. {weather}, раннее утро — роса на траве и свежие следы. {place}",
+        night: "{location}. {weather}, ночь: в темноте каждый шорох звучит громче. {place}",
+      },
+      choices: [
+        {
+          label: "Обыскать окрестности",
+          check: { label: "Поиск", chance: 40, stat: "luck", perPoint: 4, tag: "tracking" },
+          success: { text: "Среди камней и травы находится кое-что полезное.", effects: [{ kind: "loot" }] },
+          fail: { text: "⚠️ Шорох за спиной — вас заметили раньше, чем вы что-то нашли.", effects: [{ kind: "combat" }] },
+        },
+        { label: "Перевести дух у дороги", success: { text: "Вы садитесь на придорожный камень и даёте ногам отдых.", effects: [{ kind: "hp", delta: 2 }] } },
+      ],
+    },
+    CACHE: {
+      id: "CACHE",
+      text: "Под корнями поваленного дерева — присыпанный землёй ящик. Похоже на тот самый тайник.",
+      choices: [
+        {
+          label: "Вскрыть тайник",
+          if: [{ kind: "flag", flag: "cache_looted", is: false }],
+          success: {
+            text: "Внутри монеты, склянка и что-то завёрнутое в промасленную ткань.",
+            effects: [
+              { kind: "flag", flag: "cache_looted" },
+              { kind: "money", delta: 25 },
+              { kind: "item", item: HEALING_POTION },
+              { kind: "item", item: BANDAGE },
+              { kind: "item", item: OILED_BUNDLE },
+              { kind: "loot" },
+              { kind: "journal", text: "Тайник найден" },
+            ],
+          },
+        },
+        { label: "Вернуться в {hub}", success: { goto: "HUB" } },
+      ],
+    },
+  },
+};
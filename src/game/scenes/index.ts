@@ -0,0 +1,114 @@
+import { BESTIARY } from "../bestiary";
+import type { WorldRef } from "../data";
+import { NPCS, type NpcDef } from "../npcs";
+import { QUESTS } from "../quests";
+import type { Universe } from "../types";
+import { BASE_GRAPH } from "./base";
+import type { SceneEffect, SceneGraph, SceneIssue } from "./types";
+
+export * from "./types";
+
+function withText(graph: SceneGraph, texts: Record<string, string>): SceneGraph {
+  const scenes = Object.fromEntries(Object.entries(graph.scenes).map(([id, sc]) => [id, texts[id] ? { ...sc, text: texts[id] } : sc]));
+  return { ...graph, scenes };
+}
+
+const GRAPHS: Partial<Record<Universe, SceneGraph>> = {
+  DARK_FANTASY: withText(BASE_GRAPH, {
+    HUB:
+      "({universe}) {weather}. Вы у входа в {hub}. Колокол над дверью давно не звонит. " +
+      "На доске прибита записка, рядом карта, исцарапанная словом “опасно”. " +
+      "Кто-то шепчет про “странный след” в двух часах пути и обещает награду — если вернётесь.",
+    ROAD: "Раскисшая дорога от {hub}. {weather}. Вороны держатся слишком близко, а следы на обочине свежие.",
+  }),
+  ANIME_ISEKAI: withText(BASE_GRAPH, {
+    HUB:
+      "({universe}) {weather}. Вы у стойки {hub}. Над доской заданий мигает новый квест, " +
+      "рядом карта с пометкой “опасно”. Кто-то из авантюристов шепчет про “странный след” и обещает награду. " +
+      "Первый шаг задаст тон всей истории.",
+    BOARD: "Доска заданий в {hub}. Свиток без ранга обещает награду за “странный след”. За спиной кто-то слишком внимательно следит за вашим статусом.",
+  }),
+};
+
+/** A canon adds its own scenes (its story beats among them) and may reword the base ones. */
+export function sceneGraphFor(w: WorldRef): SceneGraph {
+  const pack = w.canonPack;
+  if (pack) {
+    const base = withText(BASE_GRAPH, pack.texts);
+    return { ...base, entries: [...(base.entries ?? []), ...pack.map.locations.flatMap(l => (l.node ? [l.node] : [])), ...pack.story.map(b => b.scene)], scenes: { ...base.scenes, ...pack.scenes } };
+  }
+  return (w.universe && GRAPHS[w.universe]) || BASE_GRAPH;
+}
+
+/** Effects that name an enemy, quest or NPC which does not exist. */
+function effectIssues(scene: string, where: string, effects: SceneEffect[], enemies: Record<string, unknown> = BESTIARY): SceneIssue[] {
+  const issues: SceneIssue[] = [];
+  for (const e of effects) {
+    for (const id of e.kind === "combat" ? e.enemies ?? [] : []) {
+      if (!enemies[id]) issues.push({ scene, kind: "unknown-enemy", message: `${where}: нет врага "${id}" в бестиарии` });
+    }
+    if (e.kind === "quest" && !QUESTS[e.id]) issues.push({ scene, kind: "unknown-quest", message: `${where}: нет задания "${e.id}"` });
+    if ((e.kind === "talk" || e.kind === "attitude") && !NPCS[e.npc]) issues.push({ scene, kind: "unknown-npc", message: `${where}: нет NPC "${e.npc}"` });
+  }
+  return issues;
+}
+
+/** Reports structural problems a writer would otherwise only find by playing. `enemies` is the bestiary combat effects may name. */
+export function validateSceneGraph(graph: SceneGraph, enemies: Record<string, unknown> = BESTIARY): SceneIssue[] {
+  const issues: SceneIssue[] = [];
+  if (!graph.scenes[graph.start]) issues.push({ scene: graph.start, kind: "missing-start", message: `Стартовая сцена "${graph.start}" не найдена` });
+
+  for (const sc of Object.values(graph.scenes)) {
+    if (sc.choices.length > 3) issues.push({ scene: sc.id, kind: "too-many-choices", message: `Сцена "${sc.id}": больше 3 вариантов (4-й всегда свой)` });
+    for (const ch of sc.choices) {
+      for (const target of [ch.success?.goto, ch.fail?.goto]) {
+        if (target && !graph.scenes[target]) issues.push({ scene: sc.id, kind: "dangling", message: `Сцена "${sc.id}", вариант "${ch.label}": переход в несуществующую "${target}"` });
+      }
+      issues.push(...effectIssues(sc.id, `Сцена "${sc.id}", вариант "${ch.label}"`, [...(ch.success?.effects ?? []), ...(ch.fail?.effects ?? [])], enemies));
+    }
+  }
+
+  const seen = new Set<string>();
+  const queue = [graph.start, ...(graph.entries ?? [])];
+  while (queue.length) {
+    const id = queue.shift()!;
+    const sc = graph.scenes[id];
+    if (!sc || seen.has(id)) continue;
+    seen.add(id);
+    for (const ch of sc.choices) for (const t of [ch.success?.goto, ch.fail?.goto]) if (t) queue.push(t);
+  }
+  for (const id of Object.keys(graph.scenes)) {
+    if (!seen.has(id)) issues.push({ scene: id, kind: "unreachable", message: `Сцена "${id}" недостижима из "${graph.start}"` });
+  }
+  return issues;
+}
+
+/** The same checks for an NPC's dialogue: nodes instead of scenes, `start` as the entry. */
+export function validateDialogue(npc: NpcDef): SceneIssue[] {
+  const issues: SceneIssue[] = [];
+  const at = (node: string) => `${npc.id}:${node}`;
+  if (!npc.nodes[npc.start]) issues.push({ scene: at(npc.start), kind: "missing-start", message: `${npc.name}: нет начальной реплики "${npc.start}"` });
+
+  for (const [id, node] of Object.entries(npc.nodes)) {
+    if (node.choices.length > 3) issues.push({ scene: at(id), kind: "too-many-choices", message: `${npc.name}, "${id}": больше 3 вариантов (4-й всегда свой)` });
+    for (const ch of node.choices) {
+      for (const target of [ch.success?.goto, ch.fail?.goto]) {
+        if (target && !npc.nodes[target]) issues.push({ scene: at(id), kind: "dangling", message: `${npc.name}, "${id}", вариант "${ch.label}": переход в несуществующую "${target}"` });
+      }
+      issues.push(...effectIssues(at(id), `${npc.name}, "${id}", вариант "${ch.label}"`, [...(ch.success?.effects ?? []), ...(ch.fail?.effects ?? [])]));
+    }
+  }
+
+  const seen = new Set<string>();
+  const queue = [npc.start];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (!npc.nodes[id] || seen.has(id)) continue;
+    seen.add(id);
+    for (const ch of npc.nodes[id].choices) for (const t of [ch.success?.goto, ch.fail?.goto]) if (t) queue.push(t);
+  }
+  for (const id of Object.keys(npc.nodes)) {
+    if (!seen.has(id)) issues.push({ scene: at(id), kind: "unreachable", message: `${npc.name}: реплика "${id}" недостижима из "${npc.start}"` });
+  }
+  return issues;
+}
@@ -0,0 +1,67 @@
+import type { TimeOfDay } from "../time";
+import type { BackpackItem, CheckTag, FactionId, Stats } from "../types";
+
+export type SceneCondition =
+  | { kind: "flag"; flag: string; is?: boolean }
+  | { kind: "stat"; stat: keyof Stats; min: number }
+  | { kind: "money"; min: number }
+  | { kind: "item"; itemId: string }
+  | { kind: "hour"; from: number; to: number }
+  /** Standing with a faction within [min, max]; either bound may be left out. */
+  | { kind: "reputation"; faction: FactionId; min?: number; max?: number }
+  /** An NPC's attitude to the hero within [min, max]. */
+  | { kind: "attitude"; npc: string; min?: number; max?: number };
+
+export type SceneEffect =
+  | { kind: "log"; text: string }
+  /** A road-journal note in the log; the breadcrumb itself follows the world map. */
+  | { kind: "journal"; text: string }
+  | { kind: "flag"; flag: string; value?: boolean }
+  | { kind: "money"; delta: number }
+  | { kind: "hp"; delta: number }
+  | { kind: "item"; item: BackpackItem }
+  /** A generated item at the hero's level plus `bonus`. */
+  | { kind: "loot"; bonus?: number }
+  /** Takes a quest from QUESTS; taking it twice does nothing. */
+  | { kind: "quest"; id: string }
+  /** Without `enemies` the fight is rolled on the encounter table. */
+  | { kind: "combat"; enemies?: string[] }
+  /** Takes one of this item out of the backpack. */
+  | { kind: "takeItem"; itemId: string }
+  | { kind: "reputation"; faction: FactionId; delta: number }
+  | { kind: "attitude"; npc: string; delta: number }
+  /** Starts a conversation with an NPC from NPCS. */
+  | { kind: "talk"; npc: string }
+  /** A canon's story (mode A) moves on to its next beat. */
+  | { kind: "beat" };
+
+/** Percent check: `chance` plus `perPoint` for every point of `stat` above 3. */
+/** `tag` lets trait modifiers (e.g. +10% к засадам) apply to the check. */
+export type SceneCheck = { label: string; chance: number; stat?: keyof Stats; perPoint?: number; tag?: CheckTag };
+
+export type SceneOutcome = { text?: string; effects?: SceneEffect[]; goto?: string };
+
+export type SceneChoiceDef = {
+  label: string;
+  icon?: string;
+  if?: SceneCondition[];
+  check?: SceneCheck;
+  /** Used when there is no check, or the check passed. */
+  success?: SceneOutcome;
+  fail?: SceneOutcome;
+};
+
+export type SceneDef = {
+  id: string;
+  /** Template; `{hub}`, `{weather}`, `{name}`, `{place}` etc. are filled from the state. */
+  text: string;
+  /** Variants of `text` for some times of day. */
+  textAt?: Partial<Record<TimeOfDay, string>>;
+  /** Up to three choices; "4" is always the player's own action. */
+  choices: SceneChoiceDef[];
+};
+
+/** `entries` are scenes entered from the world map rather than by a choice. */
+export type SceneGraph = { start: string; entries?: string[]; scenes: Record<string, SceneDef> };
+
+export type SceneIssue = { scene: string; kind: "missing-start" | "dangling" | "unreachable" | "too-many-choices" | "unknown-enemy" | "unknown-quest" | "unknown-npc"; message: string };
@@ -0,0 +1,206 @@
+import { baseCurrency, safeHub } from "./data";
+import { SHUNNED, factionPrice, factionStanding } from "./factions";
+import { addItem, effectiveStats, findItem, loseItem } from "./inventory";
+import { fmtGear, generateGear, rollConsumable, rollRarity } from "./loot";
+import { CHECK_TAG_LABELS, checkBonus, priceDiscount } from "./modifiers";
+import type { BackpackItem, FactionId, GameState, ItemType, Rarity, Rng, ShopState, Universe } from "./types";
+import { addLog, chanceCheck, clamp, fmtMod, rollRange } from "./util";
+
+/** A hub merchant; `kind` decides what the daily stock is made of, `faction` whose standing sets the prices. */
+export type MerchantDef = { id: string; name: string; greeting: string; kind: "general" | "smith"; faction: FactionId };
+
+export type TradeOp = "open" | "close" | "buy" | "sell" | "haggle";
+
+const MERCHANTS: Record<Universe | "DEFAULT", MerchantDef[]> = {
+  DEFAULT: [
+    { id: "grocer", name: "Лавочница Марта", greeting: "«Бинты, зелья, безделушки — всё свежее, утром привезли».", kind: "general", faction: "town" },
+    { id: "smith", name: "Кузнец Борн", greeting: "«Железо честное. Цена — тоже, если не торговаться».", kind: "smith", faction: "town" },
+  ],
+  CLASSIC_FANTASY: [],
+  CANON: [],
+  CUSTOM: [],
+  DARK_FANTASY: [
+    { id: "grocer", name: "Скупщица Ирма", greeting: "«Беру всё, что не воняет мертвечиной. Продаю — то, что поможет не стать ею».", kind: "general", faction: "hunters" },
+    { id: "smith", name: "Хромой Томас", greeting: "«Клинок переживёт тебя. Если заплатишь как следует».", kind: "smith", faction: "town" },
+  ],
+  ANIME_ISEKAI: [
+    { id: "grocer", name: "Гильдейский склад", greeting: "«Авантюрист? Покажите карточку — и добро пожаловать на склад!»", kind: "general", faction: "town" },
+    { id: "smith", name: "Мастер Кайто", greeting: "«Снаряжение под ваш ранг. Или чуть выше — за доплату».", kind: "smith", faction: "town" },
+  ],
+};
+
+const VALUE_BY_RARITY: Record<Rarity, number> = { "⚪": 10, "🟢": 25, "🔵": 60, "🟣": 140, "🟠": 320, "🔴": 750 };
+const VALUE_BY_TYPE: Record<ItemType, number> = { weapon: 1, armor: 1, accessory: 1.2, consumable: 0.6, material: 0.4, quest: 0 };
+
+/** Merchants buy at this share of the item value. */
+const SELL_SHARE = 0.4;
+/** Haggling: the day's discount on success, the markup on failure (in %). */
+const HAGGLE_WIN = 10;
+const HAGGLE_LOSS = -5;
+const HAGGLE_BASE = 35;
+const HAGGLE_PER_CHA = 5;
+
+export const merchantsFor = (u: Universe | null): MerchantDef[] => {
+  const own = MERCHANTS[u ?? "DEFAULT"];
+  return own.length ? own : MERCHANTS.DEFAULT;
+};
+
+export const atHub = (state: GameState) => !state.enemy && state.location === safeHub(state);
+
+/** Base value of one unit: rarity × type × item level. Quest items are worth nothing to merchants. */
+export function itemValue(it: BackpackItem) {
+  return Math.round(VALUE_BY_RARITY[it.rarity] * VALUE_BY_TYPE[it.type] * (1 + ((it.level ?? 1) - 1) * 0.2));
+}
+
+/** Today's discount at this merchant as a fraction: trade perks, the faction's standing and the haggling result. */
+export function tradeDiscount(state: GameState, merchantId: string) {
+  const m = merchantsFor(state.universe).find(x => x.id === merchantId);
+  const faction = m ? factionPrice(state, m.faction) : 0;
+  return clamp(priceDiscount(state, "trade") + (faction + (state.shops[merchantId]?.haggle ?? 0)) / 100, -0.5, 0.5);
+}
+
+export const buyPrice = (state: GameState, merchantId: string, it: BackpackItem) => Math.max(1, Math.ceil(itemValue(it) * (1 - tradeDiscount(state, merchantId))));
+export const sellPrice = (state: GameState, merchantId: string, it: BackpackItem) => Math.floor(itemValue(it) * SELL_SHARE * (1 + tradeDiscount(state, merchantId)));
+
+/** Haggling chance with its breakdown, the same way scene checks show it. */
+export function haggleChance(state: GameState) {
+  const cha = (effectiveStats(state).cha - 3) * HAGGLE_PER_CHA;
+  const talk = checkBonus(state, "talk");
+  const perk = Math.round(priceDiscount(state, "trade") * 100);
+  const parts = [`база ${HAGGLE_BASE}`, fmtMod("🗣️", cha)];
+  if (talk) parts.push(fmtMod(CHECK_TAG_LABELS.talk, talk));
+  if (perk) parts.push(fmtMod("перк", perk));
+  return { chance: clamp(HAGGLE_BASE + cha + talk + perk, 5, 95), parts };
+}
+
+function stack(stock: BackpackItem[], item: BackpackItem) {
+  const same = item.qty !== undefined ? stock.find(it => it.id === item.id && it.qty !== undefined) : undefined;
+  if (same) same.qty = (same.qty ?? 0) + (item.qty ?? 1);
+  else stock.push(item);
+}
+
+function rollStock(state: GameState, m: MerchantDef, rng: Rng): BackpackItem[] {
+  const stock: BackpackItem[] = [];
+  if (m.kind === "general") {
+    for (let i = 0; i < 3; i++) stack(stock, { ...rollConsumable(rng), qty: rollRange(rng, 1, 3) });
+    stock.push(generateGear(rollRarity(state, rng), state.level, rng, ["accessory"]));
+  } else {
+    for (let i = 0; i < 4; i++) stock.push(generateGear(rollRarity(state, rng), state.level, rng, ["weapon", "armor"]));
+  }
+  return stock;
+}
+
+/** The merchant's shop for today; the stock is rolled anew on the first visit of each in-game day. */
+function shopToday(state: GameState, m: MerchantDef, rng: Rng): ShopState {
+  const cur = state.shops[m.id];
+  if (cur?.day === state.day) return cur;
+  return (state.shops[m.id] = { day: state.day, stock: rollStock(state, m, rng) });
+}
+
+function findMerchant(state: GameState, ref: string) {
+  const list = merchantsFor(state.universe);
+  const q = ref.trim().toLowerCase();
+  if (!q) return list[0];
+  if (/^\d+$/.test(q)) return list[Number(q) - 1];
+  return list.find(m => m.id === q || m.name.toLowerCase().includes(q));
+}
+
+const openMerchant = (state: GameState) => merchantsFor(state.universe).find(m => m.id === state.trade);
+
+export function fmtStock(state: GameState, m: MerchantDef) {
+  const shop = state.shops[m.id];
+  const cur = baseCurrency(state);
+  if (!shop?.stock.length) return "Прилавок пуст.";
+  return shop.stock
+    .map((it, i) => `${i + 1}. ${it.rarity} ${it.name}${it.qty !== undefined ? ` x${it.qty}` : ""}${fmtGear(it) ? ` — ${fmtGear(it)}` : ""} — ${buyPrice(state, m.id, it)} ${cur}`)
+    .join("\n");
+}
+
+function open(state: GameState, ref: string, rng: Rng) {
+  const m = findMerchant(state, ref);
+  if (!m) {
+    addLog(state, "system", `Здесь торгуют: ${merchantsFor(state.universe).map((x, i) => `${i + 1}. ${x.name}`).join(", ")}`);
+    return;
+  }
+  if (factionStanding(state, m.faction) <= SHUNNED) {
+    addLog(state, "system", `🛒 ${m.name} не желает иметь с вами дела. Сначала поправьте репутацию — /репутация`);
+    return;
+  }
+  shopToday(state, m, rng);
+  delete state.talk;
+  state.trade = m.id;
+  const pct = Math.round(tradeDiscount(state, m.id) * 100);
+  addLog(state, "system", `🛒 ${m.name}: ${m.greeting}${pct ? ` (цены ${pct > 0 ? "−" : "+"}${Math.abs(pct)}%)` : ""}\n${fmtStock(state, m)}`);
+}
+
+function buy(state: GameState, m: MerchantDef, ref: string) {
+  const stock = state.shops[m.id].stock;
+  const q = ref.trim().toLowerCase();
+  const idx = /^\d+$/.test(q) ? Number(q) - 1 : stock.findIndex(it => it.name.toLowerCase().includes(q));
+  const it = stock[idx];
+  if (!q || !it) { addLog(state, "system", `Нет товара «${ref}».`); return; }
+
+  const price = buyPrice(state, m.id, it);
+  const cur = baseCurrency(state);
+  if (state.money < price) { addLog(state, "system", `«${it.name}» стоит ${price} ${cur}, а у вас ${state.money}.`); return; }
+  const unit = it.qty !== undefined ? { ...it, qty: 1 } : it;
+  if (!addItem(state, unit, `куплено: ${m.name}`)) return;
+
+  state.money -= price;
+  if (it.qty !== undefined && it.qty > 1) it.qty -= 1;
+  else stock.splice(idx, 1);
+  addLog(state, "system", `🛒 Куплено: ${it.rarity} ${it.name} за ${price} ${cur}. Осталось ${state.money} ${cur}.`);
+}
+
+function sell(state: GameState, m: MerchantDef, ref: string, qty = 1) {
+  const idx = findItem(state, ref);
+  if (idx < 0) { addLog(state, "system", `Нет предмета «${ref}».`); return; }
+  const it = state.backpack[idx];
+  if (it.type === "quest") { addLog(state, "system", `«${it.name}» не продаётся.`); return; }
+
+  const unit = sellPrice(state, m.id, it);
+  const sold = loseItem(state, idx, `продано: ${m.name}`, qty);
+  const n = sold.qty ?? 1;
+  const cur = baseCurrency(state);
+  state.money += unit * n;
+  // sold goods go back on the counter and can be bought back until the restock
+  stack(state.shops[m.id].stock, sold);
+  addLog(state, "system", `💰 Продано: ${sold.rarity} ${sold.name}${n > 1 ? ` x${n}` : ""} за ${unit * n} ${cur}. Теперь ${state.money} ${cur}.`);
+}
+
+function haggle(state: GameState, m: MerchantDef, rng: Rng) {
+  const shop = state.shops[m.id];
+  if (shop.haggle !== undefined) { addLog(state, "system", `С «${m.name}» сегодня уже торговались — приходите завтра.`); return; }
+  const { chance, parts } = haggleChance(state);
+  const roll = chanceCheck(rng);
+  const ok = roll <= chance;
+  shop.haggle = ok ? HAGGLE_WIN : HAGGLE_LOSS;
+  addLog(state, "system", `🤝 Торг с «${m.name}». Шанс ${chance}% (${parts.join(", ")}) | Проверка ${roll}/100 → ${ok ? "✅" : "❌"}\n` +
+    (ok ? `Сегодня цены для вас на ${HAGGLE_WIN}% выгоднее.` : `Торговец обиделся: сегодня цены на ${-HAGGLE_LOSS}% хуже.`));
+}
+
+/**
+ * One trade step. Shops work only at the safe hub and out of combat; every
+ * step except "open" needs a merchant opened first.
+ */
+export function runTradeOp(state: GameState, op: TradeOp, ref: string, rng: Rng, qty?: number) {
+  if (op === "close") {
+    if (state.trade) addLog(state, "system", `🛒 Вы отходите от прилавка «${openMerchant(state)?.name ?? state.trade}».`);
+    delete state.trade;
+    return;
+  }
+  if (!atHub(state)) {
+    addLog(state, "system", `Торговцы — только в безопасной точке (${safeHub(state)}) и вне боя.`);
+    delete state.trade;
+    return;
+  }
+  if (op === "open") { open(state, ref, rng); return; }
+
+  const m = openMerchant(state);
+  if (!m) { addLog(state, "system", "Сначала подойдите к торговцу: /лавка"); return; }
+  // the shop may have been opened yesterday
+  shopToday(state, m, rng);
+  if (op === "buy") buy(state, m, ref);
+  else if (op === "sell") sell(state, m, ref, qty);
+  else haggle(state, m, rng);
+}
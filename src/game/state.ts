@@ -0,0 +1,64 @@
+import { DIFFICULTIES } from "./difficulty";
+import { STATE_VERSION, migrateState } from "./migrations";
+import { randomSeed } from "./rng";
+import type { GameState } from "./types";
+
+export const newRunId = () => `${Date.now().toString(36)}-${randomSeed().toString(36)}`;
+
+export function makeInitialState(seed: number, run = newRunId()): GameState {
+  return {
+    version: STATE_VERSION,
+    run,
+    phase: "SETTINGS",
+    rng: { seed: seed >>> 0, cursor: 0 },
+    wear: "OFF",
+    difficulty: "STANDARD",
+    deathRules: { ...DIFFICULTIES.STANDARD.rules },
+    universe: null,
+    node: "HUB",
+    flags: {},
+    daily: {},
+
+    day: 1,
+    hour: 8,
+    weather: "Ясно",
+    location: "—",
+    path: [],
+    journalPath: "—",
+
+    level: 1,
+    xp: 0,
+    xpToNext: 300,
+    statPoints: 0,
+    abilityPoints: 0,
+    abilities: [],
+
+    hpCur: 30,
+    hpMax: 30,
+    mpCur: 15,
+    mpMax: 15,
+
+    stats: { str: 3, dex: 3, end: 3, int: 3, cha: 3, luck: 3 },
+
+    equipped: { accessories: [] },
+    backpack: [],
+    money: 0,
+
+    effects: [],
+    lootJournal: [],
+    shops: {},
+    quests: [],
+    reputation: {},
+    npcs: {},
+    deaths: 0,
+    log: [{ role: "system", text: "Игра готова. Выберите настройки старта (износ + сложность + вселенная)." }],
+  };
+}
+
+export function serialize(state: GameState) { return JSON.stringify(state); }
+export function deserialize(raw: string): GameState | null {
+  try {
+    const res = migrateState(JSON.parse(raw));
+    return res.ok ? res.state : null;
+  } catch { return null; }
+}
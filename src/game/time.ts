@@ -0,0 +1,62 @@
+import { tickEffects } from "./effects";
+import { effectiveStats } from "./inventory";
+import { healingMultiplier, mpRegenMultiplier } from "./modifiers";
+import type { GameState, Rng } from "./types";
+import { addLog, chanceCheck, clamp } from "./util";
+
+export type TimeOfDay = "morning" | "day" | "evening" | "night";
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = { morning: "утро", day: "день", evening: "вечер", night: "ночь" };
+
+/** Night is 21:00–05:00, the same hours in which encounters get tougher. */
+export function timeOfDay(state: GameState): TimeOfDay {
+  if (state.hour >= 5 && state.hour < 12) return "morning";
+  if (state.hour >= 12 && state.hour < 18) return "day";
+  if (state.hour >= 18 && state.hour < 21) return "evening";
+  return "night";
+}
+
+/** Accuracy and check penalty in the dark. */
+export const NIGHT_PENALTY = 5;
+export const nightPenalty = (state: GameState) => (timeOfDay(state) === "night" ? NIGHT_PENALTY : 0);
+
+/** Natural regeneration per hour out of combat: 🛡️ drives HP, 🧠 drives MP, traits scale both. */
+export function regenPerHour(state: GameState, mult = 1) {
+  const st = effectiveStats(state);
+  return {
+    hp: Math.round((1 + st.end / 4) * healingMultiplier(state) * mult),
+    mp: Math.round((1 + st.int / 4) * mpRegenMultiplier(state) * mult),
+  };
+}
+
+/**
+ * Advances the clock by one hour. Outside combat the hero's effects tick once
+ * and HP/MP regenerate; `regen` scales the regeneration (rest, sleep).
+ */
+export function nextHour(state: GameState, regen = 1) {
+  state.hour += 1;
+  if (state.hour >= 24) { state.hour = 0; state.day += 1; }
+  if (state.enemy) return;
+  if (state.effects.length) {
+    const lines = tickEffects(state, "вы", 1, healingMultiplier(state));
+    if (lines.length) addLog(state, "system", lines.join("\n"));
+  }
+  const r = regenPerHour(state, regen);
+  state.hpCur = clamp(state.hpCur + r.hp, 0, state.hpMax);
+  state.mpCur = clamp(state.mpCur + r.mp, 0, state.mpMax);
+  // the rest of the party recovers alongside
+  for (const m of state.party?.members ?? []) {
+    if (!m.sheet) continue;
+    const mr = regenPerHour({ ...state, ...m.sheet }, regen);
+    m.sheet.hpCur = clamp(m.sheet.hpCur + mr.hp, 0, m.sheet.hpMax);
+    m.sheet.mpCur = clamp(m.sheet.mpCur + mr.mp, 0, m.sheet.mpMax);
+  }
+}
+
+export function maybeWeather(state: GameState, rng: Rng) {
+  const n = chanceCheck(rng);
+  if (n <= 10) state.weather = "Морось";
+  else if (n <= 20) state.weather = "Ветер";
+  else if (n <= 25) state.weather = "Туман";
+  else state.weather = "Ясно";
+}
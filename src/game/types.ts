@@ -0,0 +1,267 @@
+import type { CanonPack } from "./canon/types";
+import type { NarratorResult } from "./narrator/types";
+
+export type WearMode = "ON" | "OFF";
+export type Difficulty = "STORY" | "STANDARD" | "HARDCORE";
+export type Universe = "CLASSIC_FANTASY" | "DARK_FANTASY" | "ANIME_ISEKAI" | "CANON" | "CUSTOM";
+export type CanonMode = "A_STORYLIKE" | "B_WORLDONLY";
+
+export type Rarity = "⚪" | "🟢" | "🔵" | "🟣" | "🟠" | "🔴";
+export type DamageIcon = "🗡️" | "🪓" | "🪛" | "🏹" | "🔫" | "💥" | "🧲" | "🔥" | "❄️" | "⚡" | "🌪️" | "🌍" | "💧" | "☀️" | "🌑" | "🧪";
+export type EffectIcon = "🩸" | "☠️" | "🔥" | "❄️" | "⚡" | "🌪️" | "🧿" | "💚" | "🛡️" | "✨" | "👁️" | "🕳️" | "🧯";
+
+export type ItemType = "weapon" | "armor" | "accessory" | "consumable" | "material" | "quest";
+
+export type Stats = { str: number; dex: number; end: number; int: number; cha: number; luck: number };
+
+export type Item = {
+  id: string;
+  rarity: Rarity;
+  name: string;
+  type: ItemType;
+  weight: number;
+  slots: 1 | 2 | 3;
+  qty?: number;
+  tags?: string[];
+  notes?: string;
+  /** Item level of generated loot; scales its numbers. */
+  level?: number;
+  /** Wear of this very item; absent until it first takes some. */
+  durability?: { cur: number; max: number };
+};
+
+export type Weapon = Item & { dmgMin?: number; dmgMax?: number; dmgIcons?: DamageIcon[]; reqStr?: number; reqDex?: number; bonuses?: Partial<Stats>; penalties?: Partial<Stats> };
+export type Armor = Item & { defense?: number; bonuses?: Partial<Stats>; penalties?: Partial<Stats> };
+export type Accessory = Item & { bonuses?: Partial<Stats>; penalties?: Partial<Stats> };
+
+/** What a consumable does when used. */
+export type ItemUse = { hp?: number; mp?: number; effect?: EffectIcon; cure?: EffectIcon[] };
+
+/** Backpack entry: any item, carrying gear fields when it can be equipped. */
+export type BackpackItem = Weapon & Armor & Accessory & { use?: ItemUse };
+
+export type Equipped = {
+  weapon1?: Weapon;
+  armor?: Armor;
+  accessories: Accessory[];
+};
+
+export type Effect = { icon: EffectIcon; name: string; turnsLeft: number; stacks?: number; power?: number };
+
+export type Enemy = {
+  name: string;
+  hpCur: number;
+  hpMax: number;
+  evasion: number;
+  defense: number;
+  weak?: DamageIcon;
+  resist?: DamageIcon;
+  attackIcons: DamageIcon[];
+  dmgMin: number;
+  dmgMax: number;
+  effects?: Effect[];
+  /** Bestiary template id and scaled level; absent for narrator-made enemies. */
+  id?: string;
+  /** Killing it costs standing with this faction. */
+  faction?: FactionId;
+  level?: number;
+  xp?: number;
+  money?: number;
+  loot?: LootDrop[];
+};
+
+/** Item an enemy may drop, with a percent chance. */
+export type LootDrop = { item: BackpackItem; chance: number };
+
+/** Groups whose standing with the hero is tracked in GameState.reputation. */
+export type FactionId = "town" | "mages" | "cults" | "hunters";
+
+/** Kinds of percent checks that modifiers can target. */
+export type CheckTag = "talk" | "magic" | "stealth" | "ambush" | "tracking" | "mechanism";
+
+/**
+ * Mechanical effect of a race, class or background trait. The text shown to
+ * the player is generated from it (see describeModifier), so both stay in sync.
+ */
+export type Modifier =
+  | { kind: "stat"; stat: keyof Stats; value: number }
+  | { kind: "check"; tag: CheckTag; value: number }
+  | { kind: "dailyCheck"; value: number }
+  | { kind: "damageTaken"; icon: DamageIcon; pct: number }
+  | { kind: "evasion"; value: number }
+  | { kind: "heavyArmor"; value: number }
+  | { kind: "healing"; pct: number }
+  | { kind: "mpRegen"; pct: number }
+  | { kind: "price"; scope: "trade" | "repair"; pct: number }
+  | { kind: "firstFightDefense"; value: number }
+  | { kind: "rareLoot"; value: number }
+  | { kind: "hints" }
+  /** Starting standing with a faction, added on top of what the hero earns. */
+  | { kind: "reputation"; faction: FactionId; value: number };
+
+export type RaceDef = { id: string; name: string; desc: string; bonuses: Partial<Stats>; weakness: Modifier[]; worldImpact: Modifier[] };
+export type ClassDef = RaceDef;
+export type BackgroundDef = { id: string; name: string; desc: string; bonus: Partial<Stats>; perk: Modifier[] };
+
+/** How much magic and technology a custom universe has, from myth to cyberpunk. */
+export type WorldLevel = "MYTHIC" | "FANTASY" | "STEAM" | "CYBER";
+/** Rule toggles of a custom universe (see WORLD_RULES). */
+export type WorldRule = "cityNoMagic" | "nightHunters" | "scarceHealing";
+
+/** A universe built in CustomSetup: its names, who may be played there, its level and rules. */
+export type CustomWorld = { title: string; currency: string; hub: string; races: string[]; classes: string[]; level: WorldLevel; rules: WorldRule[] };
+
+export type QuestStatus = "active" | "done" | "failed";
+
+/** A taken quest: current stage, kill/item progress within it, absolute deadline day. */
+export type QuestState = { id: string; status: QuestStatus; stage: number; progress: number; deadline?: number };
+
+/** A merchant's goods for one in-game day and the haggling result for that day. */
+export type ShopState = { day: number; stock: BackpackItem[]; haggle?: number };
+
+/** What a death costs: percent of the level's XP and of the money, and what happens to the backpack. */
+export type DeathRules = { xpLoss: number; moneyLoss: number; backpack: "keep" | "corpse" | "lose" };
+
+/** The backpack left where the hero fell; it can be picked up there until the end of day `expires`. */
+export type Corpse = { location: string; items: BackpackItem[]; expires: number };
+
+/** How a party settles scene choices: the leader picks, or the members vote. */
+export type PartyMode = "leader" | "vote";
+
+/** One member's pick in a scene vote; a free-text "4" carries its text and, once narrated, the result. */
+export type PartyVote = { member: string; id: ChoiceId; text?: string; result?: NarratorResult };
+
+/**
+ * A party member. The acting member's character sheet lives in the
+ * top-level hero fields of GameState, so every rule works on it unchanged;
+ * the others wait in `sheet` until their turn.
+ */
+export type PartyMember = { id: string; name: string; sheet?: HeroSheet };
+
+/** Several heroes in one scene: shared world, log and enemies; `turn` is whose move it is in a fight. */
+export type Party = { members: PartyMember[]; active: string; leader: string; mode: PartyMode; votes: PartyVote[]; turn?: string };
+
+export type GamePhase =
+  | "SETTINGS"
+  | "CANON_MODE"
+  | "CUSTOM_RULES"
+  | "CHAR_SEX"
+  | "CHAR_NAME"
+  | "CHAR_RACE"
+  | "CHAR_CLASS"
+  | "CHAR_BG"
+  | "PLAY"
+  /** Points from a new level are waiting to be spent. */
+  | "LEVEL_UP"
+  /** Permadeath: the run is over. */
+  | "DEAD";
+
+export type LogEntry = { role: "system" | "player"; text: string };
+
+export type GameState = {
+  version: number;
+  /** Id of this playthrough, shared by all its saves; a hardcore death is recorded against it. */
+  run: string;
+  phase: GamePhase;
+  /**
+   * Dice. On states the server sends to players `seed` is 0 and `sealed`
+   * carries the real seed encrypted, so the rolls cannot be predicted.
+   */
+  rng: { seed: number; cursor: number; sealed?: string };
+  wear: WearMode;
+  difficulty: Difficulty;
+  deathRules: DeathRules;
+  universe: Universe | null;
+  canonTitle?: string;
+  canonMode?: CanonMode;
+  /** The installed canon world picked in CanonSetup; copied whole so the save does not depend on the pack files. */
+  canonPack?: CanonPack;
+  /** Index of the current beat of the canon's story (mode A); past the end once it is told. */
+  storyBeat?: number;
+  /** Free-text rules of a custom universe, for the narrator. */
+  customRules?: string;
+  /** The built custom universe; absent in older saves, which keep the generic one. */
+  customWorld?: CustomWorld;
+
+  day: number;
+  hour: number;
+  weather: string;
+  location: string;
+  /** Places visited, oldest first; `journalPath` is its readable tail. */
+  path: string[];
+  journalPath: string;
+
+  /** Current scene id in the universe's scene graph. */
+  node: string;
+  flags: Record<string, boolean>;
+
+  sex?: string;
+  name?: string;
+  race?: RaceDef;
+  cls?: ClassDef;
+  bg?: BackgroundDef;
+  /** Day on which each once-a-day perk was last used, keyed by perk kind. */
+  daily: Record<string, number>;
+
+  level: number;
+  xp: number;
+  xpToNext: number;
+  statPoints: number;
+  abilityPoints: number;
+  /** Known class abilities (ids from ABILITIES). */
+  abilities: string[];
+
+  hpCur: number;
+  hpMax: number;
+  mpCur: number;
+  mpMax: number;
+
+  stats: Stats;
+  equipped: Equipped;
+  backpack: BackpackItem[];
+  money: number;
+
+  effects: Effect[];
+  lootJournal: string[];
+  log: LogEntry[];
+
+  /** Merchant stock by merchant id; `trade` is the merchant whose shop is open. */
+  shops: Record<string, ShopState>;
+  quests: QuestState[];
+  trade?: string;
+
+  /** Standing earned with each faction; traits add to it (see factionStanding). */
+  reputation: Partial<Record<FactionId, number>>;
+  /** How each NPC's attitude has moved from their default, by NPC id. */
+  npcs: Record<string, number>;
+  /** The conversation in progress: NPC id and dialogue node. */
+  talk?: { npc: string; node: string };
+
+  enemy?: Enemy;
+  /** The rest of the encounter: they attack every round and step up when `enemy` falls. Fallen ones stay until the fight ends. */
+  pack?: Enemy[];
+
+  deaths: number;
+  corpse?: Corpse;
+  /** How and where a hardcore hero fell; set together with the DEAD phase. */
+  fate?: { cause: string; location: string; day: number };
+
+  /** Absent for a solo game. */
+  party?: Party;
+};
+
+/** The fields that belong to one character rather than to the shared world. */
+export type HeroKey =
+  | "sex" | "name" | "race" | "cls" | "bg" | "daily"
+  | "level" | "xp" | "xpToNext" | "statPoints" | "abilityPoints" | "abilities"
+  | "hpCur" | "hpMax" | "mpCur" | "mpMax" | "stats" | "equipped" | "backpack" | "money"
+  | "effects" | "lootJournal" | "deaths" | "corpse";
+export type HeroSheet = Pick<GameState, HeroKey>;
+
+export type ChoiceId = "1" | "2" | "3" | "4";
+export type SceneChoice = { id: ChoiceId; icon: string; label: string };
+export type SceneAbility = { id: string; icon: string; label: string; mp: number; ready: boolean };
+export type Scene = { text: string; choices: SceneChoice[]; abilities?: SceneAbility[] };
+
+/** Uniform random source in [0, 1), same contract as Math.random. */
+export type Rng = () => number;
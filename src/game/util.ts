@@ -0,0 +1,60 @@
+import type { GameState, Item, Rng, Stats } from "./types";
+
+export const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
+export const chanceCheck = (rng: Rng) => Math.floor(rng() * 100) + 1;
+export const rollRange = (rng: Rng, min: number, max: number) => min + Math.floor(rng() * (max - min + 1));
+export const fmtMod = (label: string, n: number) => `${label}${n >= 0 ? "+" : ""}${n}`;
+export const fmtClock = (state: GameState) => `День ${state.day}, ${String(state.hour).padStart(2, "0")}:00`;
+
+export function sumWeight(items: Item[]) { return items.reduce((acc, it) => acc + it.weight * (it.qty ?? 1), 0); }
+
+export function computeXpToNext(level: number) {
+  if (level <= 1) return 300;
+  let t = 300;
+  for (let lv = 1; lv < level; lv++) t = t * 1.2;
+  return Math.round(t / 10) * 10;
+}
+
+export function applyBonuses(stats: Stats, bonuses?: Partial<Stats>, penalties?: Partial<Stats>): Stats {
+  const s = { ...stats };
+  for (const [k,v] of Object.entries(bonuses ?? {})) (s as any)[k] += v as number;
+  for (const [k,v] of Object.entries(penalties ?? {})) (s as any)[k] -= v as number;
+  return {
+    str: Math.max(1, s.str),
+    dex: Math.max(1, s.dex),
+    end: Math.max(1, s.end),
+    int: Math.max(1, s.int),
+    cha: Math.max(1, s.cha),
+    luck: Math.max(1, s.luck),
+  };
+}
+
+export function fmtBonus(b: Partial<Stats>) {
+  const parts: string[] = [];
+  if (b.str) parts.push(`💪+${b.str}`);
+  if (b.dex) parts.push(`🎯+${b.dex}`);
+  if (b.end) parts.push(`🛡️+${b.end}`);
+  if (b.int) parts.push(`🧠+${b.int}`);
+  if (b.cha) parts.push(`🗣️+${b.cha}`);
+  if (b.luck) parts.push(`🍀+${b.luck}`);
+  return parts.length ? parts.join(" ") : "—";
+}
+
+/** How many places `path` keeps and how many of them the breadcrumb shows. */
+const PATH_KEEP = 20;
+const PATH_SHOWN = 6;
+
+/** Moves the hero to `place` and extends the breadcrumb in `journalPath`. */
+export function visitPlace(state: GameState, place: string) {
+  state.location = place;
+  state.path = [...state.path, place].slice(-PATH_KEEP);
+  const shown = state.path.slice(-PATH_SHOWN);
+  state.journalPath = `${state.path.length > shown.length ? "… → " : "Старт → "}${shown.join(" → ")}`;
+}
+
+/** How many log entries a state keeps; older ones scroll away so a long game does not grow without end. */
+const LOG_KEEP = 300;
+
+export function addLog(state: GameState, role: "system" | "player", text: string) {
+  state.log = [...state.log, { role, text }].slice(-LOG_KEEP);
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { STARTER_DAGGER } from "./items";
+import { makeInitialState } from "./state";
+import type { GameState } from "./types";
+import { durabilityOf, wearDown } from "./wear";
+
+const armed = (): GameState => ({ ...makeInitialState(1), wear: "ON", equipped: { weapon1: { ...STARTER_DAGGER }, accessories: [] }, backpack: [{ ...STARTER_DAGGER }] });
+
+describe("durability", () => {
+  it("wears down the equipped copy of an item and not the one in the backpack", () => {
+    const s = armed();
+    wearDown(s, "weapon1");
+    expect(durabilityOf(s, s.equipped.weapon1!).cur).toBe(durabilityOf(s, s.backpack[0]).cur - 1);
+  });
+
+  it("stays with the item when it is put away", () => {
+    const s = armed();
+    wearDown(s, "weapon1");
+    const worn = s.equipped.weapon1!;
+    s.equipped.weapon1 = s.backpack[0];
+    s.backpack = [worn];
+    expect(durabilityOf(s, s.backpack[0]).cur).toBe(durabilityOf(s, s.equipped.weapon1).cur - 1);
+  });
+});
@@ -0,0 +1,80 @@
+import { baseCurrency, safeHub } from "./data";
+import { priceDiscount } from "./modifiers";
+import type { GameState, Item, Rarity } from "./types";
+import { addLog } from "./util";
+
+const MAX_BY_RARITY: Record<Rarity, number> = { "⚪": 30, "🟢": 40, "🔵": 50, "🟣": 60, "🟠": 80, "🔴": 100 };
+const PRICE_BY_RARITY: Record<Rarity, number> = { "⚪": 1, "🟢": 2, "🔵": 3, "🟣": 5, "🟠": 8, "🔴": 12 };
+
+/** Below this share of max durability gear works at WORN_FACTOR. */
+const WORN_SHARE = 0.25;
+const WORN_FACTOR = 0.7;
+
+export type RepairTarget = "weapon" | "armor" | "all";
+
+/** Read-only view; items that never took wear are at full durability. */
+export function durabilityOf(state: GameState, item: Item) {
+  return item.durability ?? { cur: MAX_BY_RARITY[item.rarity], max: MAX_BY_RARITY[item.rarity] };
+}
+
+// durability is kept on the item itself, so it survives unequipping and two copies of one item wear apart
+function trackDurability(state: GameState, item: Item) {
+  return (item.durability ??= { ...durabilityOf(state, item) });
+}
+
+/** Multiplier for damage/defense: 1 when fine or wear is OFF, WORN_FACTOR when worn, 0 when broken. */
+export function wearFactor(state: GameState, item: Item | undefined) {
+  if (!item || state.wear !== "ON") return 1;
+  const d = durabilityOf(state, item);
+  if (d.cur <= 0) return 0;
+  return d.cur < d.max * WORN_SHARE ? WORN_FACTOR : 1;
+}
+
+export function fmtDurability(state: GameState, item: Item | undefined) {
+  if (!item || state.wear !== "ON") return "";
+  const d = durabilityOf(state, item);
+  return d.cur <= 0 ? ` 💔 0/${d.max}` : ` 🔧 ${d.cur}/${d.max}`;
+}
+
+/** Takes one point off the equipped weapon or armor; logs when it wears out or breaks. */
+export function wearDown(state: GameState, slot: "weapon1" | "armor") {
+  const item = state.equipped[slot];
+  if (!item || state.wear !== "ON") return;
+  const d = trackDurability(state, item);
+  if (d.cur <= 0) return;
+  d.cur -= 1;
+  if (d.cur === 0) addLog(state, "system", `💔 ${item.name} ломается! ${slot === "weapon1" ? "Придётся драться голыми руками." : "Броня больше не защищает."} Ремонт — ${safeHub(state)}.`);
+  else if (d.cur === Math.floor(d.max * WORN_SHARE) - 1) addLog(state, "system", `🔧 ${item.name} изношено: эффективность ×${WORN_FACTOR}.`);
+}
+
+export const repairDiscount = (state: GameState) => Math.round(priceDiscount(state, "repair") * 100);
+
+function targets(state: GameState, target: RepairTarget): Item[] {
+  const list: Array<Item | undefined> = target === "weapon" ? [state.equipped.weapon1] : target === "armor" ? [state.equipped.armor] : [state.equipped.weapon1, state.equipped.armor];
+  return list.filter((it): it is Item => !!it);
+}
+
+export function repairCost(state: GameState, target: RepairTarget = "all") {
+  const raw = targets(state, target).reduce((acc, it) => {
+    const d = durabilityOf(state, it);
+    return acc + (d.max - d.cur) * PRICE_BY_RARITY[it.rarity];
+  }, 0);
+  return Math.ceil(raw * (100 - repairDiscount(state)) / 100);
+}
+
+export function repair(state: GameState, target: RepairTarget = "all") {
+  if (state.wear !== "ON") { addLog(state, "system", "Износ выключен — ремонт не нужен."); return; }
+  if (state.enemy || state.location !== safeHub(state)) { addLog(state, "system", `Ремонт — только в безопасной точке (${safeHub(state)}) и вне боя.`); return; }
+
+  const cost = repairCost(state, target);
+  if (!cost) { addLog(state, "system", "🔧 Чинить нечего — всё в порядке."); return; }
+  if (state.money < cost) { addLog(state, "system", `🔧 Ремонт стоит ${cost}, а у вас ${state.money}.`); return; }
+
+  state.money -= cost;
+  for (const it of targets(state, target)) {
+    const d = trackDurability(state, it);
+    d.cur = d.max;
+  }
+  const discount = repairDiscount(state);
+  addLog(state, "system", `🔧 Ремонт: −${cost} ${baseCurrency(state)}${discount ? ` (скидка ${discount}%)` : ""}. Снаряжение как новое.`);
+}
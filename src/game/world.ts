@@ -0,0 +1,210 @@
+import { isNight } from "./bestiary";
+import { openBeat } from "./canon/story";
+import { startCombat } from "./combat";
+import { nightHunters, safeHub, type WorldRef } from "./data";
+import { recoverCorpse } from "./difficulty";
+import { addItem } from "./inventory";
+import { rollLoot } from "./loot";
+import { maybeWeather, nextHour } from "./time";
+import type { GameState, Rng, Universe } from "./types";
+import { addLog, chanceCheck, clamp, rollRange, visitPlace } from "./util";
+
+/**
+ * A place on the world map. `x`/`y` are percentages for the map panel,
+ * `danger` is the chance (%) per travel hour of an ambush on the way in,
+ * `node` is the scene entered on arrival (the generic FIELD by default).
+ */
+export type LocationDef = { name: string; desc: string; x: number; y: number; danger: number; node?: string };
+export type Route = { from: string; to: string; hours: number };
+export type WorldMap = { locations: LocationDef[]; routes: Route[] };
+
+/** Travel slowdown and ambush multiplier by weather. */
+const WEATHER_TRAVEL: Record<string, { speed: number; danger: number; note?: string }> = {
+  Ясно: { speed: 1, danger: 1 },
+  Ветер: { speed: 1.25, danger: 1, note: "встречный ветер" },
+  Морось: { speed: 1.25, danger: 0.8, note: "раскисшая дорога" },
+  Туман: { speed: 1.5, danger: 1.5, note: "туман сбивает с пути" },
+};
+const NIGHT_DANGER = 1.5;
+const MAX_AMBUSH = 90;
+
+/** Chance (%) of a road event on any trip. */
+const ROAD_EVENT_CHANCE = 30;
+
+type RoadEvent = { text: string; money?: [number, number]; hp?: number; loot?: boolean };
+
+const ROAD_EVENTS: RoadEvent[] = [
+  { text: "У обочины — брошенная сумка. Кто-то очень спешил.", loot: true },
+  { text: "Возница со сломанным колесом благодарит за помощь звонкой монетой.", money: [3, 10] },
+  { text: "Камни под ногами осыпаются — вы подворачиваете ногу.", hp: -3 },
+  { text: "Старый придорожный алтарь. Короткая передышка придаёт сил.", hp: 5 },
+  { text: "На обочине следы недавней стычки: сломанная стрела, пятна на траве. Кто-то прошёл здесь до вас." },
+  { text: "В пыли блестит пара потерянных монет.", money: [1, 4] },
+];
+
+/** Stands for the universe's safe hub in the map tables below. */
+const HUB = "@hub";
+
+const MAPS: Record<Universe | "DEFAULT", WorldMap> = {
+  DEFAULT: {
+    locations: [
+      { name: HUB, desc: "Тёплый зал, доска объявлений и торговцы у стойки.", x: 15, y: 50, danger: 0, node: "HUB" },
+      { name: "Перекрёсток у мельницы", desc: "Скрипучее колесо мельницы и три дороги, ни одна из которых не кажется короткой.", x: 42, y: 28, danger: 8 },
+      { name: "Торговый тракт", desc: "Широкая наезженная дорога; обозы ходят здесь чаще, чем разбойники — но не намного.", x: 42, y: 74, danger: 6 },
+      { name: "Руины сторожевой башни", desc: "Обломки стен, заросшие плющом. Говорят, по ночам в проломах горит свет.", x: 78, y: 18, danger: 18 },
+      { name: "Город Эльден", desc: "Стены, рынок и стража — почти безопасно, если не лезть в переулки.", x: 82, y: 70, danger: 2 },
+    ],
+    routes: [
+      { from: HUB, to: "Перекрёсток у мельницы", hours: 2 },
+      { from: HUB, to: "Торговый тракт", hours: 3 },
+      { from: "Перекрёсток у мельницы", to: "Торговый тракт", hours: 2 },
+      { from: "Перекрёсток у мельницы", to: "Руины сторожевой башни", hours: 3 },
+      { from: "Торговый тракт", to: "Город Эльден", hours: 4 },
+    ],
+  },
+  CLASSIC_FANTASY: { locations: [], routes: [] },
+  CANON: { locations: [], routes: [] },
+  CUSTOM: { locations: [], routes: [] },
+  DARK_FANTASY: {
+    locations: [
+      { name: HUB, desc: "Единственное место, где запирают двери изнутри, а не снаружи.", x: 15, y: 50, danger: 0, node: "HUB" },
+      { name: "Висельный перекрёсток", desc: "Пустая виселица скрипит на ветру. Вороны ждут терпеливо.", x: 40, y: 30, danger: 12 },
+      { name: "Чумная деревня", desc: "Заколоченные окна, кресты на дверях и ни одного дыма из труб.", x: 45, y: 75, danger: 15 },
+      { name: "Курган", desc: "Древний холм, под которым спят те, кого лучше не будить.", x: 75, y: 20, danger: 22 },
+      { name: "Монастырь Пепла", desc: "Молчаливые братья дают приют, не спрашивая имени.", x: 82, y: 68, danger: 4 },
+    ],
+    routes: [
+      { from: HUB, to: "Висельный перекрёсток", hours: 2 },
+      { from: HUB, to: "Чумная деревня", hours: 3 },
+      { from: "Висельный перекрёсток", to: "Курган", hours: 3 },
+      { from: "Висельный перекрёсток", to: "Чумная деревня", hours: 2 },
+      { from: "Чумная деревня", to: "Монастырь Пепла", hours: 4 },
+    ],
+  },
+  ANIME_ISEKAI: {
+    locations: [
+      { name: HUB, desc: "Стойка регистрации, доска заданий и гул авантюристов.", x: 15, y: 50, danger: 0, node: "HUB" },
+      { name: "Луг слизней", desc: "Зелёные холмы, где новички получают свой первый опыт. И первые синяки.", x: 38, y: 30, danger: 10 },
+      { name: "Лес Начала", desc: "Светлый лес с табличками «Осторожно: монстры». Таблички погрызены.", x: 45, y: 72, danger: 14 },
+      { name: "Подземелье F-ранга", desc: "Вход в данж мерцает синим. Над ним табло: «Рекомендуемый уровень: 3».", x: 75, y: 22, danger: 25 },
+      { name: "Торговый город Аркадия", desc: "Шумный рынок, порталы и лавки со скидками для авантюристов.", x: 82, y: 70, danger: 2 },
+    ],
+    routes: [
+      { from: HUB, to: "Луг слизней", hours: 1 },
+      { from: HUB, to: "Лес Начала", hours: 2 },
+      { from: "Луг слизней", to: "Подземелье F-ранга", hours: 3 },
+      { from: "Луг слизней", to: "Лес Начала", hours: 2 },
+      { from: "Лес Начала", to: "Торговый город Аркадия", hours: 4 },
+    ],
+  },
+};
+
+/** The universe's map (or the canon's own) with the hub placeholder replaced by its real name. */
+export function worldMapFor(w: WorldRef): WorldMap {
+  if (w.canonPack) return w.canonPack.map;
+  const own = MAPS[w.universe ?? "DEFAULT"];
+  const map = own.locations.length ? own : MAPS.DEFAULT;
+  const name = (n: string) => (n === HUB ? safeHub(w) : n);
+  return {
+    locations: map.locations.map(l => ({ ...l, name: name(l.name) })),
+    routes: map.routes.map(r => ({ ...r, from: name(r.from), to: name(r.to) })),
+  };
+}
+
+export const locationDef = (state: GameState, name = state.location) => worldMapFor(state).locations.find(l => l.name === name);
+
+/** Routes from the current location, with the other end first. */
+export function routesFrom(state: GameState) {
+  return worldMapFor(state).routes
+    .filter(r => r.from === state.location || r.to === state.location)
+    .map(r => ({ to: r.from === state.location ? r.to : r.from, hours: r.hours }));
+}
+
+/** Travel time in the current weather, never less than the route's own. */
+export const travelHours = (state: GameState, hours: number) => Math.ceil(hours * (WEATHER_TRAVEL[state.weather]?.speed ?? 1));
+
+/** Ambush chance for the whole trip: `danger` per hour, scaled by weather and night. */
+export function ambushChance(state: GameState, to: LocationDef, hours: number) {
+  const mult = (WEATHER_TRAVEL[state.weather]?.danger ?? 1) * (isNight(state) ? NIGHT_DANGER * nightHunters(state) : 1);
+  const perHour = clamp(to.danger * mult, 0, 100) / 100;
+  return Math.min(MAX_AMBUSH, Math.round((1 - Math.pow(1 - perHour, hours)) * 100));
+}
+
+/** "2" (position in /карта) or a (partial) place name among the neighbouring places. */
+export function findRoute(state: GameState, ref: string) {
+  const routes = routesFrom(state);
+  const q = ref.trim().toLowerCase();
+  if (/^\d+$/.test(q)) return routes[Number(q) - 1];
+  return routes.find(r => r.to.toLowerCase() === q) ?? routes.find(r => r.to.toLowerCase().includes(q));
+}
+
+export function fmtMap(state: GameState) {
+  const here = locationDef(state);
+  const routes = routesFrom(state);
+  const lines = [`🗺️ Вы здесь: ${state.location}${here ? ` — ${here.desc}` : ""}`];
+  if (!routes.length) lines.push("Дорог отсюда нет.");
+  routes.forEach((r, i) => {
+    const hours = travelHours(state, r.hours);
+    const to = locationDef(state, r.to);
+    lines.push(`${i + 1}. ${r.to} — ${hours} ч${hours > r.hours ? ` (${WEATHER_TRAVEL[state.weather]?.note})` : ""}${to ? ` | засада ~${ambushChance(state, to, hours)}%` : ""}`);
+  });
+  lines.push("В путь: /идти <номер или название>");
+  return lines.join("\n");
+}
+
+function roadEvent(s: GameState, rng: Rng) {
+  const ev = ROAD_EVENTS[Math.floor(rng() * ROAD_EVENTS.length)];
+  const parts: string[] = [];
+  if (ev.money) {
+    const m = rollRange(rng, ev.money[0], ev.money[1]);
+    s.money += m;
+    parts.push(`💰 +${m}`);
+  }
+  if (ev.hp) {
+    s.hpCur = clamp(s.hpCur + ev.hp, 1, s.hpMax);
+    parts.push(`❤️ ${ev.hp > 0 ? "+" : ""}${ev.hp} → ${s.hpCur}/${s.hpMax}`);
+  }
+  addLog(s, "system", `🛤️ ${ev.text}${parts.length ? ` (${parts.join(", ")})` : ""}`);
+  if (ev.loot) {
+    const it = rollLoot(s, s.level, rng);
+    if (addItem(s, it, "находка в пути")) addLog(s, "system", `🎁 Находка: ${it.rarity} ${it.name}`);
+  }
+}
+
+/**
+ * Walks to a neighbouring place: the clock runs hour by hour (effects tick,
+ * weather may turn), a road event may happen on the way, and the trip may
+ * end in an ambush rolled on the destination's encounter table.
+ */
+export function travel(s: GameState, ref: string, rng: Rng) {
+  if (s.enemy) { addLog(s, "system", "В бою не до дороги."); return; }
+  const route = findRoute(s, ref);
+  if (!route) { addLog(s, "system", `Отсюда не попасть в «${ref}». Дороги — /карта`); return; }
+  const to = locationDef(s, route.to)!;
+
+  delete s.trade;
+  delete s.talk;
+  const hours = travelHours(s, route.hours);
+  const ambush = ambushChance(s, to, hours);
+  addLog(s, "system", `🧭 В путь: ${s.location} → ${to.name}`);
+  addLog(s, "system", `Дорога займёт ${hours} ч${hours > route.hours ? ` — ${WEATHER_TRAVEL[s.weather]?.note}` : ""}.`);
+
+  const eventAt = chanceCheck(rng) <= ROAD_EVENT_CHANCE ? rollRange(rng, 1, hours) : 0;
+  for (let h = 1; h <= hours; h++) {
+    nextHour(s);
+    maybeWeather(s, rng);
+    if (h === eventAt) roadEvent(s, rng);
+  }
+
+  visitPlace(s, to.name);
+  s.node = to.node ?? "FIELD";
+  addLog(s, "system", `📍 ${to.name}. ${to.desc}`);
+  recoverCorpse(s);
+  openBeat(s);
+
+  const roll = chanceCheck(rng);
+  if (roll <= ambush) {
+    addLog(s, "system", `⚠️ Засада у самой цели! (шанс ${ambush}%, бросок ${roll})`);
+    startCombat(s, rng);
+  }
+}
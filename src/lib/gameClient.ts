@@ -0,0 +1,44 @@
+import type { GameAction, GameState, Session } from "@/game";
+
+/** The server's copy of a game; `rev` goes with the next action. */
+export type RemoteGame = { id: string; rev: number; state: GameState; session: Session };
+/** A player's place in a game: `seat` is the secret that goes with every action, `member` the hero it plays. */
+export type Seat = { seat: string; member: string };
+/** The hero a new party member brings: ids from RACES, CLASSES and BACKGROUNDS. */
+export type JoinHero = { sex: string; name: string; race: string; cls: string; bg: string };
+/** One step of a game as pushed by the server. */
+export type GameEvent = { id: string; rev: number; state: GameState; action?: GameAction };
+
+/** `status` 0 means the server could not be reached at all. */
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; status: number; errors: string[]; game?: { id: string; rev: number; state: GameState } };
+
+async function call<T>(url: string, init?: RequestInit): Promise<ApiResult<T>> {
+  try {
+    const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+    const body = await res.json().catch(() => null);
+    if (res.ok && body) return { ok: true, value: body as T };
+    return { ok: false, status: res.status, errors: Array.isArray(body?.errors) ? body.errors : [`HTTP ${res.status}`], game: body?.game };
+  } catch {
+    return { ok: false, status: 0, errors: ["сервер недоступен"] };
+  }
+}
+
+/** A new game on the server, or a locally played one handed over with its session. */
+export const createRemoteGame = (session?: Session) => call<RemoteGame & Seat>("/api/game", { method: "POST", body: JSON.stringify(session ? { session } : {}) });
+
+export const fetchRemoteGame = (id: string) => call<RemoteGame>(`/api/game/${encodeURIComponent(id)}`);
+
+export const joinRemoteGame = (id: string, hero: JoinHero) => call<RemoteGame & Seat>(`/api/game/${encodeURIComponent(id)}/join`, { method: "POST", body: JSON.stringify(hero) });
+
+/** The answer carries the action the server actually recorded (a free-text choice comes back narrated). */
+export const sendAction = (id: string, rev: number, action: GameAction, seat?: string) =>
+  call<{ id: string; rev: number; state: GameState; action: GameAction }>(`/api/game/${encodeURIComponent(id)}/action`, { method: "POST", body: JSON.stringify({ action, rev, seat }) });
+
+/** Follows a game live; returns the function that stops listening. */
+export function watchRemoteGame(id: string, onEvent: (e: GameEvent) => void) {
+  const source = new EventSource(`/api/game/${encodeURIComponent(id)}/events`);
+  source.onmessage = msg => {
+    try { onEvent(JSON.parse(msg.data) as GameEvent); } catch { /* a broken event is skipped; the next one resyncs */ }
+  };
+  return () => source.close();
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { STATE_VERSION, asMember, deserialize, makeInitialState, randomSeed, record, serialize, startRecording, type GameAction, type GameState, type Recording, type Session } from "@/game";
+
+import { createRemoteGame, fetchRemoteGame, joinRemoteGame, sendAction, watchRemoteGame, type JoinHero, type RemoteGame, type Seat } from "./gameClient";
+
+const LS_KEY = "rpg_chat_mvp_v1";
+const LS_SESSION_KEY = "rpg_chat_mvp_v1_session";
+const LS_GAME_ID_KEY = "rpg_chat_game_id";
+const LS_SEAT_KEY = "rpg_chat_game_seat";
+
+function loadSession(raw: string | null): Session | null {
+  if (!raw) return null;
+  try {
+    const obj = JSON.parse(raw) as Session;
+    if (obj?.initial?.version !== STATE_VERSION) return null;
+    const initial = deserialize(JSON.stringify(obj?.initial));
+    return initial && Array.isArray(obj.actions) ? { initial, actions: obj.actions } : null;
+  } catch { return null; }
+}
+
+function loadLocal(store: Storage): Recording | null {
+  const loaded = deserialize(store.getItem(LS_KEY) ?? "");
+  if (!loaded) return null;
+  const session = loadSession(store.getItem(LS_SESSION_KEY));
+  return session ? { session, state: loaded } : startRecording(loaded);
+}
+
+function loadSeat(store: Storage, id: string): Seat | undefined {
+  try {
+    const obj = JSON.parse(store.getItem(LS_SEAT_KEY) ?? "null") as (Seat & { game: string }) | null;
+    return obj?.game === id && typeof obj.seat === "string" && typeof obj.member === "string" ? { seat: obj.seat, member: obj.member } : undefined;
+  } catch { return undefined; }
+}
+
+/**
+ * The current game, kept on the server when it is reachable. Actions apply
+ * locally at once and are sent in order; the server's answer replaces the
+ * optimistic state (the server does not share the seed, so only it knows the
+ * real rolls), and a rejected action rolls the game back to the server's
+ * copy. A game the server has taken over waits while it cannot be reached,
+ * since only the server can roll for it; one it never had stays in the
+ * browser as before.
+ *
+ * Other players' moves arrive as server-sent events. A tab opened from an
+ * invite link (`?game=<id>`) keeps its game and seat in sessionStorage, so
+ * several players can share one browser.
+ */
+export function useServerGame() {
+  const [game, setGame] = useState<Recording>(() => startRecording(makeInitialState(randomSeed())));
+  const [online, setOnline] = useState(false);
+  const [syncError, setSyncError] = useState("");
+  const [gameId, setGameId] = useState("");
+  const [member, setMember] = useState("");
+  const [invited, setInvited] = useState(false);
+  const remote = useRef<{ id: string; rev: number; seat?: string; member?: string } | null>(null);
+  const store = useRef<Storage | null>(null);
+  const unwatch = useRef<(() => void) | null>(null);
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  const pending = useRef(0);
+  // the server recorded something other than what was sent; refetch once the queue is empty
+  const stale = useRef(false);
+  // bumped on every rollback or new game; queued actions of an older epoch are dropped
+  const epoch = useRef(0);
+  // the game as the server last confirmed it, to fall back to when it cannot be reached
+  const confirmed = useRef<Recording | null>(null);
+
+  const storage = () => (store.current ??= localStorage);
+
+  /** Takes the server's copy; without a new seat the old one is kept while it is the same game. */
+  function adopt(g: RemoteGame & Partial<Seat>) {
+    epoch.current += 1;
+    const prev = remote.current?.id === g.id ? remote.current : null;
+    const seat = g.seat && g.member ? g : prev;
+    const own = seat?.seat && seat.member ? { seat: seat.seat, member: seat.member } : undefined;
+    remote.current = { id: g.id, rev: g.rev, ...own };
+    storage().setItem(LS_GAME_ID_KEY, g.id);
+    if (own) storage().setItem(LS_SEAT_KEY, JSON.stringify({ game: g.id, ...own }));
+    if (!prev) watch(g.id);
+    confirmed.current = { session: g.session, state: g.state };
+    setGame(confirmed.current);
+    setGameId(g.id);
+    setMember(own?.member ?? "");
+    setOnline(true);
+  }
+
+  /**
+   * Keeps the game's id: a game the server took over has a sealed seed, and
+   * the browser would roll every die on seed 0, so its moves wait for the
+   * server to come back instead of going on here.
+   */
+  function goOffline(why: string) {
+    remote.current = null;
+    unwatch.current?.();
+    unwatch.current = null;
+    setOnline(false);
+    setSyncError(why);
+  }
+
+  /** Moves sent but not confirmed were rolled on the sealed seed's stand-in, so they are taken back. */
+  function lostServer() {
+    epoch.current += 1;
+    if (confirmed.current) setGame(confirmed.current);
+    goOffline("связь с сервером потеряна — ход не принят, повторите его, когда она вернётся");
+  }
+
+  /** Finds the game this browser last played on the server again, with the seat it had. */
+  async function reconnect() {
+    const id = storage().getItem(LS_GAME_ID_KEY);
+    const found = id ? await fetchRemoteGame(id) : null;
+    if (found?.ok) adopt({ ...found.value, ...loadSeat(storage(), found.value.id) });
+    return found;
+  }
+
+  /** The confirmed game with one more move the server recorded. */
+  function confirmedAfter(action: GameAction, state: GameState): Recording | null {
+    const c = confirmed.current;
+    return c && { session: { ...c.session, actions: [...c.session.actions, action] }, state };
+  }
+
+  /** Follows the moves of everybody else; ours come back in the action responses. */
+  function watch(id: string) {
+    unwatch.current?.();
+    unwatch.current = watchRemoteGame(id, e => {
+      const r = remote.current;
+      if (!r || r.id !== e.id || pending.current || e.rev <= r.rev) return;
+      if (!e.action || e.rev !== r.rev + 1) { void resync(""); return; }
+      const action = e.action;
+      r.rev = e.rev;
+      confirmed.current = confirmedAfter(action, e.state);
+      setGame(prev => ({ session: { ...prev.session, actions: [...prev.session.actions, action] }, state: e.state }));
+    });
+  }
+
+  async function resync(why: string) {
+    const id = remote.current?.id;
+    const res = id ? await fetchRemoteGame(id) : null;
+    if (res?.ok) { adopt(res.value); setSyncError(why); }
+    else goOffline(`${why}; связи с сервером нет, ходы подождут её`);
+  }
+
+  /** Picks the storage, shows the local copy and finds the game on the server; returns the cleanup. */
+  function connect() {
+    const invite = new URLSearchParams(window.location.search).get("game");
+    store.current = invite ? sessionStorage : localStorage;
+    setInvited(!!invite);
+
+    // the local copy first, so the page is playable before (or without) the server
+    const local = loadLocal(storage());
+    if (local) setGame(local);
+
+    void (async () => {
+      if (invite) storage().setItem(LS_GAME_ID_KEY, invite);
+      const found = await reconnect();
+      if (found?.ok) return;
+      if (invite) { setSyncError(found?.status === 0 ? "сервер недоступен" : "игра по приглашению не найдена"); return; }
+      if (found && found.status === 0) { setSyncError("сервер недоступен, игра идёт в браузере"); return; }
+      const created = await createRemoteGame(local?.session.actions.length ? local.session : undefined);
+      if (created.ok) adopt(created.value);
+      else setSyncError(created.status ? `игру не удалось перенести на сервер: ${created.errors.join("; ")}` : "сервер недоступен, игра идёт в браузере");
+    })();
+    return () => unwatch.current?.();
+  }
+
+  // the effect runs once, on mount, but calls connect of the latest render through the ref
+  const mount = useRef(connect);
+  mount.current = connect;
+  useEffect(() => mount.current(), []);
+
+  useEffect(() => {
+    storage().setItem(LS_KEY, serialize(game.state));
+    storage().setItem(LS_SESSION_KEY, JSON.stringify(game.session));
+  }, [game]);
+
+  function apply(raw: GameAction) {
+    if (!remote.current && game.state.rng.sealed) {
+      setSyncError("связи с сервером нет, а эта игра идёт на сервере — ход не сделан, переподключаемся…");
+      void reconnect().then(found => { if (found?.ok) setSyncError(""); });
+      return;
+    }
+    // in a party every move is recorded as the member's own turn
+    const action = asMember(game.state, remote.current?.member, raw);
+    setGame(prev => record(prev, action));
+    if (!remote.current) return;
+
+    const mine = epoch.current;
+    pending.current += 1;
+    queue.current = queue.current.then(async () => {
+      const r = remote.current;
+      if (!r || mine !== epoch.current) { pending.current -= 1; return; }
+      const res = await sendAction(r.id, r.rev, action, r.seat);
+      pending.current -= 1;
+      if (!res.ok) {
+        if (res.status === 0) lostServer();
+        // someone else moved first: the scene may be different now, so the move is not resent
+        else if (res.status === 409) await resync("пока вы решали, отряд сделал ход — посмотрите на сцену ещё раз");
+        else await resync(`сервер отклонил ход: ${res.errors.join("; ")}`);
+        return;
+      }
+      r.rev = res.value.rev;
+      confirmed.current = confirmedAfter(res.value.action, res.value.state);
+      // a narrated free-text choice is recorded differently than sent: take the server's session
+      if (JSON.stringify(res.value.action) !== JSON.stringify(action)) stale.current = true;
+      if (pending.current) return;
+      if (stale.current) { stale.current = false; await resync(""); }
+      else setGame(prev => ({ ...prev, state: res.value.state }));
+    });
+  }
+
+  async function reset() {
+    storage().removeItem(LS_KEY);
+    storage().removeItem(LS_SESSION_KEY);
+    setSyncError("");
+    if (remote.current) {
+      const created = await createRemoteGame();
+      if (created.ok) { adopt(created.value); return; }
+      // the new game is the browser's own, so it is not looked for on the server next time
+      storage().removeItem(LS_GAME_ID_KEY);
+      goOffline("новую игру не удалось создать на сервере, она идёт в браузере");
+    }
+    setGame(startRecording(makeInitialState(randomSeed())));
+  }
+
+  /** Loading a save hands it to the server, which replays and checks it first. */
+  async function load(rec: Recording) {
+    if (!remote.current && rec.state.rng.sealed) { setSyncError("это сохранение игры на сервере, а связи с ним нет"); return; }
+    if (!remote.current) { setGame(rec); return; }
+    const created = await createRemoteGame(rec.session);
+    if (created.ok) { adopt(created.value); setSyncError(""); }
+    else setSyncError(`сохранение не принято сервером: ${created.errors.join("; ")}`);
+  }
+
+  /** Brings a new hero into the game this tab is watching and takes the seat the server hands out. */
+  async function join(hero: JoinHero) {
+    const id = remote.current?.id;
+    if (!id) return;
+    const res = await joinRemoteGame(id, hero);
+    if (res.ok) { adopt(res.value); setSyncError(""); }
+    else setSyncError(`не удалось присоединиться: ${res.errors.join("; ")}`);
+  }
+
+  return { game, online, syncError, apply, reset, load, gameId, member, invited, join };
+}
@@ -0,0 +1,80 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { Recording } from "@/game";
+
+/**
+ * A game as the server keeps it; `rev` grows with every applied action.
+ * `seats` maps the secret token each player got to their party member id.
+ */
+export type StoredGame = { id: string; rev: number; recording: Recording; updatedAt: number; seats?: Record<string, string> };
+
+/**
+ * A run as the server knows it: the seed it was dealt, the one game that
+ * plays it now, and whether its hero died for good.
+ */
+export type StoredRun = { run: string; seed: number; game: string; fallen: boolean };
+
+/** Where games live. Swap the file store for a database by implementing this. */
+export interface GameStore {
+  load(id: string): Promise<StoredGame | null>;
+  save(game: StoredGame): Promise<void>;
+  loadRun(run: string): Promise<StoredRun | null>;
+  /** The run dealt this seed; the server never gives one seed to two runs. */
+  runOfSeed(seed: number): Promise<StoredRun | null>;
+  saveRun(run: StoredRun): Promise<void>;
+}
+
+const ID_PATTERN = /^[a-z0-9-]{8,64}$/;
+export const isGameId = (id: string) => ID_PATTERN.test(id);
+
+const RUN_PATTERN = /^[\w-]{1,80}$/;
+export const isRunId = (run: string) => RUN_PATTERN.test(run);
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch { return null; }
+}
+
+async function writeJson(file: string, value: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(value));
+  await rename(tmp, file);
+}
+
+/**
+ * One JSON file per game, and per run in `runs/` with its seed in `seeds/`;
+ * writes go through a temp file so a crash never leaves half a save.
+ */
+export function createFileStore(dir: string): GameStore {
+  const file = (id: string) => path.join(dir, `${id}.json`);
+  const runFile = (run: string) => path.join(dir, "runs", `${run}.json`);
+  const seedFile = (seed: number) => path.join(dir, "seeds", `${seed >>> 0}.json`);
+  return {
+    load: id => (isGameId(id) ? readJson<StoredGame>(file(id)) : Promise.resolve(null)),
+    async save(game) {
+      if (!isGameId(game.id)) throw new Error(`bad game id: ${game.id}`);
+      await writeJson(file(game.id), game);
+    },
+    loadRun: run => (isRunId(run) ? readJson<StoredRun>(runFile(run)) : Promise.resolve(null)),
+    async runOfSeed(seed) {
+      const run = await readJson<string>(seedFile(seed));
+      return typeof run === "string" && isRunId(run) ? readJson<StoredRun>(runFile(run)) : null;
+    },
+    async saveRun(run) {
+      if (!isRunId(run.run)) throw new Error(`bad run id: ${run.run}`);
+      await writeJson(runFile(run.run), run);
+      await writeJson(seedFile(run.seed), run.run);
+    },
+  };
+}
+
+let store: GameStore | null = null;
+
+/** The process-wide store; GAME_DATA_DIR overrides the default `.data/games`. */
+export function gameStore(): GameStore {
+  store ??= createFileStore(process.env.GAME_DATA_DIR ?? path.join(process.cwd(), ".data", "games"));
+  return store;
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+
+import { makeInitialState, type GameAction, type Session } from "@/game";
+
+import type { GameStore, StoredGame, StoredRun } from "./gameStore";
+import { applyAction, createGame, gameView, joinGame, loadGame, playerSession, verifySession } from "./games";
+import { sealSeed, unsealSeed } from "./seal";
+
+function memoryStore(): GameStore & { games: Map<string, StoredGame> } {
+  const games = new Map<string, StoredGame>();
+  const runs = new Map<string, StoredRun>();
+  const copy = <T>(v: T | undefined) => (v ? structuredClone(v) : null);
+  return {
+    games,
+    load: async id => copy(games.get(id)),
+    save: async game => { games.set(game.id, structuredClone(game)); },
+    loadRun: async run => copy(runs.get(run)),
+    runOfSeed: async seed => copy([...runs.values()].find(r => r.seed === seed)),
+    saveRun: async run => { runs.set(run.run, { ...run }); },
+  };
+}
+
+const CREATION: GameAction[] = [
+  { type: "SET_DIFFICULTY", difficulty: "HARDCORE" },
+  { type: "SET_UNIVERSE", universe: "CLASSIC_FANTASY" },
+  { type: "SET_SEX", sex: "Ж" },
+  { type: "SET_NAME", name: "Ася" },
+  { type: "CHOOSE_RACE", id: "r1" },
+  { type: "CHOOSE_CLASS", id: "c1" },
+  { type: "CHOOSE_BG", id: "b1" },
+];
+
+/** A new game on the server with the hero made; returns its id, seat and the session the player holds. */
+async function started(store: GameStore) {
+  const created = await createGame(store);
+  if (!created.ok) throw new Error(created.errors.join("; "));
+  const { id, seat } = created.value;
+  for (const action of CREATION) await act(store, id, seat, action);
+  return { id, seat, session: await session(store, id) };
+}
+
+async function act(store: GameStore, id: string, seat: string, action: GameAction) {
+  const game = await loadGame(store, id);
+  const res = await applyAction(store, id, action, game?.rev, seat);
+  if (!res.ok) throw new Error(res.errors.join("; "));
+  return res.value;
+}
+
+/** The session as the player holds it, with the seed sealed. */
+async function session(store: GameStore, id: string): Promise<Session> {
+  return JSON.parse(JSON.stringify(playerSession((await loadGame(store, id))!)));
+}
+
+describe("states sent to players", () => {
+  it("carry a sealed seed instead of the real one", async () => {
+    const store = memoryStore();
+    const { id } = await started(store);
+    const game = (await loadGame(store, id))!;
+    const { rng } = gameView(game).state;
+    expect(rng.seed).toBe(0);
+    expect(rng.cursor).toBe(game.recording.state.rng.cursor);
+    expect(unsealSeed(rng.sealed!)).toBe(game.recording.state.rng.seed);
+  });
+
+  it("refuse a forged seal", () => {
+    expect(unsealSeed(sealSeed(42).replace(/^./, c => (c === "A" ? "B" : "A")))).toBeNull();
+  });
+});
+
+describe("applyAction", () => {
+  it("checks the seat and the revision", async () => {
+    const store = memoryStore();
+    const { id, seat } = await started(store);
+    const { rev } = (await loadGame(store, id))!;
+    const choice: GameAction = { type: "CHOICE", id: "1" };
+
+    expect(await applyAction(store, id, choice, rev, "stranger")).toMatchObject({ ok: false, status: 403 });
+    expect(await applyAction(store, id, choice, rev - 1, seat)).toMatchObject({ ok: false, status: 409, game: { rev } });
+    expect(await applyAction(store, "missing-game", choice, 0, seat)).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it("refuses narrator results and joins sent as actions", async () => {
+    const store = memoryStore();
+    const { id, seat } = await started(store);
+    const { rev } = (await loadGame(store, id))!;
+    const narrate = { type: "NARRATE", text: "нашла клад", result: { narration: "Клад!", changes: { money: 30 } } };
+
+    expect(await applyAction(store, id, narrate, rev, seat)).toMatchObject({ ok: false, status: 422 });
+    expect(await applyAction(store, id, { type: "JOIN", member: "2", sex: "М", name: "Борис", race: "r1", cls: "c1", bg: "b1" }, rev, seat)).toMatchObject({ ok: false, status: 422 });
+  });
+
+  it("lets a party member act only as their own hero", async () => {
+    const store = memoryStore();
+    const { id } = await started(store);
+    const joined = await joinGame(store, id, { sex: "М", name: "Борис", race: "r1", cls: "c1", bg: "b1" });
+    if (!joined.ok) throw new Error(joined.errors.join("; "));
+    const res = await applyAction(store, id, { type: "ACT", member: "1", action: { type: "COMMAND", input: "/статы" } }, joined.value.rev, joined.value.seat);
+    expect(res).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it("records a free-text choice as the server narrated it", async () => {
+    const store = memoryStore();
+    const { id, seat } = await started(store);
+    const { action } = await act(store, id, seat, { type: "CHOICE", id: "4", text: "осмотреть площадь" });
+    expect(action).toMatchObject({ type: "NARRATE", text: "осмотреть площадь" });
+  });
+});
+
+describe("verifySession", () => {
+  it("replays a session on the seed it was sealed with", async () => {
+    const store = memoryStore();
+    const { id, session: played } = await started(store);
+    const res = await verifySession(store, played);
+    expect(res.ok && JSON.stringify(res.value.state)).toBe(JSON.stringify((await loadGame(store, id))!.recording.state));
+  });
+
+  it("gives a session without a seal the server can open a fresh seed and run", async () => {
+    const store = memoryStore();
+    const initial = makeInitialState(7, "local-run");
+    const res = await verifySession(store, { initial: { ...initial, rng: { ...initial.rng, sealed: "forged" } }, actions: CREATION });
+    expect(res.ok && res.value.state.phase).toBe("PLAY");
+    expect(res.ok && res.value.state.run).not.toBe("local-run");
+  });
+
+  it("refuses a start that is not a new game", async () => {
+    const store = memoryStore();
+    const initial = { ...makeInitialState(7), money: 9999 };
+    expect(await verifySession(store, { initial, actions: [] })).toMatchObject({ ok: false, status: 422 });
+  });
+
+  it("refuses sessions over the length cap", async () => {
+    const store = memoryStore();
+    const actions = Array.from({ length: 201 }, () => ({ type: "COMMAND", input: "/статы" }));
+    const res = await verifySession(store, { initial: makeInitialState(7), actions });
+    expect(res).toMatchObject({ ok: false, status: 422 });
+  });
+
+  it("does not take narrator results from the client", async () => {
+    const store = memoryStore();
+    const narrate = { type: "NARRATE", text: "нашла клад", result: { narration: "Клад!", changes: { money: 30 } } };
+    const plain = await verifySession(store, { initial: makeInitialState(7), actions: CREATION });
+    const forged = await verifySession(store, { initial: makeInitialState(7), actions: [...CREATION, ...Array.from({ length: 20 }, () => narrate)] });
+    expect(plain.ok && forged.ok && forged.value.state.money - plain.value.state.money).toBeLessThan(600);
+  });
+});
+
+describe("runs", () => {
+  it("refuse a session cut short of what the server recorded", async () => {
+    const store = memoryStore();
+    const { id, seat } = await started(store);
+    await act(store, id, seat, { type: "COMMAND", input: "/статы" });
+    const full = await session(store, id);
+    const cut = { ...full, actions: full.actions.slice(0, -1) };
+    expect(await createGame(store, cut)).toMatchObject({ ok: false, status: 422, errors: [expect.stringMatching(/расходится/)] });
+  });
+
+  it("refuse a session that goes another way from the same seed", async () => {
+    const store = memoryStore();
+    const { id, seat } = await started(store);
+    const before = await session(store, id);
+    await act(store, id, seat, { type: "CHOICE", id: "1" });
+    const other = { ...before, actions: [...before.actions, { type: "CHOICE", id: "2" }] };
+    expect(await createGame(store, other)).toMatchObject({ ok: false, status: 422, errors: [expect.stringMatching(/расходится/)] });
+  });
+
+  it("move to the game that took the session over", async () => {
+    const store = memoryStore();
+    const { id, seat, session: played } = await started(store);
+    const taken = await createGame(store, played);
+    expect(taken.ok).toBe(true);
+    const res = await applyAction(store, id, { type: "COMMAND", input: "/статы" }, (await loadGame(store, id))!.rev, seat);
+    expect(res).toMatchObject({ ok: false, status: 410 });
+  });
+
+  it("are not taken back once the hardcore hero has fallen", async () => {
+    const store = memoryStore();
+    const { id, seat } = await started(store);
+    for (let i = 0; i < 30 && !store.games.get(id)!.recording.state.enemy; i++) await act(store, id, seat, { type: "CHOICE", id: "1" });
+    // a hopeless fight, so the next blows kill
+    const game = store.games.get(id)!;
+    game.recording.state.hpCur = 1;
+    game.recording.state.enemy = { ...game.recording.state.enemy!, hpCur: 9999, hpMax: 9999, dmgMin: 500, dmgMax: 500, evasion: 0 };
+    for (let i = 0; i < 30 && store.games.get(id)!.recording.state.phase !== "DEAD"; i++) await act(store, id, seat, { type: "CHOICE", id: "1" });
+    expect(store.games.get(id)!.recording.state.phase).toBe("DEAD");
+
+    const full = await session(store, id);
+    expect(await createGame(store, { ...full, actions: full.actions.slice(0, -1) })).toMatchObject({ ok: false, status: 422, errors: [expect.stringMatching(/пал/)] });
+    expect(await createGame(store, full)).toMatchObject({ ok: false, status: 422 });
+  });
+});
@@ -0,0 +1,248 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  HOST_MEMBER, STATE_VERSION, actionBlocker, asMember, makeInitialState, memberView, migrateState, narratorSnapshot, nextMemberId, parseAction, randomSeed, record, startRecording,
+  type GameAction, type GameState, type Recording, type Session,
+} from "@/game";
+
+import { isRunId, type GameStore, type StoredGame } from "./gameStore";
+import { serverNarrator } from "./narrator";
+import { sealSeed, unsealSeed } from "./seal";
+
+/** What the client gets back: the authoritative state and the revision to send with the next action. */
+export type GameView = { id: string; rev: number; state: GameState };
+export type GameResult<T> = { ok: true; value: T } | { ok: false; status: number; errors: string[]; game?: GameView };
+/** A player's place in a game: the token that authorises their actions and the party member it plays. */
+export type Seat = { seat: string; member: string };
+/** Pushed to everyone watching a game; `action` is what was just recorded (absent for the first event). */
+export type GameEvent = GameView & { action?: GameAction };
+
+/**
+ * Imported sessions longer than this are refused rather than replayed: the
+ * replay runs on the request, and anyone may post one.
+ */
+const MAX_IMPORT_ACTIONS = 200;
+
+/** A state as players get it: the seed is sealed, so the coming rolls cannot be worked out from it. */
+const forPlayers = (state: GameState): GameState => ({ ...state, rng: { seed: 0, cursor: state.rng.cursor, sealed: sealSeed(state.rng.seed) } });
+
+/** Everything a response or event carries about a game goes through here or playerSession. */
+export const gameView = (g: StoredGame): GameView => ({ id: g.id, rev: g.rev, state: forPlayers(g.recording.state) });
+export const playerSession = (g: StoredGame): Session => ({ initial: forPlayers(g.recording.session.initial), actions: g.recording.session.actions });
+
+// one action at a time per game, so revisions never race within this process;
+// uploads of runs new to the server queue up under one key
+const UPLOADS = "uploads";
+const locks = new Map<string, Promise<unknown>>();
+function withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const run = (locks.get(id) ?? Promise.resolve()).then(fn, fn);
+  const tail = run.catch(() => undefined);
+  locks.set(id, tail);
+  void tail.then(() => { if (locks.get(id) === tail) locks.delete(id); });
+  return run;
+}
+
+// live subscribers by game id; like the locks, this assumes a single server process
+const watchers = new Map<string, Set<(e: GameEvent) => void>>();
+
+/** Calls `listener` after every change of the game; returns the unsubscribe function. */
+export function watchGame(id: string, listener: (e: GameEvent) => void) {
+  const set = watchers.get(id) ?? new Set();
+  set.add(listener);
+  watchers.set(id, set);
+  return () => {
+    set.delete(listener);
+    if (!set.size) watchers.delete(id);
+  };
+}
+
+function publish(game: StoredGame, action: GameAction) {
+  for (const listener of watchers.get(game.id) ?? []) listener({ ...gameView(game), action });
+}
+
+/** Loads a game, upgrading the state of an older version; the old replay session is dropped then, as with saves. */
+export async function loadGame(store: GameStore, id: string): Promise<StoredGame | null> {
+  const g = await store.load(id);
+  if (!g) return null;
+  if (g.recording.state.version === STATE_VERSION) return g;
+  const res = migrateState(g.recording.state);
+  return res.ok ? { ...g, recording: startRecording(res.state) } : null;
+}
+
+/** A run ends for good when its hero dies on a difficulty with permadeath; only then is the phase DEAD. */
+const fallen = (state: GameState) => state.phase === "DEAD";
+
+/** The seed sealed into an uploaded session's start, or null when there is none the server can open. */
+function sealedSeed(raw: unknown) {
+  const init = migrateState((raw as Partial<Session> | null)?.initial);
+  const sealed = init.ok ? init.state.rng.sealed : undefined;
+  return sealed ? unsealSeed(sealed) : null;
+}
+
+/**
+ * The actions already recorded for the run that was dealt `seed`: an upload
+ * must start with them, so a run cannot be forked or taken back a few turns.
+ * Null when the seed belongs to another run.
+ */
+async function playedActions(store: GameStore, seed: number, run: string): Promise<GameAction[] | null> {
+  const known = await store.runOfSeed(seed);
+  if (!known) return [];
+  if (known.run !== run) return null;
+  const game = await loadGame(store, known.game);
+  return game?.recording.session.actions ?? [];
+}
+
+/**
+ * Checks an uploaded session by replaying it: the start must be a pristine
+ * new game and every action must be valid where it was taken. A seed the
+ * server sealed is opened again, and the session must carry on from what
+ * the server already recorded for that run; any other seed is replaced with a
+ * fresh one, along with the run, since the client could have chosen it to
+ * suit its rolls. A run whose hero has fallen is never taken back.
+ *
+ * Narrator results from the client are not taken on trust. Free-text turns
+ * the server has not recorded itself are replayed with the built-in narrator,
+ * which costs nothing and needs no network.
+ */
+export async function verifySession(store: GameStore, raw: unknown): Promise<GameResult<Recording>> {
+  const bad = (...errors: string[]): GameResult<Recording> => ({ ok: false, status: 422, errors });
+  const obj = raw as Partial<Session> | null;
+  if (!obj || !Array.isArray(obj.actions)) return bad("нужна запись ходов: initial и actions");
+  if (obj.actions.length > MAX_IMPORT_ACTIONS) return bad(`слишком длинная запись (${obj.actions.length} ходов, можно ${MAX_IMPORT_ACTIONS})`);
+  const init = migrateState(obj.initial);
+  if (!init.ok) return bad(...init.errors);
+  const { run, rng: { sealed } } = init.state;
+  if (!isRunId(run)) return bad("неверный id забега");
+  if ((await store.loadRun(run))?.fallen) return bad("герой этого забега пал — смерть окончательна");
+  const seed = sealed ? unsealSeed(sealed) : null;
+  const fresh = seed === null ? makeInitialState(randomSeed()) : makeInitialState(seed, run);
+  if (init.migrated || JSON.stringify({ ...init.state, rng: fresh.rng, run: fresh.run }) !== JSON.stringify(fresh)) return bad("запись начинается не с новой игры текущей версии");
+  const played = seed === null ? [] : await playedActions(store, seed, run);
+  const diverged = bad("запись расходится с тем, что сервер уже записал в этом забеге");
+  if (!played || played.length > obj.actions.length) return diverged;
+
+  let rec = startRecording(fresh);
+  for (const [i, rawAction] of obj.actions.entries()) {
+    if (i < played.length) {
+      if (JSON.stringify(rawAction) !== JSON.stringify(played[i])) return diverged;
+      rec = record(rec, played[i]);
+      continue;
+    }
+    const parsed = parseAction(rawAction);
+    if (!parsed) return bad(`ход ${i + 1}: неизвестное действие`);
+    const action = unnarrated(parsed);
+    const blocked = actionBlocker(rec.state, action);
+    if (blocked) return bad(`ход ${i + 1}: ${blocked}`);
+    rec = record(rec, action);
+  }
+  return { ok: true, value: rec };
+}
+
+/** Saves a new game that owns its run from now on; a game that played the run before can no longer act. */
+async function startGame(store: GameStore, rec: Recording): Promise<GameView & Seat & { session: Session }> {
+  const seat = randomUUID();
+  const game: StoredGame = { id: randomUUID(), rev: 0, recording: rec, updatedAt: Date.now(), seats: { [seat]: HOST_MEMBER } };
+  await store.save(game);
+  const { state } = rec;
+  await store.saveRun({ run: state.run, seed: state.rng.seed, game: game.id, fallen: fallen(state) });
+  return { ...gameView(game), session: playerSession(game), seat, member: HOST_MEMBER };
+}
+
+/**
+ * Starts a new game, or takes over an uploaded session after verifying it.
+ * The creator gets the host's seat. An upload waits on the game that plays
+ * its run now, so no move lands there while the run changes hands.
+ */
+export async function createGame(store: GameStore, session?: unknown): Promise<GameResult<GameView & Seat & { session: Session }>> {
+  if (session === undefined) return { ok: true, value: await startGame(store, startRecording(makeInitialState(randomSeed()))) };
+  const seed = sealedSeed(session);
+  const owner = seed === null ? null : await store.runOfSeed(seed);
+  return withLock(owner?.game ?? UPLOADS, async () => {
+    const res = await verifySession(store, session);
+    return res.ok ? { ok: true, value: await startGame(store, res.value) } : res;
+  });
+}
+
+/** The member a seat token plays; games from before seats existed let anyone act as the host. */
+function seatMember(game: StoredGame, seat: unknown) {
+  if (!game.seats || !Object.keys(game.seats).length) return HOST_MEMBER;
+  return typeof seat === "string" ? game.seats[seat] : undefined;
+}
+
+/** A new hero joins the party; body fields are those of the JOIN action. The new player gets a seat of their own. */
+export function joinGame(store: GameStore, id: string, raw: unknown): Promise<GameResult<GameView & Seat & { session: Session }>> {
+  return withLock(id, async () => {
+    const game = await loadGame(store, id);
+    if (!game) return { ok: false, status: 404, errors: ["игра не найдена"] };
+    const member = nextMemberId(game.recording.state);
+    const action = parseAction({ ...(raw as object), type: "JOIN", member });
+    if (!action) return { ok: false, status: 422, errors: ["нужны sex, name, race, cls и bg"] };
+    const blocked = actionBlocker(game.recording.state, action);
+    if (blocked) return { ok: false, status: 422, errors: [blocked] };
+
+    const seat = randomUUID();
+    const next: StoredGame = { ...game, rev: game.rev + 1, recording: record(game.recording, action), updatedAt: Date.now(), seats: { ...game.seats, [seat]: member } };
+    await store.save(next);
+    publish(next, action);
+    return { ok: true, value: { ...gameView(next), session: playerSession(next), seat, member } };
+  });
+}
+
+/** A recorded narrator result turned back into the free-text choice it came from, so the built-in narrator tells it again. */
+function unnarrated(action: GameAction): GameAction {
+  if (action.type === "ACT") return { ...action, action: unnarrated(action.action) };
+  return action.type === "NARRATE" ? { type: "CHOICE", id: "4", text: action.text } : action;
+}
+
+/**
+ * The free-text action is narrated here, not by the client: the server
+ * records the narrator's result so nobody can send their own.
+ */
+async function narrateOnServer(state: GameState, action: GameAction): Promise<GameAction> {
+  if (action.type === "ACT") return { ...action, action: await narrateOnServer(memberView(state, action.member), action.action) };
+  if (action.type !== "CHOICE" || action.id !== "4" || !action.text?.trim()) return action;
+  try {
+    const result = await serverNarrator().narrate(narratorSnapshot(state), action.text.trim());
+    return { type: "NARRATE", text: action.text.trim(), result };
+  } catch {
+    // the engine falls back to the built-in local narrator
+    return action;
+  }
+}
+
+/**
+ * Validates and applies one action. `rev` must match the stored revision,
+ * otherwise the client is out of date and gets the current game back.
+ * `seat` says who acts; in a party the action is recorded as that member's turn.
+ */
+export function applyAction(store: GameStore, id: string, rawAction: unknown, rev: unknown, seat?: unknown): Promise<GameResult<GameView & { action: GameAction }>> {
+  return withLock(id, async () => {
+    const game = await loadGame(store, id);
+    if (!game) return { ok: false, status: 404, errors: ["игра не найдена"] };
+    const member = seatMember(game, seat);
+    if (!member) return { ok: false, status: 403, errors: ["у вас нет места в этой игре — сначала присоединитесь"] };
+    if (rev !== game.rev) return { ok: false, status: 409, errors: [`устаревшая ревизия ${String(rev)}, текущая ${game.rev}`], game: gameView(game) };
+
+    const parsed = parseAction(rawAction);
+    if (!parsed) return { ok: false, status: 422, errors: ["неизвестное или неполное действие"] };
+    if (parsed.type === "ACT" && parsed.member !== member) return { ok: false, status: 403, errors: ["ходить можно только своим героем"] };
+    const inner = parsed.type === "ACT" ? parsed.action : parsed;
+    if (inner.type === "NARRATE") return { ok: false, status: 422, errors: ["результат рассказчика формирует сервер"] };
+    if (inner.type === "JOIN") return { ok: false, status: 422, errors: ["к отряду присоединяются через /api/game/:id/join"] };
+    const state = game.recording.state;
+    const owner = await store.loadRun(state.run);
+    if (owner && owner.game !== game.id) return { ok: false, status: 410, errors: ["этот забег продолжается в другой игре"] };
+    const own = asMember(state, member, parsed);
+    const blocked = actionBlocker(state, own);
+    if (blocked) return { ok: false, status: 422, errors: [blocked] };
+
+    const action = await narrateOnServer(state, own);
+    const next: StoredGame = { ...game, rev: game.rev + 1, recording: record(game.recording, action), updatedAt: Date.now() };
+    await store.save(next);
+    // games from before runs were kept claim theirs on the first move
+    const dead = fallen(next.recording.state);
+    if (!owner || owner.fallen !== dead) await store.saveRun({ run: state.run, seed: state.rng.seed, game: game.id, fallen: dead });
+    publish(next, action);
+    return { ok: true, value: { ...gameView(next), action } };
+  });
+}
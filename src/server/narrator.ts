@@ -0,0 +1,8 @@
+import { createHttpNarrator, createLocalNarrator, type Narrator } from "@/game";
+
+/** NARRATOR_URL points at any OpenAI-compatible API; without it the local rules narrate. */
+export function serverNarrator(): Narrator {
+  const baseUrl = process.env.NARRATOR_URL;
+  if (!baseUrl) return createLocalNarrator();
+  return createHttpNarrator({ baseUrl, model: process.env.NARRATOR_MODEL ?? "gpt-4o-mini", apiKey: process.env.NARRATOR_API_KEY });
+}
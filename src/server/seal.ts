@@ -0,0 +1,41 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "node:crypto";
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+const keys = globalThis as typeof globalThis & { gameSealKey?: Buffer };
+
+/**
+ * GAME_SECRET, or a random key for the life of the process: without the
+ * variable, seeds sealed before a restart can no longer be opened.
+ */
+function sealKey() {
+  const secret = process.env.GAME_SECRET;
+  if (secret) return createHash("sha256").update(secret).digest();
+  return (keys.gameSealKey ??= randomBytes(32));
+}
+
+/**
+ * Encrypts a seed for the client. The IV comes from the seed itself, so a
+ * game's token stays the same in every response.
+ */
+export function sealSeed(seed: number): string {
+  const key = sealKey();
+  const plain = Buffer.alloc(4);
+  plain.writeUInt32BE(seed >>> 0);
+  const iv = createHmac("sha256", key).update(plain).digest().subarray(0, IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64url");
+}
+
+/** The seed inside a token from sealSeed, or null when it is forged or was sealed with another key. */
+export function unsealSeed(token: string): number | null {
+  const raw = Buffer.from(token, "base64url");
+  if (raw.length !== IV_BYTES + TAG_BYTES + 4) return null;
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", sealKey(), raw.subarray(0, IV_BYTES));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).readUInt32BE();
+  } catch { return null; }
+}